@@ -3,7 +3,10 @@
 declare global {
 	namespace App {
 		// interface Error {}
-		// interface Locals {}
+		interface Locals {
+			// Set when the request carried auth cookies of an account revoked via RISC
+			sessionRevoked: boolean;
+		}
 		// interface PageData {}
 		// interface PageState {}
 		// interface Platform {}
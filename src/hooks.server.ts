@@ -0,0 +1,24 @@
+import type { Handle, ServerInit } from '@sveltejs/kit';
+import { recordApiResponse } from '$lib/server/adminMonitor';
+import { startDeletionJobRunner } from '$lib/server/deletionJobs';
+import { clearRevokedCookies } from '$lib/server/sessionRegistry';
+import { dropLegacyTokenCookies } from '$lib/server/sessionVault';
+
+// Resume server-side deletion jobs after a restart, without waiting for a request
+export const init: ServerInit = () => {
+	startDeletionJobRunner();
+};
+
+export const handle: Handle = async ({ event, resolve }) => {
+	// Older versions kept raw tokens in cookies - they can't be revoked via RISC, so drop them
+	dropLegacyTokenCookies(event.cookies);
+	// Drop auth cookies of accounts revoked via RISC before any route can use them
+	event.locals.sessionRevoked = clearRevokedCookies(event.cookies);
+	
+	const response = await resolve(event);
+	// Error rates for the admin dashboard
+	if (event.url.pathname.startsWith('/api/')) {
+		recordApiResponse(response.status);
+	}
+	return response;
+};
@@ -0,0 +1,74 @@
+// Authentication for the operator dashboard (/admin and /api/admin)
+// Operators sign in with ADMIN_TOKEN and get a short-lived session cookie;
+// scripts can send the token as Bearer token instead
+// Sessions are kept in memory only, a restart signs everyone out
+
+import type { Cookies } from '@sveltejs/kit';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { adminConfig, privacyLogger } from './config';
+
+const ADMIN_COOKIE = 'cs_admin';
+const ADMIN_SESSION_LIFETIME_MS = 12 * 60 * 60 * 1000;
+
+// Hash of the admin session ID -> expiry
+const adminSessions = new Map<string, number>();
+
+function hashValue(value: string): string {
+	return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Compare a token with ADMIN_TOKEN in constant time
+ */
+export function verifyAdminToken(token: string): boolean {
+	if (!adminConfig.enabled) return false;
+	// Compare hashes so the lengths always match
+	return timingSafeEqual(Buffer.from(hashValue(token)), Buffer.from(hashValue(adminConfig.token)));
+}
+
+/**
+ * Start an admin session after a successful sign-in
+ */
+export function createAdminSession(cookies: Cookies, url: URL): void {
+	const now = Date.now();
+	for (const [key, expiresAt] of adminSessions) {
+		if (expiresAt <= now) adminSessions.delete(key);
+	}
+
+	const sessionId = randomBytes(32).toString('base64url');
+	adminSessions.set(hashValue(sessionId), now + ADMIN_SESSION_LIFETIME_MS);
+	cookies.set(ADMIN_COOKIE, sessionId, {
+		path: '/',
+		httpOnly: true,
+		secure: url.protocol === 'https:',
+		sameSite: 'strict',
+		maxAge: ADMIN_SESSION_LIFETIME_MS / 1000
+	});
+	privacyLogger.info('Admin signed in');
+}
+
+/**
+ * End the admin session of a request
+ */
+export function destroyAdminSession(cookies: Cookies): void {
+	const sessionId = cookies.get(ADMIN_COOKIE);
+	if (sessionId) adminSessions.delete(hashValue(sessionId));
+	cookies.delete(ADMIN_COOKIE, { path: '/' });
+}
+
+/**
+ * Check if a request comes from a signed-in admin or carries the admin token
+ */
+export function isAdminRequest(request: Request, cookies: Cookies): boolean {
+	if (!adminConfig.enabled) return false;
+
+	const authorization = request.headers.get('authorization');
+	if (authorization?.startsWith('Bearer ')) {
+		return verifyAdminToken(authorization.slice('Bearer '.length));
+	}
+
+	const sessionId = cookies.get(ADMIN_COOKIE);
+	if (!sessionId) return false;
+	const expiresAt = adminSessions.get(hashValue(sessionId));
+	return expiresAt !== undefined && expiresAt > Date.now();
+}
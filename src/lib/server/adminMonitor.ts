@@ -0,0 +1,106 @@
+// Operational history for the admin dashboard
+// Samples the quota status every minute and counts API responses and RISC events
+// Kept in memory only: the samples cover the time since the server started,
+// daily totals come from the persisted quota history
+
+import { getQuotaStatus } from './quota';
+import { getQuotaHistory } from './quotaHistory';
+import type { ApiMinuteStats, MonitorSnapshot, QuotaSample, RiscEventRecord } from '$lib/types/admin';
+
+const SAMPLE_INTERVAL_MS = 60 * 1000;
+const SAMPLE_RETENTION_MS = 24 * 60 * 60 * 1000;
+const DAILY_HISTORY_DAYS = 30;
+const RECENT_RISC_EVENTS = 50;
+
+// In-memory state
+const startedAt = Date.now();
+const samples: QuotaSample[] = [];
+const apiMinutes: ApiMinuteStats[] = [];
+const riscCounts: Record<string, number> = {};
+const recentRiscEvents: RiscEventRecord[] = [];
+
+function takeSample(): void {
+	const status = getQuotaStatus();
+	const now = Date.now();
+
+	samples.push({
+		timestamp: now,
+		used: status.used,
+		reserved: status.reserved,
+		dailyLimit: status.dailyLimit,
+		perMinuteUsed: status.perMinuteUsed,
+		connectedUsers: status.connectedUsers,
+		deletingUsers: status.deletingUsers,
+		waitingUsers: status.waitingUsers
+	});
+	while (samples.length > 0 && samples[0].timestamp < now - SAMPLE_RETENTION_MS) {
+		samples.shift();
+	}
+}
+
+/**
+ * Count an API response (called from the server hook for /api routes)
+ */
+export function recordApiResponse(status: number): void {
+	const minute = Math.floor(Date.now() / 60000) * 60000;
+	let current = apiMinutes[apiMinutes.length - 1];
+	if (!current || current.minute !== minute) {
+		current = { minute, requests: 0, clientErrors: 0, serverErrors: 0 };
+		apiMinutes.push(current);
+		while (apiMinutes[0].minute < minute - SAMPLE_RETENTION_MS) {
+			apiMinutes.shift();
+		}
+	}
+	current.requests++;
+	if (status >= 500) current.serverErrors++;
+	else if (status >= 400) current.clientErrors++;
+}
+
+/**
+ * Count a RISC security event received from Google
+ */
+export function recordRiscEvent(eventUri: string): void {
+	const type = eventUri.split('/').pop() || eventUri;
+	riscCounts[type] = (riscCounts[type] || 0) + 1;
+	recentRiscEvents.unshift({ type, receivedAt: Date.now() });
+	recentRiscEvents.length = Math.min(recentRiscEvents.length, RECENT_RISC_EVENTS);
+}
+
+/**
+ * RISC events received since the server started, by type
+ */
+export function getRiscEventCounts(): Record<string, number> {
+	return { ...riscCounts };
+}
+
+/**
+ * History for the admin dashboard
+ */
+export function getMonitorSnapshot(): MonitorSnapshot {
+	const hourAgo = Date.now() - 60 * 60 * 1000;
+	const lastHour = apiMinutes
+		.filter(m => m.minute >= hourAgo)
+		.reduce((sum, m) => ({
+			requests: sum.requests + m.requests,
+			clientErrors: sum.clientErrors + m.clientErrors,
+			serverErrors: sum.serverErrors + m.serverErrors
+		}), { requests: 0, clientErrors: 0, serverErrors: 0 });
+
+	return {
+		startedAt,
+		samples: [...samples],
+		dailyUsage: getQuotaHistory(DAILY_HISTORY_DAYS),
+		api: {
+			minutes: [...apiMinutes],
+			lastHour: {
+				...lastHour,
+				errorRate: lastHour.requests > 0 ? (lastHour.clientErrors + lastHour.serverErrors) / lastHour.requests : 0
+			}
+		},
+		risc: { counts: { ...riscCounts }, recent: [...recentRiscEvents] }
+	};
+}
+
+// Sample the quota status periodically (only here, so reloading the dashboard doesn't add samples)
+takeSample();
+setInterval(takeSample, SAMPLE_INTERVAL_MS);
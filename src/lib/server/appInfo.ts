@@ -0,0 +1,40 @@
+// Build and runtime information reported by /api/health and /api/metrics
+
+import { readFileSync, writeFileSync, unlinkSync, mkdirSync, existsSync } from 'fs';
+import { join } from 'path';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+
+let cachedVersion: string | null = null;
+
+/**
+ * Version from the VERSION file in the working directory (bumped by the release workflow)
+ */
+export function getAppVersion(): string {
+	if (cachedVersion === null) {
+		try {
+			cachedVersion = readFileSync(join(process.cwd(), 'VERSION'), 'utf-8').trim() || 'unknown';
+		} catch {
+			cachedVersion = 'unknown';
+		}
+	}
+	return cachedVersion;
+}
+
+/**
+ * Check that DATA_DIR is writable by writing and removing a probe file
+ * Returns the error message if it isn't
+ */
+export function checkDataDirWritable(): string | null {
+	const probeFile = join(DATA_DIR, `.health-${process.pid}.tmp`);
+	try {
+		if (!existsSync(DATA_DIR)) {
+			mkdirSync(DATA_DIR, { recursive: true });
+		}
+		writeFileSync(probeFile, String(Date.now()), 'utf-8');
+		unlinkSync(probeFile);
+		return null;
+	} catch (e) {
+		return e instanceof Error ? e.message : 'Unknown error';
+	}
+}
@@ -58,6 +58,102 @@ export const oauthConfig = {
 	}
 };
 
+/**
+ * Session vault configuration
+ * OAuth tokens are stored encrypted on the server, the browser only gets an opaque session ID.
+ * Without a key, a random one is generated at startup and sessions don't survive restarts.
+ */
+export const sessionVaultConfig = {
+	// Secret the AES-256-GCM key is derived from (e.g. `openssl rand -base64 32`)
+	get encryptionKey(): string {
+		return env.SESSION_ENCRYPTION_KEY || '';
+	}
+};
+
+/**
+ * Server-side deletion jobs configuration
+ * Opt-in for self-hosters: queued deletions keep running on the server
+ * (using the stored refresh token) after the browser is closed.
+ * Requires SESSION_ENCRYPTION_KEY: the stored refresh tokens are encrypted with the vault key,
+ * and a random key would make every job unusable after a restart.
+ * Not available with QUOTA_STORAGE=sqlite: jobs are kept per process, so every process
+ * sharing the data directory would run the same jobs.
+ */
+export const deletionJobConfig = {
+	get requested(): boolean {
+		return env.ENABLE_SERVER_DELETION_JOBS === 'true';
+	},
+	
+	get enabled(): boolean {
+		return this.requested && oauthConfig.isConfigured && !!sessionVaultConfig.encryptionKey
+			&& quotaStorageConfig.backend !== 'sqlite';
+	},
+	
+	// Maximum number of comments in a single job
+	get maxCommentsPerJob(): number {
+		const value = parseInt(env.SERVER_DELETION_JOB_MAX_COMMENTS || '10000', 10);
+		return isNaN(value) || value <= 0 ? 10000 : value;
+	}
+};
+
+/**
+ * Quota storage configuration
+ * Where the shared quota ledger (usage today, per-user usage, runtime limit) is kept:
+ * - file: quota.json in DATA_DIR (default, single server process)
+ * - atomic-file: quota.json written via a temp file and rename, never left half-written after a crash
+ * - sqlite: SQLite database with transactional writes (Node 22.5+)
+ * The app runs as a single process. Processes using the same database see each other's daily usage,
+ * but reservations, batches, per-minute usage, sessions and deletion jobs stay per process,
+ * so several replicas can overdraw the quota and overwrite each other's files.
+ */
+export const quotaStorageConfig = {
+	get backend(): 'file' | 'atomic-file' | 'sqlite' {
+		const value = env.QUOTA_STORAGE;
+		return value === 'atomic-file' || value === 'sqlite' ? value : 'file';
+	},
+	
+	// Database file for the sqlite backend (default: DATA_DIR/quota.db)
+	get sqlitePath(): string {
+		return env.QUOTA_SQLITE_PATH || '';
+	}
+};
+
+/**
+ * Quota history configuration
+ * Daily quota totals are kept for this many days, e.g. to size a quota increase request.
+ */
+export const quotaHistoryConfig = {
+	get retentionDays(): number {
+		const value = parseInt(env.QUOTA_HISTORY_DAYS || '90', 10);
+		return isNaN(value) || value <= 0 ? 90 : value;
+	}
+};
+
+/**
+ * Admin dashboard configuration
+ * The /admin page and /api/admin are only available when ADMIN_TOKEN is set.
+ * The token is entered as password on the page or sent as Bearer token by scripts.
+ */
+export const adminConfig = {
+	get token(): string {
+		return env.ADMIN_TOKEN || '';
+	},
+	
+	get enabled(): boolean {
+		return this.token.length > 0;
+	}
+};
+
+/**
+ * Prometheus metrics configuration (/api/metrics)
+ * Without METRICS_TOKEN the metrics are public, like /api/health
+ */
+export const metricsConfig = {
+	get token(): string {
+		return env.METRICS_TOKEN || '';
+	}
+};
+
 /**
  * Legal and compliance configuration
  * Controls whether legal pages and cookie consent are shown
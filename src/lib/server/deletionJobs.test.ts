@@ -0,0 +1,133 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Jobs persist to DATA_DIR and need OAuth and the vault key to be enabled
+const dataDir = mkdtempSync(join(tmpdir(), 'deletion-jobs-'));
+process.env.DATA_DIR = dataDir;
+process.env.GOOGLE_CLIENT_ID = 'client-id';
+process.env.GOOGLE_CLIENT_SECRET = 'client-secret';
+process.env.GOOGLE_REDIRECT_URI = 'https://example.com/api/auth/callback';
+process.env.SESSION_ENCRYPTION_KEY = 'test-encryption-key';
+process.env.ENABLE_SERVER_DELETION_JOBS = 'true';
+process.env.MAX_PARALLEL_DELETIONS = '1';
+vi.mock('$env/dynamic/private', () => ({ env: process.env }));
+const jobs = await import('./deletionJobs');
+const quota = await import('./quota');
+const { deletionJobConfig } = await import('./config');
+
+interface FakeGoogle {
+	refresh(): Promise<Response>;
+	delete(commentId: string, accessToken: string): Response;
+}
+
+let google: FakeGoogle;
+let refreshCount = 0;
+
+vi.stubGlobal('fetch', async (input: string | URL, init?: RequestInit) => {
+	const url = new URL(input);
+	if (url.hostname === 'oauth2.googleapis.com') {
+		refreshCount++;
+		return google.refresh();
+	}
+	const accessToken = new Headers(init?.headers).get('Authorization')?.replace('Bearer ', '') ?? '';
+	return google.delete(url.searchParams.get('id') ?? '', accessToken);
+});
+
+function tokenResponse(): Promise<Response> {
+	return Promise.resolve(Response.json({ access_token: `token-${refreshCount}`, expires_in: 3600 }));
+}
+
+function youtubeError(status: number, reason: string): Response {
+	return Response.json({ error: { message: reason, errors: [{ reason }] } }, { status });
+}
+
+// Run a job until its first run is over
+async function runToEnd(ownerId: string, commentIds: string[]) {
+	const { id } = jobs.createDeletionJob(ownerId, `1//refresh-${ownerId}`, commentIds);
+	return vi.waitFor(() => {
+		const job = jobs.listDeletionJobs(ownerId).find(job => job.id === id);
+		if (!job || job.status === 'queued' || job.status === 'running') throw new Error('Job still running');
+		return job;
+	});
+}
+
+beforeEach(() => {
+	refreshCount = 0;
+	google = {
+		refresh: tokenResponse,
+		delete: () => new Response(null, { status: 204 })
+	};
+});
+
+afterAll(() => {
+	rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('deletion jobs', () => {
+	it('deletes all comments of a job', async () => {
+		const job = await runToEnd('owner-ok', ['c1', 'c2', 'c3']);
+		expect(job).toMatchObject({ status: 'completed', deletedIds: ['c1', 'c2', 'c3'], failed: [], pendingCount: 0 });
+	});
+
+	it('refreshes the access token and retries when YouTube rejects it', async () => {
+		// The first access token is revoked right away
+		google.delete = (_id, accessToken) => accessToken === 'token-1' ? youtubeError(401, 'authError') : new Response(null, { status: 204 });
+		const job = await runToEnd('owner-401', ['c1', 'c2']);
+		expect(job).toMatchObject({ status: 'completed', deletedIds: ['c1', 'c2'], failed: [] });
+		expect(refreshCount).toBe(2);
+	});
+
+	it('keeps comments pending when the refreshed token is rejected too', async () => {
+		google.delete = () => youtubeError(401, 'authError');
+		const job = await runToEnd('owner-401-again', ['c1', 'c2']);
+		expect(job).toMatchObject({ status: 'waiting', failed: [], pendingCount: 2 });
+	});
+
+	it('waits and retries after a network error instead of failing', async () => {
+		google.refresh = () => Promise.reject(new TypeError('fetch failed'));
+		const job = await runToEnd('owner-network', ['c1']);
+		expect(job).toMatchObject({ status: 'waiting', pendingCount: 1, message: 'fetch failed - retrying automatically' });
+		expect(job.resumeAt! - Date.now()).toBeLessThanOrEqual(60 * 1000);
+	});
+
+	it('fails when the refresh token was revoked', async () => {
+		google.refresh = () => Promise.resolve(Response.json({ error: 'invalid_grant' }, { status: 400 }));
+		const job = await runToEnd('owner-revoked', ['c1']);
+		expect(job).toMatchObject({ status: 'failed', message: 'Sign-in expired or was revoked - please sign in again' });
+	});
+
+	it('charges the deletions of an interrupted batch', async () => {
+		const usedBefore = quota.getQuotaStatus().used;
+		// c1 is deleted, then the token is rejected and the refresh fails
+		google.delete = commentId => commentId === 'c1' ? new Response(null, { status: 204 }) : youtubeError(401, 'authError');
+		google.refresh = () => refreshCount === 1 ? tokenResponse() : Promise.reject(new TypeError('fetch failed'));
+
+		const job = await runToEnd('owner-partial', ['c1', 'c2', 'c3']);
+		expect(job).toMatchObject({ status: 'waiting', deletedIds: ['c1'], pendingCount: 2 });
+		expect(quota.getQuotaStatus().used - usedBefore).toBe(quota.QUOTA_COSTS.commentsDelete);
+	});
+
+	it('keeps jobs and their refresh tokens away from other users', async () => {
+		const job = await runToEnd('owner-private', ['c1']);
+		expect(jobs.listDeletionJobs('someone-else')).toEqual([]);
+		expect(jobs.cancelDeletionJob('someone-else', job.id)).toBe(false);
+		// Refresh tokens are stored encrypted with the vault key
+		expect(readFileSync(join(dataDir, 'deletion-jobs.json'), 'utf-8')).not.toContain('1//refresh-owner-private');
+	});
+
+	it('stays disabled without the vault key or with SQLite quota storage', () => {
+		expect(deletionJobConfig.enabled).toBe(true);
+		try {
+			delete process.env.SESSION_ENCRYPTION_KEY;
+			expect(deletionJobConfig.enabled).toBe(false);
+			process.env.SESSION_ENCRYPTION_KEY = 'test-encryption-key';
+			process.env.QUOTA_STORAGE = 'sqlite';
+			expect(deletionJobConfig.enabled).toBe(false);
+		} finally {
+			process.env.SESSION_ENCRYPTION_KEY = 'test-encryption-key';
+			delete process.env.QUOTA_STORAGE;
+		}
+	});
+});
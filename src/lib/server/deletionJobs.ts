@@ -0,0 +1,612 @@
+// Server-side deletion jobs for developer OAuth deployments
+// Runs queued deletions with the user's refresh token, even after the browser is closed
+// Jobs go through the same deletion sessions as the browser, so the global quota,
+// per-user limits and parallelism limits from quota.ts apply unchanged
+// Persists jobs to disk so they survive restarts
+
+import type { Cookies } from '@sveltejs/kit';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { deletionJobConfig, oauthConfig, privacyLogger, quotaStorageConfig, sessionVaultConfig, simulationConfig } from './config';
+import {
+	QUOTA_COSTS,
+	quotaConfig,
+	startDeletionSession,
+	reportBatchComplete,
+	endDeletionSession,
+	hasPerMinuteQuota
+} from './quota';
+import { SIMULATED_ACCESS_TOKEN, simulateCommentDeletion } from './simulation';
+import { getSession, sealSecret, openSecret, type SealedSecret } from './sessionVault';
+import { getAccountKey, getQuotaUserKey } from './sessionRegistry';
+import { recordTokenRefresh } from './metrics';
+import { getTimeUntilPacificMidnight } from '$lib/utils/timezone';
+import type { DeletionJobProgress, DeletionJobSummary } from '$lib/types/deletion';
+
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const YOUTUBE_API_BASE = 'https://www.googleapis.com/youtube/v3';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+const JOBS_FILE = join(DATA_DIR, 'deletion-jobs.json');
+
+// How often the runner looks for due jobs
+const RUNNER_INTERVAL_MS = 30 * 1000;
+// Retry interval when the shared quota is temporarily taken by other users
+const QUOTA_RETRY_MS = 15 * 60 * 1000;
+// Resume a little after midnight Pacific so YouTube has reset the quota
+const RESET_BUFFER_MS = 2 * 60 * 1000;
+// Finished jobs are kept this long so the user can still see the result
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// Progress within a job is saved at most this often (status changes are saved right away)
+const SAVE_DELAY_MS = 5 * 1000;
+// Retry after network errors and failed token refreshes, doubling up to the maximum
+const ERROR_RETRY_MS = 60 * 1000;
+const MAX_ERROR_RETRY_MS = 60 * 60 * 1000;
+
+/**
+ * Persisted job - the refresh token never leaves the server
+ */
+interface DeletionJob extends Omit<DeletionJobSummary, 'pendingCount'> {
+	pendingIds: string[];
+	ownerId: string;        // The user's Google account (same key as their quota budget), stable across sign-ins
+	refreshToken?: SealedSecret; // Encrypted with the vault key, removed as soon as the job is finished
+	errorRetries?: number;  // Consecutive runs that ended in a temporary error
+}
+
+/**
+ * Job as stored by older versions: owned by a hash of the refresh token, which was stored in plaintext
+ */
+type StoredDeletionJob = Omit<DeletionJob, 'refreshToken'> & { quotaUserKey?: string; refreshToken?: SealedSecret | string };
+
+/**
+ * Per-owner minute usage (YOUTUBE_PER_USER_MINUTE_LIMIT)
+ */
+interface OwnerMinuteUsage {
+	minute: string;
+	used: number;
+}
+
+type JobSubscriber = (progress: DeletionJobProgress) => void;
+
+/**
+ * The refresh token can't be used anymore - retrying won't help until the user signs in again
+ */
+class SignInRequiredError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'SignInRequiredError';
+	}
+}
+
+// In-memory state
+const jobs = new Map<string, DeletionJob>(loadJobsFromDisk().map(job => [job.id, job]));
+const activeJobs = new Set<string>();
+const accessTokens = new Map<string, { token: string; expiresAt: number }>();
+const ownerMinuteUsage = new Map<string, OwnerMinuteUsage>();
+const jobSubscribers = new Map<string, Set<JobSubscriber>>();
+// Results already sent to subscribers, as lengths of the (append-only) deletedIds and failed lists
+const sentResults = new Map<string, { deleted: number; failed: number }>();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let runnerInterval: ReturnType<typeof setInterval> | null = null;
+
+// adapter-node emits this on SIGTERM/SIGINT, before the process exits
+process.on('sveltekit:shutdown', () => {
+	if (saveTimer) saveJobsToDisk();
+});
+
+/**
+ * Load jobs from disk
+ * Jobs that were running when the server stopped are queued again
+ */
+function loadJobsFromDisk(): DeletionJob[] {
+	try {
+		if (existsSync(JOBS_FILE)) {
+			const loaded = JSON.parse(readFileSync(JOBS_FILE, 'utf-8')) as StoredDeletionJob[];
+			privacyLogger.info(`Loaded ${loaded.length} deletion job(s) from disk`);
+			return loaded.map(({ refreshToken, quotaUserKey, ...job }) => ({
+				...job,
+				ownerId: quotaUserKey ?? job.ownerId,
+				status: job.status === 'running' ? 'queued' : job.status,
+				refreshToken: typeof refreshToken === 'string' ? sealRefreshToken(job.id, refreshToken) : refreshToken
+			}));
+		}
+	} catch (e) {
+		privacyLogger.error(`Failed to load deletion jobs from disk: ${e instanceof Error ? e.message : 'Unknown error'}`);
+	}
+	return [];
+}
+
+/**
+ * Save jobs to disk (readable by the server user only, it contains encrypted refresh tokens)
+ */
+function saveJobsToDisk(): void {
+	if (saveTimer) {
+		clearTimeout(saveTimer);
+		saveTimer = null;
+	}
+	try {
+		const dir = dirname(JOBS_FILE);
+		if (!existsSync(dir)) {
+			mkdirSync(dir, { recursive: true });
+		}
+		writeFileSync(JOBS_FILE, JSON.stringify([...jobs.values()], null, 2), { encoding: 'utf-8', mode: 0o600 });
+	} catch (e) {
+		privacyLogger.error(`Failed to save deletion jobs to disk: ${e instanceof Error ? e.message : 'Unknown error'}`);
+	}
+}
+
+// The job ID is authenticated along with the token, so tokens can't be moved between jobs on disk
+function sealRefreshToken(jobId: string, refreshToken: string): SealedSecret {
+	return sealSecret(`deletion-job:${jobId}`, refreshToken);
+}
+
+function openRefreshToken(job: DeletionJob): string | null {
+	return job.refreshToken ? openSecret(`deletion-job:${job.id}`, job.refreshToken) : null;
+}
+
+function scheduleSave(): void {
+	if (saveTimer) return;
+	saveTimer = setTimeout(saveJobsToDisk, SAVE_DELAY_MS);
+}
+
+function toSummary(job: DeletionJob): DeletionJobSummary {
+	const { ownerId: _ownerId, refreshToken: _refreshToken, errorRetries: _errorRetries, pendingIds, ...summary } = job;
+	return { ...summary, pendingCount: pendingIds.length };
+}
+
+/**
+ * Counters of a job and its results since the previous update
+ */
+function toProgress(job: DeletionJob): DeletionJobProgress {
+	const sent = sentResults.get(job.id) ?? { deleted: 0, failed: 0 };
+	sentResults.set(job.id, { deleted: job.deletedIds.length, failed: job.failed.length });
+
+	const { deletedIds, failed, ...summary } = toSummary(job);
+	return {
+		...summary,
+		deletedCount: deletedIds.length,
+		failedCount: failed.length,
+		newlyDeletedIds: deletedIds.slice(sent.deleted),
+		newlyFailed: failed.slice(sent.failed)
+	};
+}
+
+function isFinished(job: DeletionJob): boolean {
+	return job.status === 'completed' || job.status === 'cancelled' || job.status === 'failed';
+}
+
+/**
+ * Update a job, persist it and notify the owner's SSE streams
+ * Status changes are saved right away, progress within a run is saved in batches
+ */
+function updateJob(job: DeletionJob, changes: Partial<DeletionJob>): void {
+	Object.assign(job, changes, { updatedAt: Date.now() });
+	if (isFinished(job)) {
+		// Don't keep credentials around longer than needed
+		delete job.refreshToken;
+		accessTokens.delete(job.id);
+	}
+	if (changes.status) {
+		saveJobsToDisk();
+	} else {
+		scheduleSave();
+	}
+
+	// Computed even without subscribers, so streams that connect later only get newer results
+	const progress = toProgress(job);
+	const subscribers = jobSubscribers.get(job.ownerId);
+	if (!subscribers) return;
+	for (const subscriber of subscribers) {
+		try {
+			subscriber(progress);
+		} catch {
+			subscribers.delete(subscriber);
+		}
+	}
+}
+
+/**
+ * Remove finished jobs past the retention period
+ */
+function pruneFinishedJobs(): void {
+	const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS;
+	let pruned = false;
+	for (const [id, job] of jobs) {
+		if (isFinished(job) && job.updatedAt < cutoff) {
+			jobs.delete(id);
+			sentResults.delete(id);
+			pruned = true;
+		}
+	}
+	if (pruned) saveJobsToDisk();
+}
+
+/**
+ * Resolve the job owner from the request cookies
+ * Returns null when the user has no refresh token (jobs need one to run unattended)
+ * or the Google account behind it is unknown
+ */
+export function getJobOwner(cookies: Cookies): { ownerId: string; refreshToken: string } | null {
+	const refreshToken = getSession(cookies)?.refreshToken;
+	const ownerId = getAccountKey(cookies);
+	if (refreshToken && ownerId) return { ownerId, refreshToken };
+
+	if (simulationConfig.enabled) {
+		// Simulation mode has no refresh token - tie jobs to the quota session instead
+		const sessionKey = getQuotaUserKey(cookies);
+		if (sessionKey) return { ownerId: sessionKey, refreshToken: `simulation:${sessionKey}` };
+	}
+	return null;
+}
+
+/**
+ * Queue a new deletion job
+ */
+export function createDeletionJob(ownerId: string, refreshToken: string, commentIds: string[]): DeletionJobSummary {
+	const uniqueIds = [...new Set(commentIds)];
+	const now = Date.now();
+	const id = crypto.randomUUID();
+	const job: DeletionJob = {
+		id,
+		ownerId,
+		refreshToken: sealRefreshToken(id, refreshToken),
+		status: 'queued',
+		createdAt: now,
+		updatedAt: now,
+		total: uniqueIds.length,
+		pendingIds: uniqueIds,
+		deletedIds: [],
+		failed: []
+	};
+	jobs.set(job.id, job);
+	// Passing the status saves the new job right away
+	updateJob(job, { status: 'queued' });
+
+	privacyLogger.info(`Queued deletion job ${job.id.slice(0, 8)}... with ${uniqueIds.length} comment(s)`);
+
+	// Don't wait for the next runner tick
+	runDueJobs();
+	return toSummary(job);
+}
+
+/**
+ * List all jobs of a user (newest first)
+ */
+export function listDeletionJobs(ownerId: string): DeletionJobSummary[] {
+	return [...jobs.values()]
+		.filter(job => job.ownerId === ownerId)
+		.sort((a, b) => b.createdAt - a.createdAt)
+		.map(toSummary);
+}
+
+/**
+ * Cancel a job - a running job stops after its current batch
+ * Returns false if the job doesn't exist, belongs to someone else or is already finished
+ */
+export function cancelDeletionJob(ownerId: string, jobId: string): boolean {
+	const job = jobs.get(jobId);
+	if (!job || job.ownerId !== ownerId || isFinished(job)) return false;
+
+	updateJob(job, { status: 'cancelled', resumeAt: undefined, message: 'Cancelled by user' });
+	privacyLogger.info(`Cancelled deletion job ${jobId.slice(0, 8)}...`);
+	return true;
+}
+
+/**
+ * Cancel all unfinished jobs of an owner (their Google access was revoked)
+ * Returns the number of cancelled jobs
+ */
+export function revokeDeletionJobs(ownerId: string): number {
+	let cancelled = 0;
+	for (const job of jobs.values()) {
+		if (job.ownerId !== ownerId || isFinished(job)) continue;
+		updateJob(job, { status: 'cancelled', resumeAt: undefined, message: 'Google account access was revoked' });
+		cancelled++;
+	}
+	return cancelled;
+}
+
+/**
+ * Subscribe to job updates of a user
+ */
+export function subscribeToJobUpdates(ownerId: string, callback: JobSubscriber): () => void {
+	let subscribers = jobSubscribers.get(ownerId);
+	if (!subscribers) {
+		subscribers = new Set();
+		jobSubscribers.set(ownerId, subscribers);
+	}
+	subscribers.add(callback);
+
+	return () => {
+		subscribers.delete(callback);
+		if (subscribers.size === 0) jobSubscribers.delete(ownerId);
+	};
+}
+
+/**
+ * Get a valid access token for a job (refreshed shortly before it expires)
+ */
+async function getAccessToken(job: DeletionJob): Promise<string> {
+	if (simulationConfig.enabled) return SIMULATED_ACCESS_TOKEN;
+
+	const cached = accessTokens.get(job.id);
+	if (cached && cached.expiresAt - 60 * 1000 > Date.now()) {
+		return cached.token;
+	}
+	const refreshToken = openRefreshToken(job);
+	if (!refreshToken) {
+		// Also the case when SESSION_ENCRYPTION_KEY changed since the job was queued
+		throw new SignInRequiredError('No refresh token available - please sign in again');
+	}
+
+	const response = await fetch(GOOGLE_TOKEN_URL, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/x-www-form-urlencoded'
+		},
+		body: new URLSearchParams({
+			client_id: oauthConfig.clientId,
+			client_secret: oauthConfig.clientSecret,
+			refresh_token: refreshToken,
+			grant_type: 'refresh_token'
+		})
+	}).catch(e => {
+		recordTokenRefresh('job', false);
+		throw e;
+	});
+
+	if (!response.ok) {
+		recordTokenRefresh('job', false);
+		const errorData = await response.json().catch(() => ({})) as { error?: string };
+		if (errorData.error === 'invalid_grant') {
+			throw new SignInRequiredError('Sign-in expired or was revoked - please sign in again');
+		}
+		throw new Error(`Token refresh failed: ${errorData.error || `HTTP ${response.status}`}`);
+	}
+
+	const tokens = await response.json() as { access_token: string; expires_in: number };
+	recordTokenRefresh('job', true);
+	accessTokens.set(job.id, { token: tokens.access_token, expiresAt: Date.now() + tokens.expires_in * 1000 });
+	return tokens.access_token;
+}
+
+/**
+ * Delete a single comment via the YouTube API
+ */
+async function deleteComment(commentId: string, accessToken: string): Promise<{
+	success: boolean;
+	error?: string;
+	quotaExceeded?: boolean;
+	tokenRejected?: boolean;
+}> {
+	if (simulationConfig.enabled) {
+		await new Promise(resolve => setTimeout(resolve, 50 + Math.random() * 100));
+		return simulateCommentDeletion(commentId);
+	}
+
+	try {
+		const url = new URL(`${YOUTUBE_API_BASE}/comments`);
+		url.searchParams.set('id', commentId);
+
+		const response = await fetch(url.toString(), {
+			method: 'DELETE',
+			headers: {
+				'Authorization': `Bearer ${accessToken}`
+			}
+		});
+
+		if (response.ok || response.status === 204) {
+			return { success: true };
+		}
+
+		let error = `HTTP ${response.status}`;
+		const errorData = await response.json().catch(() => null) as {
+			error?: { message?: string; errors?: Array<{ reason?: string }> };
+		} | null;
+		const reason = errorData?.error?.errors?.[0]?.reason;
+		if (reason === 'quotaExceeded' || reason === 'dailyLimitExceeded') {
+			return { success: false, error: 'Quota exceeded', quotaExceeded: true };
+		} else if (reason === 'commentNotFound' || response.status === 404) {
+			error = 'Comment not found (may already be deleted)';
+		} else if (reason === 'forbidden' || response.status === 403) {
+			error = 'Permission denied - cannot delete this comment';
+		} else if (response.status === 401) {
+			// Says nothing about the comment - the caller refreshes the token and tries again
+			return { success: false, error: 'Access token rejected', tokenRejected: true };
+		} else if (errorData?.error?.message) {
+			error = errorData.error.message;
+		}
+		return { success: false, error };
+	} catch (e) {
+		return { success: false, error: e instanceof Error ? e.message : 'Delete failed' };
+	}
+}
+
+/**
+ * Wait until both the global and the per-user minute limits allow the next chunk
+ */
+async function waitForMinuteQuota(ownerId: string, cost: number): Promise<void> {
+	for (;;) {
+		const minute = new Date().toISOString().slice(0, 16);
+		let usage = ownerMinuteUsage.get(ownerId);
+		if (!usage || usage.minute !== minute) {
+			usage = { minute, used: 0 };
+			ownerMinuteUsage.set(ownerId, usage);
+		}
+		if (hasPerMinuteQuota(cost) && usage.used + cost <= quotaConfig.perUserPerMinuteLimit) {
+			usage.used += cost;
+			return;
+		}
+		// Sleep until the next minute starts
+		await new Promise(resolve => setTimeout(resolve, 60 * 1000 - (Date.now() % (60 * 1000)) + 100));
+	}
+}
+
+/**
+ * Pause a job until it can continue
+ * YouTube rejected the request: wait for the daily reset. Shared quota taken: check again soon,
+ * or as soon as the waiting list asks for when the job is in line for its fair share.
+ */
+function pauseJob(job: DeletionJob, message: string, untilDailyReset: boolean, retryAfterMs = QUOTA_RETRY_MS): void {
+	const untilReset = getTimeUntilPacificMidnight().totalMs + RESET_BUFFER_MS;
+	const delay = untilDailyReset ? untilReset : Math.min(retryAfterMs, untilReset);
+	updateJob(job, { status: 'waiting', resumeAt: Date.now() + delay, message });
+	privacyLogger.info(`Deletion job ${job.id.slice(0, 8)}... waiting ${Math.round(delay / 60000)} min: ${message}`);
+}
+
+// Checked through a function so TypeScript doesn't narrow the status across awaits
+function isCancelled(job: DeletionJob): boolean {
+	return job.status === 'cancelled';
+}
+
+/**
+ * Run a job until it completes, the quota runs out or it is cancelled
+ */
+async function runJob(job: DeletionJob): Promise<void> {
+	activeJobs.add(job.id);
+	const sessionKey = `job:${job.id}`;
+
+	try {
+		updateJob(job, { status: 'running', resumeAt: undefined, message: undefined });
+
+		const session = startDeletionSession(sessionKey, job.pendingIds.length * QUOTA_COSTS.commentsDelete, job.ownerId);
+		if (!session.success) {
+			pauseJob(job, session.message || 'Quota exhausted', false, session.retryAfterMs);
+			return;
+		}
+
+		let batchSize = session.batchSize;
+		let parallel = Math.max(1, session.maxParallelDeletions);
+
+		while (job.pendingIds.length > 0 && !isCancelled(job)) {
+			const batch = job.pendingIds.slice(0, Math.max(1, Math.floor(batchSize / QUOTA_COSTS.commentsDelete)));
+			let successCount = 0;
+			let failedCount = 0;
+			let quotaExceeded = false;
+			let report: ReturnType<typeof reportBatchComplete>;
+
+			// Record the results of a chunk, returns the IDs whose delete was rejected for the access token
+			const recordResults = (ids: string[], results: Awaited<ReturnType<typeof deleteComment>>[]): string[] => {
+				const processed = new Set<string>();
+				const rejected: string[] = [];
+				results.forEach((result, index) => {
+					const id = ids[index];
+					if (result.quotaExceeded || result.tokenRejected) {
+						// Not attempted as far as YouTube is concerned - stays pending
+						if (result.quotaExceeded) quotaExceeded = true;
+						else rejected.push(id);
+						return;
+					}
+					processed.add(id);
+					if (result.success) {
+						job.deletedIds.push(id);
+						successCount++;
+					} else {
+						job.failed.push({ id, error: result.error || 'Delete failed' });
+						failedCount++;
+					}
+				});
+				updateJob(job, { pendingIds: job.pendingIds.filter(id => !processed.has(id)), errorRetries: undefined });
+				return rejected;
+			};
+
+			try {
+				for (let i = 0; i < batch.length && !quotaExceeded && !isCancelled(job); i += parallel) {
+					const chunk = batch.slice(i, i + parallel);
+					await waitForMinuteQuota(job.ownerId, chunk.length * QUOTA_COSTS.commentsDelete);
+					const accessToken = await getAccessToken(job);
+					let rejected = recordResults(chunk, await Promise.all(chunk.map(id => deleteComment(id, accessToken))));
+
+					if (rejected.length > 0 && !quotaExceeded) {
+						// The access token was revoked or expired early - refresh it and retry the rejected deletes
+						accessTokens.delete(job.id);
+						const refreshedToken = await getAccessToken(job);
+						rejected = recordResults(rejected, await Promise.all(rejected.map(id => deleteComment(id, refreshedToken))));
+						if (rejected.length > 0) {
+							accessTokens.delete(job.id);
+							throw new Error('YouTube rejected the refreshed access token');
+						}
+					}
+				}
+			} finally {
+				// Also when the batch is interrupted, so the deletions made so far are charged
+				report = reportBatchComplete(sessionKey, successCount, failedCount);
+			}
+
+			if (isCancelled(job)) break;
+			if (quotaExceeded) {
+				pauseJob(job, 'YouTube quota exceeded - continuing after the daily reset', true);
+				return;
+			}
+			if (job.pendingIds.length === 0) break;
+			if (!report.shouldContinue) {
+				pauseJob(job, report.message || 'Quota exhausted', false, report.retryAfterMs);
+				return;
+			}
+
+			batchSize = report.nextBatchSize;
+			parallel = Math.max(1, report.maxParallelDeletions);
+		}
+
+		if (!isCancelled(job)) {
+			updateJob(job, { status: 'completed', message: undefined });
+			privacyLogger.info(`Deletion job ${job.id.slice(0, 8)}... completed: ${job.deletedIds.length} deleted, ${job.failed.length} failed`);
+		}
+	} catch (e) {
+		const message = e instanceof Error ? e.message : 'Unknown error';
+		if (isCancelled(job)) {
+			return;
+		}
+		if (e instanceof SignInRequiredError) {
+			privacyLogger.error(`Deletion job ${job.id.slice(0, 8)}... failed: ${message}`);
+			updateJob(job, { status: 'failed', message });
+			return;
+		}
+		// Network errors and failed token refreshes usually pass - keep the job and try again later
+		const errorRetries = (job.errorRetries ?? 0) + 1;
+		job.errorRetries = errorRetries;
+		const retryAfterMs = Math.min(ERROR_RETRY_MS * 2 ** (errorRetries - 1), MAX_ERROR_RETRY_MS);
+		pauseJob(job, `${message} - retrying automatically`, false, retryAfterMs);
+	} finally {
+		endDeletionSession(sessionKey);
+		activeJobs.delete(job.id);
+	}
+}
+
+/**
+ * Start all queued jobs and waiting jobs that are due
+ */
+function runDueJobs(): void {
+	if (!deletionJobConfig.enabled) return;
+	const now = Date.now();
+
+	for (const job of jobs.values()) {
+		if (activeJobs.has(job.id)) continue;
+		if (job.status === 'queued' || (job.status === 'waiting' && (job.resumeAt ?? 0) <= now)) {
+			runJob(job);
+		}
+	}
+}
+
+/**
+ * Start the background runner (called once from the server init hook)
+ */
+export function startDeletionJobRunner(): void {
+	if (runnerInterval) return;
+	if (!deletionJobConfig.enabled) {
+		if (deletionJobConfig.requested && !sessionVaultConfig.encryptionKey) {
+			privacyLogger.error('ENABLE_SERVER_DELETION_JOBS requires SESSION_ENCRYPTION_KEY - server-side deletion jobs are disabled');
+		} else if (deletionJobConfig.requested && quotaStorageConfig.backend === 'sqlite') {
+			privacyLogger.error('ENABLE_SERVER_DELETION_JOBS is not supported with QUOTA_STORAGE=sqlite - server-side deletion jobs are disabled');
+		}
+		return;
+	}
+
+	privacyLogger.info('Server-side deletion jobs enabled');
+	pruneFinishedJobs();
+	runDueJobs();
+	runnerInterval = setInterval(() => {
+		pruneFinishedJobs();
+		runDueJobs();
+	}, RUNNER_INTERVAL_MS);
+}
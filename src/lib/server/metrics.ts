@@ -0,0 +1,109 @@
+// Prometheus metrics for operators (/api/metrics)
+// Renders the quota state and counters for sign-ins, token refreshes and RISC events
+// in the Prometheus text exposition format. Counters are kept in memory and start
+// at zero when the server restarts, which Prometheus handles as a counter reset
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { metricsConfig } from './config';
+import { getQuotaStatus, getQuotaSubscriberCount, getActiveDeletionSessionCount } from './quota';
+import { getRiscEventCounts } from './adminMonitor';
+import { getAppVersion } from './appInfo';
+
+export type TokenRefreshSource = 'session' | 'job';
+
+// In-memory counters
+const oauthCallbacks = { success: 0, failure: 0 };
+const tokenRefreshes: Record<TokenRefreshSource, { success: number; failure: number }> = {
+	session: { success: 0, failure: 0 },
+	job: { success: 0, failure: 0 }
+};
+
+/**
+ * Count the outcome of an OAuth callback (sign-in)
+ */
+export function recordOAuthCallback(success: boolean): void {
+	oauthCallbacks[success ? 'success' : 'failure']++;
+}
+
+/**
+ * Count a token refresh - by the browser session or by a server-side deletion job
+ */
+export function recordTokenRefresh(source: TokenRefreshSource, success: boolean): void {
+	tokenRefreshes[source][success ? 'success' : 'failure']++;
+}
+
+/**
+ * Check the Authorization header against METRICS_TOKEN (always allowed without a token)
+ */
+export function isMetricsRequestAllowed(request: Request): boolean {
+	const token = metricsConfig.token;
+	if (!token) return true;
+
+	const header = request.headers.get('authorization') || '';
+	if (!header.startsWith('Bearer ')) return false;
+
+	// Compare hashes so the lengths always match
+	const hash = (value: string) => createHash('sha256').update(value).digest();
+	return timingSafeEqual(hash(header.slice(7)), hash(token));
+}
+
+function escapeLabel(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+	const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+	return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Render all metrics in the Prometheus text format (version 0.0.4)
+ */
+export function renderMetrics(): string {
+	const lines: string[] = [];
+	const metric = (
+		name: string,
+		type: 'gauge' | 'counter',
+		help: string,
+		values: Array<{ labels?: Record<string, string>; value: number }>
+	) => {
+		lines.push(`# HELP ${name} ${help}`);
+		lines.push(`# TYPE ${name} ${type}`);
+		for (const { labels = {}, value } of values) {
+			lines.push(`${name}${formatLabels(labels)} ${value}`);
+		}
+	};
+
+	const status = getQuotaStatus();
+
+	metric('commentslash_info', 'gauge', 'Build information', [
+		{ labels: { version: getAppVersion() }, value: 1 }
+	]);
+	metric('commentslash_quota_used_units', 'gauge', 'YouTube API quota used today', [{ value: status.used }]);
+	metric('commentslash_quota_reserved_units', 'gauge', 'YouTube API quota reserved for pending operations', [{ value: status.reserved }]);
+	metric('commentslash_quota_remaining_units', 'gauge', 'YouTube API quota remaining today', [{ value: status.remaining }]);
+	metric('commentslash_quota_daily_limit_units', 'gauge', 'Daily YouTube API quota limit', [{ value: status.dailyLimit }]);
+	metric('commentslash_quota_per_minute_used_units', 'gauge', 'YouTube API quota used in the current minute', [{ value: status.perMinuteUsed }]);
+	metric('commentslash_users', 'gauge', 'Users by state', [
+		{ labels: { state: 'connected' }, value: status.connectedUsers },
+		{ labels: { state: 'deleting' }, value: status.deletingUsers },
+		{ labels: { state: 'waiting' }, value: status.waitingUsers }
+	]);
+	metric('commentslash_deletion_sessions', 'gauge', 'Active deletion sessions', [{ value: getActiveDeletionSessionCount() }]);
+	metric('commentslash_sse_subscribers', 'gauge', 'Open quota update (SSE) connections', [{ value: getQuotaSubscriberCount() }]);
+	metric('commentslash_oauth_callbacks_total', 'counter', 'OAuth sign-in callbacks by result', [
+		{ labels: { result: 'success' }, value: oauthCallbacks.success },
+		{ labels: { result: 'failure' }, value: oauthCallbacks.failure }
+	]);
+	metric('commentslash_token_refreshes_total', 'counter', 'Google access token refreshes by source and result',
+		(Object.keys(tokenRefreshes) as TokenRefreshSource[]).flatMap(source => [
+			{ labels: { source, result: 'success' }, value: tokenRefreshes[source].success },
+			{ labels: { source, result: 'failure' }, value: tokenRefreshes[source].failure }
+		])
+	);
+	metric('commentslash_risc_events_total', 'counter', 'RISC security events received from Google by type',
+		Object.entries(getRiscEventCounts()).map(([type, value]) => ({ labels: { type }, value }))
+	);
+
+	return lines.join('\n') + '\n';
+}
@@ -0,0 +1,131 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// The ledger persists to DATA_DIR as soon as it's imported
+const dataDir = mkdtempSync(join(tmpdir(), 'quota-'));
+process.env.DATA_DIR = dataDir;
+process.env.YOUTUBE_DAILY_QUOTA_LIMIT = '1000';
+process.env.SMALL_OPERATION_RESERVE_PERCENT = '10';
+process.env.QUOTA_RESERVATION_CHUNK_SIZE = '500';
+vi.mock('$env/dynamic/private', () => ({ env: process.env }));
+const quota = await import('./quota');
+
+afterAll(() => {
+	rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('chargeQuota and refundQuota', () => {
+	it('charges a call before it is made and refunds it when it never reached YouTube', () => {
+		expect(quota.chargeQuota(50, 'user-c', 'session-c')).toEqual({ success: true });
+		expect(quota.getQuotaStatus().used).toBe(50);
+		expect(quota.getUserQuotaStatus('user-c').used).toBe(50);
+
+		quota.refundQuota(50, 'user-c', 'session-c');
+		expect(quota.getQuotaStatus().used).toBe(0);
+		expect(quota.getUserQuotaStatus('user-c').used).toBe(0);
+	});
+
+	it('rejects a call over the daily limit without charging it', () => {
+		// Outside the small operation reserve only 900 are available
+		expect(quota.chargeQuota(950, 'user-c')).toMatchObject({ success: false, exceededLimit: 'daily' });
+		expect(quota.getQuotaStatus().used).toBe(0);
+	});
+});
+
+describe('chargeQuota with reservations', () => {
+	it('grants a batch from the pool outside the small operation reserve', () => {
+		const session = quota.startDeletionSession('session-a', 5000, 'user-a');
+		expect(session).toMatchObject({ success: true, batchSize: 500 });
+		expect(quota.getQuotaStatus()).toMatchObject({ used: 0, reserved: 500, smallOperationReserve: 100 });
+	});
+
+	it('keeps deletes of other users out of the batch and the reserve', () => {
+		// 1000 - 500 reserved for user-a - 100 small operation reserve = 400, so 8 deletes of 50
+		for (let i = 0; i < 8; i++) {
+			expect(quota.chargeQuota(50, 'user-b', 'session-b')).toEqual({ success: true });
+		}
+		expect(quota.chargeQuota(50, 'user-b', 'session-b')).toMatchObject({ success: false, exceededLimit: 'daily' });
+		expect(quota.getQuotaStatus().used).toBe(400);
+	});
+
+	it('lets small operations use the reserve but not the batch', () => {
+		expect(quota.chargeQuota(100, 'user-b', undefined, true)).toEqual({ success: true });
+		expect(quota.chargeQuota(1, 'user-b', undefined, true)).toMatchObject({ success: false, exceededLimit: 'daily' });
+	});
+
+	it('charges deletes within the granted batch', () => {
+		for (let i = 0; i < 10; i++) {
+			expect(quota.chargeQuota(50, 'user-a', 'session-a')).toEqual({ success: true });
+		}
+		// The batch is used up, nothing is left outside it
+		expect(quota.chargeQuota(50, 'user-a', 'session-a')).toMatchObject({ success: false, exceededLimit: 'daily' });
+		expect(quota.getQuotaStatus()).toMatchObject({ used: 1000, reserved: 0, remaining: 0 });
+	});
+});
+
+describe('fair share of the deletion pool', () => {
+	beforeAll(() => {
+		// The reservation tests above used up the daily limit and left session-a open
+		quota.endDeletionSession('session-a');
+	});
+
+	afterEach(() => {
+		quota.setDailyLimitOverride(null);
+		delete process.env.PER_USER_DAILY_QUOTA_LIMIT;
+		delete process.env.QUOTA_USER_WEIGHTS;
+	});
+
+	it('splits the pool between users by weight', () => {
+		process.env.QUOTA_USER_WEIGHTS = 'heavy=2';
+		// 2100 - 1000 used - 210 small operation reserve = 890 for deletions
+		quota.setDailyLimitOverride(2100);
+
+		expect(quota.startDeletionSession('session-light', 5000, 'light')).toMatchObject({ success: true, batchSize: 500 });
+		// Two thirds of the remaining 390, in whole deletions
+		expect(quota.startDeletionSession('session-heavy', 5000, 'heavy')).toMatchObject({ success: true, batchSize: 250 });
+
+		quota.endDeletionSession('session-light');
+		quota.endDeletionSession('session-heavy');
+	});
+
+	it('queues users while the pool is taken and serves them in order', () => {
+		// 1700 - 1000 used - 170 small operation reserve = 530 for deletions
+		quota.setDailyLimitOverride(1700);
+		expect(quota.startDeletionSession('session-first', 5000, 'first')).toMatchObject({ success: true, batchSize: 500 });
+
+		expect(quota.startDeletionSession('session-second', 5000, 'second')).toMatchObject({ success: false, queued: true, queuePosition: 1 });
+		expect(quota.startDeletionSession('session-third', 5000, 'third')).toMatchObject({ success: false, queued: true, queuePosition: 2 });
+		expect(quota.getUserQuotaStatus('third').queuePosition).toBe(2);
+
+		// Once the pool frees up, whoever waited longest goes first and the rest keep their place
+		quota.endDeletionSession('session-first');
+		expect(quota.startDeletionSession('session-third', 5000, 'third')).toMatchObject({ success: false, queued: true, queuePosition: 2 });
+		expect(quota.startDeletionSession('session-second', 5000, 'second')).toMatchObject({ success: true, batchSize: 250 });
+		expect(quota.startDeletionSession('session-third', 5000, 'third')).toMatchObject({ success: true, batchSize: 100 });
+		expect(quota.getUserQuotaStatus('third').queuePosition).toBeNull();
+
+		quota.endDeletionSession('session-second');
+		quota.endDeletionSession('session-third');
+	});
+
+	it('stops users at their weighted daily budget', () => {
+		process.env.PER_USER_DAILY_QUOTA_LIMIT = '100';
+		process.env.QUOTA_USER_WEIGHTS = 'vip=2';
+		quota.setDailyLimitOverride(3000);
+
+		expect(quota.chargeQuota(100, 'capped', undefined, true)).toEqual({ success: true });
+		expect(quota.chargeQuota(1, 'capped', undefined, true)).toMatchObject({ success: false, exceededLimit: 'user' });
+		expect(quota.startDeletionSession('session-capped', 5000, 'capped')).toMatchObject({
+			success: false,
+			message: 'Your daily quota budget is used up'
+		});
+
+		expect(quota.startDeletionSession('session-vip', 5000, 'vip')).toMatchObject({ success: true, batchSize: 200 });
+		// The granted batch counts against the budget until it's reported
+		expect(quota.getUserQuotaStatus('vip')).toMatchObject({ used: 0, limit: 200, remaining: 0, weight: 2 });
+
+		quota.endDeletionSession('session-vip');
+	});
+});
@@ -1,12 +1,13 @@
 // Server-side quota tracking for multi-user scenarios
 // Tracks all API usage across all users when using developer OAuth mode
-// Persists quota data to disk to survive restarts
+// Persists the quota ledger (see quotaStorage.ts) to survive restarts
 // Supports real-time broadcasting via Server-Sent Events (SSE)
 
 import { privacyLogger } from './config';
+import { recordDailyUsage, recordDeletions } from './quotaHistory';
+import { quotaStorage } from './quotaStorage';
 import { env } from '$env/dynamic/private';
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
-import { join, dirname } from 'path';
+import type { QuotaDetails } from '$lib/types/admin';
 
 /**
  * YouTube API quota costs
@@ -14,17 +15,29 @@ import { join, dirname } from 'path';
  */
 export const QUOTA_COSTS = {
 	commentsList: 1,      // comments.list
+	commentThreadsList: 1, // commentThreads.list
+	channelsList: 1,      // channels.list
+	videosList: 1,        // videos.list (per request, up to 50 videos)
 	commentsDelete: 50,   // comments.delete
+	commentsUpdate: 50,   // comments.update
 	videosListPerItem: 1, // videos.list (per video)
 	search: 100           // search.list (if ever used)
 } as const;
 
+// Daily limit set at runtime from the admin dashboard (persisted, wins over the env value)
+let dailyLimitOverride: number | null = null;
+
 /**
  * Quota configuration from environment variables
  */
 export const quotaConfig = {
 	/** Daily quota limit (default YouTube API quota) */
 	get dailyLimit(): number {
+		if (dailyLimitOverride !== null) return dailyLimitOverride;
+		return this.configuredDailyLimit;
+	},
+	/** Daily quota limit from the environment, ignoring the runtime override */
+	get configuredDailyLimit(): number {
 		const value = parseInt(env.YOUTUBE_DAILY_QUOTA_LIMIT || '10000', 10);
 		return isNaN(value) ? 10000 : value;
 	},
@@ -52,15 +65,31 @@ export const quotaConfig = {
 	get smallOperationReservePercent(): number {
 		const value = parseInt(env.SMALL_OPERATION_RESERVE_PERCENT || '5', 10);
 		return isNaN(value) || value < 0 || value > 50 ? 5 : value;
+	},
+	/** Daily quota budget per user, multiplied by the user's weight (0 = no fixed budget, fair share only) */
+	get perUserDailyLimit(): number {
+		const value = parseInt(env.PER_USER_DAILY_QUOTA_LIMIT || '0', 10);
+		return isNaN(value) || value < 0 ? 0 : value;
+	},
+	/** Weights of individual users ("user-key=weight,..."), everyone else has weight 1 */
+	get userWeights(): Record<string, number> {
+		const weights: Record<string, number> = {};
+		for (const entry of (env.QUOTA_USER_WEIGHTS || '').split(',')) {
+			const [key, value] = entry.split('=').map(part => part.trim());
+			const weight = parseFloat(value);
+			if (key && !isNaN(weight) && weight > 0) {
+				weights[key] = weight;
+			}
+		}
+		return weights;
 	}
 };
 
-/**
- * Data directory for persistent storage
- * Uses DATA_DIR environment variable or falls back to ./data
- */
-const DATA_DIR = process.env.DATA_DIR || './data';
-const QUOTA_FILE = join(DATA_DIR, 'quota.json');
+// Deletion sessions without activity for this long are abandoned
+const STALE_SESSION_MS = 5 * 60 * 1000;
+// How often waiting users should ask again, entries expire after a few missed attempts
+const WAITING_RETRY_MS = 30 * 1000;
+const WAITING_ENTRY_TTL_MS = 4 * WAITING_RETRY_MS;
 
 /**
  * Deletion session tracking - manages batch-based deletion workflow
@@ -71,13 +100,16 @@ const QUOTA_FILE = join(DATA_DIR, 'quota.json');
  * - Whether the session is waiting for batch completion
  */
 interface DeletionSession {
+	id: string;                // Public ID for the admin dashboard (the session ID is a cookie value)
 	sessionId: string;
+	userKey: string;           // User the session's quota is budgeted to
 	totalPlanned: number;      // Total quota the user wants to use
 	totalConfirmed: number;    // Total quota actually confirmed used
 	currentBatchSize: number;  // Size of current batch being processed
 	currentBatchUsed: number;  // How much of current batch has been used
 	maxParallelDeletions: number; // Max parallel deletions for this session
 	isWaitingForBatch: boolean; // True while client is processing a batch
+	proxiedBatchUsed: number;  // Quota already charged for current batch deletes via the YouTube proxy
 	createdAt: number;         // Session creation time
 	lastActivity: number;      // Last activity time (for cleanup)
 }
@@ -103,6 +135,16 @@ interface MinuteUsage {
 	usersActive: number;   // Number of users making requests
 }
 
+/**
+ * User waiting for a fair share of a contended deletion pool
+ */
+interface WaitingUser {
+	sessionId: string;
+	userKey: string;
+	queuedAt: number;
+	lastSeen: number;      // Last start attempt (entries of users that stopped asking expire)
+}
+
 /**
  * Connected user tracking
  */
@@ -120,13 +162,17 @@ interface QuotaUsage {
 	totalUsed: number;    // Total quota used today (actually consumed)
 	totalReserved: number; // Total quota reserved (pending operations)
 	lastReset: number;    // Timestamp of last reset
+	perUser: Record<string, number>; // Quota used today per user key
 }
 
-// In-memory state
-let quotaUsage: QuotaUsage = loadQuotaFromDisk();
+// In-memory state (the ledger part of quotaUsage is mirrored in the quota storage)
+let quotaUsage: QuotaUsage = loadQuotaUsage();
+// Per process, even with shared storage: the per-minute usage, reservations, deletion sessions,
+// connected users and the waiting list only cover the requests this process handles
 const reservations = new Map<string, QuotaReservation>();
 const deletionSessions = new Map<string, DeletionSession>();
 const connectedUsers = new Map<string, ConnectedUser>();
+const waitingList: WaitingUser[] = [];
 let currentMinuteUsage: MinuteUsage = { minute: getCurrentMinute(), used: 0, usersActive: 0 };
 
 // SSE subscribers for real-time updates
@@ -145,6 +191,7 @@ export interface QuotaStatusUpdate {
 	perMinuteLimit: number;
 	connectedUsers: number;
 	deletingUsers: number;
+	waitingUsers: number;  // Users queued for a fair share of the deletion pool
 	maxParallelDeletions: number;
 	percentUsed: number;
 	smallOperationReserve: number; // Quota reserved for small operations (login, enrichment)
@@ -172,21 +219,20 @@ function getCurrentMinute(): string {
 }
 
 /**
- * Load quota data from disk
+ * Load the quota ledger from storage
  */
-function loadQuotaFromDisk(): QuotaUsage {
-	try {
-		if (existsSync(QUOTA_FILE)) {
-			const data = readFileSync(QUOTA_FILE, 'utf-8');
-			const loaded = JSON.parse(data) as QuotaUsage;
-			privacyLogger.info(`Loaded quota from disk: ${loaded.totalUsed}/${quotaConfig.dailyLimit} used on ${loaded.date}`);
-			return {
-				...loaded,
-				totalReserved: 0  // Reservations don't persist across restarts
-			};
-		}
-	} catch (e) {
-		privacyLogger.error(`Failed to load quota from disk: ${e instanceof Error ? e.message : 'Unknown error'}`);
+function loadQuotaUsage(): QuotaUsage {
+	const loaded = quotaStorage.read();
+	if (loaded) {
+		dailyLimitOverride = loaded.dailyLimitOverride ?? null;
+		privacyLogger.info(`Loaded quota from ${quotaStorage.backend} storage: ${loaded.totalUsed}/${quotaConfig.dailyLimit} used on ${loaded.date}`);
+		return {
+			date: loaded.date,
+			totalUsed: loaded.totalUsed,
+			lastReset: loaded.lastReset,
+			perUser: loaded.perUser || {},
+			totalReserved: 0  // Reservations don't persist across restarts
+		};
 	}
 	
 	// Return default quota
@@ -194,50 +240,94 @@ function loadQuotaFromDisk(): QuotaUsage {
 		date: getPacificDateKey(),
 		totalUsed: 0,
 		totalReserved: 0,
-		lastReset: Date.now()
+		lastReset: Date.now(),
+		perUser: {}
 	};
 }
 
 /**
- * Save quota data to disk
+ * Save the quota ledger to storage
  */
-function saveQuotaToDisk(): void {
-	try {
-		// Ensure data directory exists
-		const dir = dirname(QUOTA_FILE);
-		if (!existsSync(dir)) {
-			mkdirSync(dir, { recursive: true });
-		}
-		
-		// Save only persistent data (not reservations)
-		const toSave = {
-			date: quotaUsage.date,
-			totalUsed: quotaUsage.totalUsed,
-			lastReset: quotaUsage.lastReset
-		};
-		
-		writeFileSync(QUOTA_FILE, JSON.stringify(toSave, null, 2), 'utf-8');
-	} catch (e) {
-		privacyLogger.error(`Failed to save quota to disk: ${e instanceof Error ? e.message : 'Unknown error'}`);
-	}
+function saveQuotaUsage(): void {
+	// Save only persistent data (not reservations)
+	quotaStorage.write({
+		date: quotaUsage.date,
+		totalUsed: quotaUsage.totalUsed,
+		lastReset: quotaUsage.lastReset,
+		perUser: quotaUsage.perUser,
+		dailyLimitOverride
+	});
+	
+	// Keep today's totals in the rolling quota history
+	recordDailyUsage(quotaUsage.date, quotaUsage.totalUsed, quotaConfig.dailyLimit, currentMinuteUsage.used);
+}
+
+/**
+ * Pick up changes other processes made to a shared ledger
+ * Reservations are per process and stay as they are
+ */
+function refreshQuotaUsage(): void {
+	if (!quotaStorage.shared) return;
+	
+	const stored = quotaStorage.read();
+	if (!stored) return;
+	dailyLimitOverride = stored.dailyLimitOverride ?? null;
+	quotaUsage = {
+		date: stored.date,
+		totalUsed: stored.totalUsed,
+		lastReset: stored.lastReset,
+		perUser: stored.perUser || {},
+		totalReserved: quotaUsage.totalReserved
+	};
+}
+
+/**
+ * Change the quota ledger in one atomic step and save it
+ * With shared storage the ledger is read again first, so no other process's usage is lost
+ */
+function updateQuotaUsage<T>(change: () => T): T {
+	return quotaStorage.transaction(() => {
+		refreshQuotaUsage();
+		const result = change();
+		saveQuotaUsage();
+		return result;
+	});
 }
 
 /**
  * Reset quota if it's a new day (Pacific Time)
+ * With shared storage another process may have reset it already
  */
 function checkDayReset(): void {
 	const today = getPacificDateKey();
+	const previousDate = quotaUsage.date;
+	refreshQuotaUsage();
+	
 	if (quotaUsage.date !== today) {
+		quotaStorage.transaction(() => {
+			refreshQuotaUsage();
+			if (quotaUsage.date === today) return;
+			
+			// Close the finished day in the history (it may have been loaded from an older ledger)
+			recordDailyUsage(quotaUsage.date, quotaUsage.totalUsed, quotaConfig.dailyLimit, 0);
+			quotaUsage = {
+				date: today,
+				totalUsed: 0,
+				totalReserved: 0,
+				lastReset: Date.now(),
+				perUser: {}
+			};
+			currentMinuteUsage = { minute: getCurrentMinute(), used: 0, usersActive: 0 };
+			saveQuotaUsage();
+		});
+	}
+	
+	if (quotaUsage.date !== previousDate) {
 		privacyLogger.info(`Quota reset for new day (Pacific Time): ${today}`);
-		quotaUsage = {
-			date: today,
-			totalUsed: 0,
-			totalReserved: 0,
-			lastReset: Date.now()
-		};
 		// Clear all reservations on day change
+		quotaUsage.totalReserved = 0;
 		reservations.clear();
-		saveQuotaToDisk();
+		currentMinuteUsage = { minute: getCurrentMinute(), used: 0, usersActive: 0 };
 		broadcastQuotaUpdate();
 	}
 }
@@ -454,13 +544,13 @@ export function confirmQuotaUsage(sessionId: string, actualUsed: number): number
 		reservation.used += confirmed;
 		
 		// Move from reserved to used in global tracking
-		quotaUsage.totalReserved = Math.max(0, quotaUsage.totalReserved - confirmed);
-		quotaUsage.totalUsed += confirmed;
-		
-		// Track per-minute usage
-		currentMinuteUsage.used += confirmed;
+		updateQuotaUsage(() => {
+			quotaUsage.totalReserved = Math.max(0, quotaUsage.totalReserved - confirmed);
+			quotaUsage.totalUsed += confirmed;
+			// Track per-minute usage
+			currentMinuteUsage.used += confirmed;
+		});
 		
-		saveQuotaToDisk();
 		broadcastQuotaUpdate();
 		
 		privacyLogger.info(`Confirmed ${confirmed} quota usage (total used: ${quotaUsage.totalUsed}/${quotaConfig.dailyLimit})`);
@@ -500,16 +590,20 @@ export function releaseReservation(sessionId: string): void {
 /**
  * Add quota usage (legacy function for backward compatibility)
  */
-export function addQuotaUsage(cost: number): void {
+export function addQuotaUsage(cost: number, userKey?: string): void {
 	checkDayReset();
 	checkMinuteReset();
 	
-	quotaUsage.totalUsed += cost;
-	currentMinuteUsage.used += cost;
+	updateQuotaUsage(() => {
+		quotaUsage.totalUsed += cost;
+		currentMinuteUsage.used += cost;
+		if (userKey) {
+			recordUserUsage(userKey, cost);
+		}
+	});
 	
 	privacyLogger.info(`Quota used: +${cost} (total: ${quotaUsage.totalUsed}/${quotaConfig.dailyLimit})`);
 	
-	saveQuotaToDisk();
 	broadcastQuotaUpdate();
 }
 
@@ -548,6 +642,7 @@ export function getQuotaStatus(): QuotaStatusUpdate {
 		perMinuteLimit,
 		connectedUsers: connectedUsers.size,
 		deletingUsers,
+		waitingUsers: waitingList.length,
 		maxParallelDeletions: quotaConfig.maxParallelDeletions,
 		percentUsed: Math.round((effectiveUsed / dailyLimit) * 100),
 		smallOperationReserve,
@@ -558,14 +653,16 @@ export function getQuotaStatus(): QuotaStatusUpdate {
 }
 
 /**
- * Calculate total quota reserved by all active deletion sessions
+ * Calculate total quota reserved by all active deletion sessions (optionally except one)
  */
-function calculateTotalSessionReserved(): number {
+function calculateTotalSessionReserved(excludeSessionId?: string): number {
 	let total = 0;
 	const now = Date.now();
 	const maxInactivityMs = 5 * 60 * 1000; // 5 minutes max inactivity
 	
-	for (const session of deletionSessions.values()) {
+	for (const [sessionId, session] of deletionSessions) {
+		if (sessionId === excludeSessionId) continue;
+
 		// Only count sessions that are actively waiting for a batch to complete
 		// Skip sessions that are too old (might be abandoned)
 		if (!session.isWaitingForBatch || (now - session.lastActivity > maxInactivityMs)) {
@@ -621,6 +718,212 @@ export function hasPerMinuteQuota(cost: number): boolean {
 	return (currentMinuteUsage.used + cost) <= quotaConfig.perMinuteLimit;
 }
 
+/**
+ * Charge a YouTube API call made through the server proxy
+ * Checking and charging happen in one synchronous step, so concurrent requests can't overdraw the quota
+ * Pass the caller's session ID for deletes, so they count towards its deletion session's current batch
+ * Calls outside a granted batch can't take quota reserved for other sessions' batches, and only
+ * small operations (reads) may use the small operation reserve
+ */
+export function chargeQuota(cost: number, userKey: string, deletionSessionId?: string, smallOperation = false): {
+	success: boolean;
+	exceededLimit?: 'daily' | 'perMinute' | 'user';
+	message?: string;
+} {
+	checkDayReset();
+	checkMinuteReset();
+	
+	// Deletes within a granted batch were already checked against the user's budget
+	const session = deletionSessionId ? deletionSessions.get(deletionSessionId) : undefined;
+	const withinBatch = !!session && session.isWaitingForBatch && session.currentBatchUsed + cost <= session.currentBatchSize;
+	
+	// Check against the latest ledger and charge before another process can
+	const rejection = quotaStorage.transaction(() => {
+		refreshQuotaUsage();
+		
+		if (!withinBatch && getUserBudgetRemaining(userKey) < cost) {
+			return { success: false, exceededLimit: 'user' as const, message: 'Daily per-user quota budget used up' };
+		}
+		if (!hasEnoughQuota(cost) || (!withinBatch && getUnreservedQuota(deletionSessionId, smallOperation) < cost)) {
+			return { success: false, exceededLimit: 'daily' as const, message: 'Daily quota limit would be exceeded' };
+		}
+		if (!hasPerMinuteQuota(cost)) {
+			return { success: false, exceededLimit: 'perMinute' as const, message: 'Per-minute quota limit reached' };
+		}
+		
+		quotaUsage.totalUsed += cost;
+		currentMinuteUsage.used += cost;
+		recordUserUsage(userKey, cost);
+		saveQuotaUsage();
+		return null;
+	});
+	if (rejection) return rejection;
+	
+	if (session) {
+		session.currentBatchUsed += cost;
+		session.totalConfirmed += cost;
+		session.proxiedBatchUsed += cost;
+		session.lastActivity = Date.now();
+	}
+	
+	broadcastQuotaUpdate();
+	return { success: true };
+}
+
+/**
+ * Quota that is neither used nor reserved for another deletion session's batch
+ * Leaves the small operation reserve out unless the caller is a small operation itself
+ */
+function getUnreservedQuota(ownSessionId: string | undefined, smallOperation: boolean): number {
+	const smallOpReserve = smallOperation ? 0 : Math.floor(quotaConfig.dailyLimit * (quotaConfig.smallOperationReservePercent / 100));
+	const reserved = quotaUsage.totalReserved + calculateTotalSessionReserved(ownSessionId);
+	return quotaConfig.dailyLimit - quotaUsage.totalUsed - reserved - smallOpReserve;
+}
+
+/**
+ * Give back quota charged by chargeQuota for a call that never reached YouTube
+ */
+export function refundQuota(cost: number, userKey: string, deletionSessionId?: string): void {
+	checkDayReset();
+	updateQuotaUsage(() => {
+		quotaUsage.totalUsed = Math.max(0, quotaUsage.totalUsed - cost);
+		recordUserUsage(userKey, -cost);
+	});
+	currentMinuteUsage.used = Math.max(0, currentMinuteUsage.used - cost);
+	
+	const session = deletionSessionId ? deletionSessions.get(deletionSessionId) : undefined;
+	if (session && session.proxiedBatchUsed >= cost) {
+		session.currentBatchUsed -= cost;
+		session.totalConfirmed -= cost;
+		session.proxiedBatchUsed -= cost;
+	}
+	
+	broadcastQuotaUpdate();
+}
+
+/**
+ * Add (or with a negative cost, give back) quota used by a user today
+ */
+function recordUserUsage(userKey: string, cost: number): void {
+	quotaUsage.perUser[userKey] = Math.max(0, (quotaUsage.perUser[userKey] || 0) + cost);
+}
+
+function getUserWeight(userKey: string): number {
+	return quotaConfig.userWeights[userKey] ?? 1;
+}
+
+/**
+ * Quota a user can still use today: their weighted daily budget minus usage and open batch reservations
+ * Unlimited when no per-user budget is configured
+ */
+function getUserBudgetRemaining(userKey: string): number {
+	const limit = quotaConfig.perUserDailyLimit;
+	if (limit <= 0) return Infinity;
+	
+	let reserved = 0;
+	for (const session of deletionSessions.values()) {
+		if (session.userKey === userKey && session.isWaitingForBatch) {
+			reserved += Math.max(0, session.currentBatchSize - session.currentBatchUsed);
+		}
+	}
+	const budget = Math.floor(limit * getUserWeight(userKey));
+	return Math.max(0, budget - (quotaUsage.perUser[userKey] || 0) - reserved);
+}
+
+/**
+ * Get a user's budget status (limit and remaining are null without a per-user budget)
+ */
+export function getUserQuotaStatus(userKey: string): {
+	used: number;
+	limit: number | null;
+	remaining: number | null;
+	weight: number;
+	queuePosition: number | null;
+} {
+	checkDayReset();
+	const limit = quotaConfig.perUserDailyLimit;
+	const queueIndex = waitingList.findIndex(w => w.userKey === userKey);
+	return {
+		used: quotaUsage.perUser[userKey] || 0,
+		limit: limit > 0 ? Math.floor(limit * getUserWeight(userKey)) : null,
+		remaining: limit > 0 ? getUserBudgetRemaining(userKey) : null,
+		weight: getUserWeight(userKey),
+		queuePosition: queueIndex === -1 ? null : queueIndex + 1
+	};
+}
+
+/**
+ * Calculate the next batch for a user as their weighted fair share of the deletion pool
+ * The pool is split between everyone deleting or waiting to delete, instead of going to whoever asks first
+ * Whoever is first in line gets at least one deletion while the pool lasts, so small shares can't stall everyone
+ */
+function calculateFairShareBatch(userKey: string, remainingPlanned: number, firstInLine: boolean): {
+	batchSize: number;
+	limitedBy?: 'pool' | 'budget' | 'share';
+} {
+	const dailyLimit = quotaConfig.dailyLimit;
+	const smallOpReserve = Math.floor(dailyLimit * (quotaConfig.smallOperationReservePercent / 100));
+	const unreserved = dailyLimit - quotaUsage.totalUsed - quotaUsage.totalReserved - smallOpReserve;
+	// Batches of other sessions are taken until they report back
+	const availableForDeletion = Math.max(0, unreserved - calculateTotalSessionReserved());
+	
+	const now = Date.now();
+	const contenders = new Set([userKey, ...waitingList.map(w => w.userKey)]);
+	for (const session of deletionSessions.values()) {
+		if (now - session.lastActivity <= STALE_SESSION_MS) {
+			contenders.add(session.userKey);
+		}
+	}
+	const totalWeight = [...contenders].reduce((sum, key) => sum + getUserWeight(key), 0);
+	const share = Math.floor(availableForDeletion * getUserWeight(userKey) / totalWeight);
+	const budgetRemaining = getUserBudgetRemaining(userKey);
+	
+	// Batches cover whole deletions only
+	const size = Math.min(quotaConfig.reservationChunkSize, remainingPlanned, share, budgetRemaining);
+	const batchSize = Math.floor(size / QUOTA_COSTS.commentsDelete) * QUOTA_COSTS.commentsDelete;
+	
+	if (batchSize > 0) return { batchSize };
+	if (unreserved < QUOTA_COSTS.commentsDelete) return { batchSize: 0, limitedBy: 'pool' };
+	if (budgetRemaining < QUOTA_COSTS.commentsDelete) return { batchSize: 0, limitedBy: 'budget' };
+	if (firstInLine && availableForDeletion >= QUOTA_COSTS.commentsDelete && remainingPlanned >= QUOTA_COSTS.commentsDelete) {
+		return { batchSize: QUOTA_COSTS.commentsDelete };
+	}
+	return { batchSize: 0, limitedBy: 'share' };
+}
+
+/**
+ * Put a session on the waiting list (or refresh its entry)
+ * Returns its 1-based position
+ */
+function enqueueWaitingUser(sessionId: string, userKey: string): number {
+	const now = Date.now();
+	const existing = waitingList.find(w => w.sessionId === sessionId);
+	if (existing) {
+		existing.lastSeen = now;
+	} else {
+		waitingList.push({ sessionId, userKey, queuedAt: now, lastSeen: now });
+		privacyLogger.info(`Deletion pool contended: ${sessionId.slice(0, 8)}... queued at position ${waitingList.length}`);
+	}
+	return waitingList.findIndex(w => w.sessionId === sessionId) + 1;
+}
+
+function removeWaitingUser(sessionId: string): void {
+	const index = waitingList.findIndex(w => w.sessionId === sessionId);
+	if (index !== -1) waitingList.splice(index, 1);
+}
+
+/**
+ * Drop waiting list entries of users that stopped asking
+ */
+function cleanupWaitingList(): void {
+	const now = Date.now();
+	for (let i = waitingList.length - 1; i >= 0; i--) {
+		if (now - waitingList[i].lastSeen > WAITING_ENTRY_TTL_MS) {
+			waitingList.splice(i, 1);
+		}
+	}
+}
+
 /**
  * Calculate how many parallel deletions a user can make based on current load
  */
@@ -642,7 +945,7 @@ export function calculateParallelDeletions(sessionId: string): number {
  * Estimate quota cost for a batch operation
  */
 export function estimateBatchCost(
-	operation: 'enrich' | 'delete',
+	operation: 'enrich' | 'delete' | 'edit',
 	itemCount: number
 ): number {
 	switch (operation) {
@@ -651,6 +954,8 @@ export function estimateBatchCost(
 			return Math.ceil(itemCount / 50) * QUOTA_COSTS.commentsList;
 		case 'delete':
 			return itemCount * QUOTA_COSTS.commentsDelete;
+		case 'edit':
+			return itemCount * QUOTA_COSTS.commentsUpdate;
 		default:
 			return 0;
 	}
@@ -660,14 +965,18 @@ export function estimateBatchCost(
  * Start a new deletion session
  * Returns the first batch size and max parallel deletions allowed
  */
-export function startDeletionSession(sessionId: string, totalPlanned: number): {
+export function startDeletionSession(sessionId: string, totalPlanned: number, userKey: string): {
 	success: boolean;
 	batchSize: number;
 	maxParallelDeletions: number;
+	queued?: boolean;          // Waiting for a fair share of the pool, try again after retryAfterMs
+	queuePosition?: number;
+	retryAfterMs?: number;
 	message?: string;
 } {
 	checkDayReset();
 	cleanupStaleDeletionSessions();
+	cleanupWaitingList();
 	
 	// Check if user already has an active session
 	if (deletionSessions.has(sessionId)) {
@@ -675,48 +984,53 @@ export function startDeletionSession(sessionId: string, totalPlanned: number): {
 		endDeletionSession(sessionId);
 	}
 	
-	const dailyLimit = quotaConfig.dailyLimit;
-	const chunkSize = quotaConfig.reservationChunkSize;
-	const smallOpReserve = Math.floor(dailyLimit * (quotaConfig.smallOperationReservePercent / 100));
-	
-	// Calculate available quota for deletion (accounting for the 5% reserve for small ops)
-	const sessionReserved = calculateTotalSessionReserved();
-	const effectiveUsed = quotaUsage.totalUsed + quotaUsage.totalReserved + sessionReserved;
-	const availableForDeletion = Math.max(0, dailyLimit - effectiveUsed - smallOpReserve);
+	// Users already waiting go first, new users line up behind them
+	const queueIndex = waitingList.findIndex(w => w.sessionId === sessionId);
+	const waitingAhead = queueIndex === -1 ? waitingList.length : queueIndex;
+	const { batchSize: firstBatchSize, limitedBy } = calculateFairShareBatch(userKey, totalPlanned, waitingAhead === 0);
 	
-	if (availableForDeletion <= 0) {
+	if (limitedBy === 'pool' || limitedBy === 'budget') {
+		removeWaitingUser(sessionId);
 		return {
 			success: false,
 			batchSize: 0,
 			maxParallelDeletions: 0,
-			message: 'Daily quota exhausted (reserve maintained for small operations)'
+			message: limitedBy === 'pool'
+				? 'Daily quota exhausted (reserve maintained for small operations)'
+				: 'Your daily quota budget is used up'
 		};
 	}
 	
-	// Calculate the first batch size - limited by chunkSize and available quota
-	const firstBatchSize = Math.min(chunkSize, availableForDeletion, totalPlanned);
-	
-	if (firstBatchSize <= 0) {
+	if (limitedBy === 'share' || waitingAhead > 0) {
+		const queuePosition = enqueueWaitingUser(sessionId, userKey);
+		broadcastQuotaUpdate();
 		return {
 			success: false,
 			batchSize: 0,
 			maxParallelDeletions: 0,
-			message: 'Not enough quota available'
+			queued: true,
+			queuePosition,
+			retryAfterMs: WAITING_RETRY_MS,
+			message: `The shared quota is busy - you are #${queuePosition} in line`
 		};
 	}
+	removeWaitingUser(sessionId);
 	
 	// Calculate parallel deletions based on current load
 	const maxParallel = calculateParallelDeletions(sessionId);
 	
 	// Create the session
 	const session: DeletionSession = {
+		id: crypto.randomUUID(),
 		sessionId,
+		userKey,
 		totalPlanned,
 		totalConfirmed: 0,
 		currentBatchSize: firstBatchSize,
 		currentBatchUsed: 0,
 		maxParallelDeletions: maxParallel,
 		isWaitingForBatch: true,
+		proxiedBatchUsed: 0,
 		createdAt: Date.now(),
 		lastActivity: Date.now()
 	};
@@ -726,7 +1040,7 @@ export function startDeletionSession(sessionId: string, totalPlanned: number): {
 	// Mark user as deleting
 	updateUserActivity(sessionId, true);
 	
-	privacyLogger.info(`Started deletion session for ${sessionId.slice(0, 8)}...: ${totalPlanned} total planned, ${firstBatchSize} first batch, ${maxParallel} parallel`);
+	privacyLogger.info(`Started deletion session for ${sessionId.slice(0, 8)}... (${userKey}): ${totalPlanned} total planned, ${firstBatchSize} first batch, ${maxParallel} parallel`);
 	
 	broadcastQuotaUpdate();
 	
@@ -748,6 +1062,7 @@ export function reportBatchComplete(sessionId: string, successCount: number, fai
 	nextBatchSize: number;
 	maxParallelDeletions: number;
 	shouldContinue: boolean;
+	retryAfterMs?: number;     // Set when the session gave way to waiting users, start a new one after this
 	message?: string;
 } {
 	checkDayReset();
@@ -767,20 +1082,26 @@ export function reportBatchComplete(sessionId: string, successCount: number, fai
 	}
 	
 	// Calculate actual quota used (only successful deletions cost quota)
-	const batchQuotaUsed = successCount * QUOTA_COSTS.commentsDelete;
+	// Deletes made through the YouTube proxy were already charged, only charge what the report adds
+	const reportedQuotaUsed = successCount * QUOTA_COSTS.commentsDelete;
+	const unchargedQuotaUsed = Math.max(0, reportedQuotaUsed - session.proxiedBatchUsed);
+	const batchQuotaUsed = session.proxiedBatchUsed + unchargedQuotaUsed;
 	
 	// Update global quota
-	quotaUsage.totalUsed += batchQuotaUsed;
-	currentMinuteUsage.used += batchQuotaUsed;
+	updateQuotaUsage(() => {
+		quotaUsage.totalUsed += unchargedQuotaUsed;
+		currentMinuteUsage.used += unchargedQuotaUsed;
+		recordUserUsage(session.userKey, unchargedQuotaUsed);
+	});
 	
 	// Update session
-	session.currentBatchUsed += batchQuotaUsed;
-	session.totalConfirmed += batchQuotaUsed;
+	session.currentBatchUsed += unchargedQuotaUsed;
+	session.totalConfirmed += unchargedQuotaUsed;
+	session.proxiedBatchUsed = 0;
 	session.lastActivity = Date.now();
 	session.isWaitingForBatch = false;
 	
-	// Save to disk
-	saveQuotaToDisk();
+	recordDeletions(successCount, failedCount);
 	
 	privacyLogger.info(`Batch complete for ${sessionId.slice(0, 8)}...: ${successCount} success, ${failedCount} failed, ${batchQuotaUsed} quota used`);
 	
@@ -801,18 +1122,16 @@ export function reportBatchComplete(sessionId: string, successCount: number, fai
 		};
 	}
 	
-	// Calculate next batch
-	const dailyLimit = quotaConfig.dailyLimit;
-	const chunkSize = quotaConfig.reservationChunkSize;
-	const smallOpReserve = Math.floor(dailyLimit * (quotaConfig.smallOperationReservePercent / 100));
+	// Calculate next batch as the user's fair share
+	cleanupWaitingList();
+	const { batchSize: nextBatchSize, limitedBy } = calculateFairShareBatch(session.userKey, remainingPlanned, waitingList.length === 0);
 	
-	const sessionReserved = calculateTotalSessionReserved();
-	const effectiveUsed = quotaUsage.totalUsed + quotaUsage.totalReserved + sessionReserved;
-	const availableForDeletion = Math.max(0, dailyLimit - effectiveUsed - smallOpReserve);
-	
-	if (availableForDeletion <= 0) {
-		// Quota exhausted
+	if (limitedBy) {
 		endDeletionSession(sessionId);
+		if (limitedBy === 'share') {
+			// Give way to users waiting for their share and line up behind them
+			enqueueWaitingUser(sessionId, session.userKey);
+		}
 		broadcastQuotaUpdate();
 		return {
 			success: true,
@@ -820,12 +1139,15 @@ export function reportBatchComplete(sessionId: string, successCount: number, fai
 			nextBatchSize: 0,
 			maxParallelDeletions: 0,
 			shouldContinue: false,
-			message: 'Quota exhausted'
+			...(limitedBy === 'share' && { retryAfterMs: WAITING_RETRY_MS }),
+			message: limitedBy === 'pool'
+				? 'Quota exhausted'
+				: limitedBy === 'budget'
+					? 'Your daily quota budget is used up'
+					: 'The shared quota is busy - waiting for other users'
 		};
 	}
 	
-	// Calculate next batch size
-	const nextBatchSize = Math.min(chunkSize, availableForDeletion, remainingPlanned);
 	const maxParallel = calculateParallelDeletions(sessionId);
 	
 	// Update session for next batch
@@ -890,9 +1212,89 @@ export function getDeletionSessionStatus(sessionId: string): {
 	};
 }
 
+/**
+ * Change the daily limit at runtime (admin dashboard), null goes back to YOUTUBE_DAILY_QUOTA_LIMIT
+ */
+export function setDailyLimitOverride(limit: number | null): void {
+	checkDayReset();
+	updateQuotaUsage(() => {
+		dailyLimitOverride = limit;
+	});
+	privacyLogger.warn(limit === null
+		? `Daily quota limit reset to the configured ${quotaConfig.configuredDailyLimit}`
+		: `Daily quota limit changed at runtime to ${limit}`);
+	broadcastQuotaUpdate();
+}
+
+/**
+ * End a deletion session by its public ID (admin dashboard, for stuck sessions)
+ * Returns false if there is no such session
+ */
+export function killDeletionSession(id: string): boolean {
+	const session = [...deletionSessions.values()].find(s => s.id === id);
+	if (!session) return false;
+	privacyLogger.warn(`Deletion session ${id.slice(0, 8)}... ended by an admin`);
+	endDeletionSession(session.sessionId);
+	return true;
+}
+
+/**
+ * Number of open SSE connections receiving quota updates
+ */
+export function getQuotaSubscriberCount(): number {
+	return sseSubscribers.size;
+}
+
+/**
+ * Number of active deletion sessions
+ */
+export function getActiveDeletionSessionCount(): number {
+	cleanupStaleDeletionSessions();
+	return deletionSessions.size;
+}
+
+/**
+ * Detailed quota state for the admin dashboard
+ * Session IDs are cookie values, so sessions are listed by their public ID only
+ */
+export function getQuotaDetails(): QuotaDetails {
+	checkDayReset();
+	cleanupStaleDeletionSessions();
+	cleanupWaitingList();
+	
+	return {
+		configuredDailyLimit: quotaConfig.configuredDailyLimit,
+		dailyLimitOverride,
+		deletionSessions: [...deletionSessions.values()].map(session => ({
+			id: session.id,
+			userKey: session.userKey,
+			totalPlanned: session.totalPlanned,
+			totalConfirmed: session.totalConfirmed,
+			currentBatchSize: session.currentBatchSize,
+			currentBatchUsed: session.currentBatchUsed,
+			maxParallelDeletions: session.maxParallelDeletions,
+			isWaitingForBatch: session.isWaitingForBatch,
+			createdAt: session.createdAt,
+			lastActivity: session.lastActivity
+		})),
+		connectedUsers: [...connectedUsers.values()].map(user => ({
+			isDeleting: user.isDeleting,
+			lastActivity: user.lastActivity
+		})),
+		reservations: {
+			count: reservations.size,
+			outstanding: [...reservations.values()].reduce((sum, r) => sum + Math.max(0, r.reserved - r.used), 0)
+		},
+		sessionReserved: calculateTotalSessionReserved(),
+		waitingList: waitingList.map(w => ({ userKey: w.userKey, queuedAt: w.queuedAt })),
+		perUser: { ...quotaUsage.perUser }
+	};
+}
+
 // Run cleanup periodically
 setInterval(() => {
 	cleanupStaleReservations();
 	cleanupInactiveUsers();
 	cleanupStaleDeletionSessions();
+	cleanupWaitingList();
 }, 60 * 1000); // Every minute
@@ -0,0 +1,166 @@
+// Rolling history of daily quota usage
+// The quota ledger only holds the current day, this keeps the totals of past days
+// (usage, per-minute peaks, deletions, enrichment calls) for QUOTA_HISTORY_DAYS
+// Persisted in the quota storage so the history survives restarts. With file storage the history
+// is kept in memory and written on a timer, a day change and shutdown; shared storage is written
+// right away and read again before each use
+
+import { privacyLogger, quotaHistoryConfig } from './config';
+import { quotaStorage } from './quotaStorage';
+import { getPacificDateKey } from '$lib/utils/timezone';
+import type { QuotaHistoryDay } from '$lib/types/quota';
+
+// How long changes to the history may stay unsaved (file storage)
+const FLUSH_INTERVAL_MS = 60 * 1000;
+
+// In-memory state (date -> day)
+const history = new Map<string, QuotaHistoryDay>(loadHistory());
+const unsavedDays = new Set<string>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+privacyLogger.info(`Loaded quota history: ${history.size} day(s)`);
+
+// adapter-node emits this on SIGTERM/SIGINT, before the process exits
+process.on('sveltekit:shutdown', () => flushHistory());
+
+/**
+ * Load the history from storage, dropping days past the retention period
+ */
+function loadHistory(): [string, QuotaHistoryDay][] {
+	const cutoff = getCutoffDate();
+	return quotaStorage.readHistory()
+		.filter(day => day.date >= cutoff)
+		.map(day => [day.date, day]);
+}
+
+/**
+ * Pick up days other processes recorded in shared storage
+ */
+function refreshHistory(): void {
+	if (!quotaStorage.shared) return;
+
+	history.clear();
+	for (const [date, day] of loadHistory()) {
+		history.set(date, day);
+	}
+}
+
+/**
+ * Save the days changed since the last flush
+ */
+function flushHistory(): void {
+	if (flushTimer) {
+		clearTimeout(flushTimer);
+		flushTimer = null;
+	}
+	for (const date of unsavedDays) {
+		const day = history.get(date);
+		if (day) quotaStorage.writeHistoryDay(day);
+	}
+	unsavedDays.clear();
+}
+
+function scheduleFlush(): void {
+	if (flushTimer) return;
+	flushTimer = setTimeout(flushHistory, FLUSH_INTERVAL_MS);
+	// Pending changes are flushed on shutdown, the timer alone shouldn't keep the process alive
+	flushTimer.unref();
+}
+
+/**
+ * Oldest date (YYYY-MM-DD) within the last days, including today
+ */
+function getCutoffDate(days: number = quotaHistoryConfig.retentionDays): string {
+	const cutoff = new Date(`${getPacificDateKey()}T00:00:00Z`);
+	cutoff.setUTCDate(cutoff.getUTCDate() - (days - 1));
+	return cutoff.toISOString().slice(0, 10);
+}
+
+/**
+ * Change the entry of a day in one atomic step and save it (or schedule saving it)
+ * The change returns false if nothing changed
+ */
+function updateDay(date: string, change: (day: QuotaHistoryDay) => boolean | void): void {
+	quotaStorage.transaction(() => {
+		refreshHistory();
+
+		let day = history.get(date);
+		if (!day) {
+			day = {
+				date,
+				totalUsed: 0,
+				dailyLimit: 0,
+				peakMinuteUsed: 0,
+				deletionsSucceeded: 0,
+				deletionsFailed: 0,
+				enrichmentCalls: 0
+			};
+			history.set(date, day);
+
+			// Save the previous day's final totals, a new day pushes the oldest ones out of the retention period
+			flushHistory();
+			const cutoff = getCutoffDate();
+			for (const key of history.keys()) {
+				if (key < cutoff) history.delete(key);
+			}
+			quotaStorage.deleteHistoryBefore(cutoff);
+		}
+
+		if (change(day) === false) return;
+
+		if (quotaStorage.shared) {
+			quotaStorage.writeHistoryDay(day);
+		} else {
+			unsavedDays.add(date);
+			scheduleFlush();
+		}
+	});
+}
+
+/**
+ * Record the quota usage of a day (called whenever the quota is saved)
+ */
+export function recordDailyUsage(date: string, totalUsed: number, dailyLimit: number, minuteUsed: number): void {
+	updateDay(date, day => {
+		if (day.totalUsed === totalUsed && day.dailyLimit === dailyLimit && day.peakMinuteUsed >= minuteUsed) {
+			return false;
+		}
+
+		day.totalUsed = totalUsed;
+		day.dailyLimit = dailyLimit;
+		day.peakMinuteUsed = Math.max(day.peakMinuteUsed, minuteUsed);
+	});
+}
+
+/**
+ * Record the outcome of a deletion batch
+ */
+export function recordDeletions(succeeded: number, failed: number): void {
+	if (succeeded <= 0 && failed <= 0) return;
+
+	updateDay(getPacificDateKey(), day => {
+		day.deletionsSucceeded += Math.max(0, succeeded);
+		day.deletionsFailed += Math.max(0, failed);
+	});
+}
+
+/**
+ * Record a lookup made to enrich comments (comments, commentThreads, videos)
+ */
+export function recordEnrichmentCall(): void {
+	updateDay(getPacificDateKey(), day => {
+		day.enrichmentCalls++;
+	});
+}
+
+/**
+ * Get the recorded days within the last days (including today), oldest first
+ */
+export function getQuotaHistory(days: number = quotaHistoryConfig.retentionDays): QuotaHistoryDay[] {
+	refreshHistory();
+
+	const cutoff = getCutoffDate(days);
+	return [...history.values()]
+		.filter(day => day.date >= cutoff)
+		.sort((a, b) => a.date.localeCompare(b.date))
+		.map(day => ({ ...day }));
+}
@@ -0,0 +1,41 @@
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const dataDir = mkdtempSync(join(tmpdir(), 'quota-storage-'));
+process.env.DATA_DIR = dataDir;
+vi.mock('$env/dynamic/private', () => ({ env: process.env }));
+
+const getBuiltinModule = process.getBuiltinModule;
+
+afterEach(() => {
+	process.getBuiltinModule = getBuiltinModule;
+	vi.resetModules();
+});
+
+afterAll(() => {
+	rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('quota storage', () => {
+	it('uses JSON files by default', async () => {
+		process.env.QUOTA_STORAGE = '';
+		const { quotaStorage } = await import('./quotaStorage');
+		quotaStorage.write({ date: '2024-01-01', totalUsed: 50, lastReset: 0, perUser: {}, dailyLimitOverride: null });
+		expect(quotaStorage.read()).toMatchObject({ date: '2024-01-01', totalUsed: 50 });
+	});
+
+	it('explains the Node.js requirement for sqlite when node:sqlite is missing', async () => {
+		process.env.QUOTA_STORAGE = 'sqlite';
+		process.getBuiltinModule = (() => undefined) as typeof process.getBuiltinModule;
+		await expect(import('./quotaStorage')).rejects.toThrow('QUOTA_STORAGE=sqlite requires Node.js 22.5 or newer');
+	});
+
+	it('explains the Node.js requirement for sqlite without process.getBuiltinModule', async () => {
+		process.env.QUOTA_STORAGE = 'sqlite';
+		// @ts-expect-error - missing before Node.js 20.16
+		delete process.getBuiltinModule;
+		await expect(import('./quotaStorage')).rejects.toThrow('QUOTA_STORAGE=sqlite requires Node.js 22.5 or newer');
+	});
+});
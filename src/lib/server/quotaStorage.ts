@@ -0,0 +1,246 @@
+// Storage backends for the server quota state (see quotaStorageConfig)
+// Holds the quota ledger (today's usage, usage per user, runtime daily limit) and the quota history.
+// Processes using the same sqlite database see each other's ledger, but per-minute usage, reservations,
+// deletion sessions and the waiting list stay in memory per process - the app runs as a single process.
+// The interface is synchronous like quota.ts, which checks and charges quota in one step
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync, openSync, writeSync, fsyncSync, closeSync, renameSync } from 'fs';
+import { join, dirname } from 'path';
+import type { DatabaseSync } from 'node:sqlite';
+import { privacyLogger, quotaStorageConfig } from './config';
+import type { QuotaHistoryDay } from '$lib/types/quota';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+const QUOTA_FILE = join(DATA_DIR, 'quota.json');
+const HISTORY_FILE = join(DATA_DIR, 'quota-history.json');
+
+/**
+ * Persistent quota ledger
+ */
+export interface StoredQuota {
+	date: string;                     // YYYY-MM-DD (Pacific Time)
+	totalUsed: number;
+	lastReset: number;
+	perUser: Record<string, number>;  // Quota used today per user key
+	dailyLimitOverride: number | null;
+}
+
+export interface QuotaStorage {
+	readonly backend: 'file' | 'atomic-file' | 'sqlite';
+	// Other processes may change the stored state, so it has to be read again before each use
+	readonly shared: boolean;
+	read(): StoredQuota | null;
+	write(state: StoredQuota): void;
+	readHistory(): QuotaHistoryDay[];
+	writeHistoryDay(day: QuotaHistoryDay): void;
+	deleteHistoryBefore(date: string): void;
+	// Run a read-change-write sequence without other processes writing in between
+	transaction<T>(fn: () => T): T;
+}
+
+function readJsonFile<T>(file: string, what: string): T | null {
+	try {
+		if (existsSync(file)) {
+			return JSON.parse(readFileSync(file, 'utf-8')) as T;
+		}
+	} catch (e) {
+		privacyLogger.error(`Failed to load ${what} from disk: ${e instanceof Error ? e.message : 'Unknown error'}`);
+	}
+	return null;
+}
+
+function writeJsonFile(file: string, data: unknown, atomic: boolean, what: string): void {
+	try {
+		const dir = dirname(file);
+		if (!existsSync(dir)) {
+			mkdirSync(dir, { recursive: true });
+		}
+
+		const json = JSON.stringify(data, null, 2);
+		if (!atomic) {
+			writeFileSync(file, json, 'utf-8');
+			return;
+		}
+
+		// Write a temp file, flush it and rename it over the old file,
+		// so a crash leaves either the old or the new file, never a partial one
+		const tempFile = `${file}.${process.pid}.tmp`;
+		const fd = openSync(tempFile, 'w');
+		try {
+			writeSync(fd, json, null, 'utf-8');
+			fsyncSync(fd);
+		} finally {
+			closeSync(fd);
+		}
+		renameSync(tempFile, file);
+	} catch (e) {
+		privacyLogger.error(`Failed to save ${what} to disk: ${e instanceof Error ? e.message : 'Unknown error'}`);
+	}
+}
+
+/**
+ * JSON files in DATA_DIR, for a single server process
+ */
+function createFileStorage(atomic: boolean): QuotaStorage {
+	const readHistory = () => readJsonFile<QuotaHistoryDay[]>(HISTORY_FILE, 'quota history') ?? [];
+	const writeHistory = (days: QuotaHistoryDay[]) => writeJsonFile(HISTORY_FILE, days, atomic, 'quota history');
+
+	return {
+		backend: atomic ? 'atomic-file' : 'file',
+		shared: false,
+		read: () => readJsonFile<StoredQuota>(QUOTA_FILE, 'quota'),
+		write: state => writeJsonFile(QUOTA_FILE, state, atomic, 'quota'),
+		readHistory,
+		writeHistoryDay: day => writeHistory(
+			[...readHistory().filter(d => d.date !== day.date), day].sort((a, b) => a.date.localeCompare(b.date))
+		),
+		deleteHistoryBefore: date => writeHistory(readHistory().filter(d => d.date >= date)),
+		// The in-memory state of the only process is authoritative
+		transaction: fn => fn()
+	};
+}
+
+/**
+ * SQLite database (node:sqlite, Node 22.5+)
+ * Transactions take the write lock up front (BEGIN IMMEDIATE), so a check and charge is never
+ * interleaved with another writer. Starts from existing JSON files on first use.
+ */
+function createSqliteStorage(path: string): QuotaStorage {
+	// process.getBuiltinModule itself only exists since Node.js 20.16 / 22.3
+	const sqlite = typeof process.getBuiltinModule === 'function' ? process.getBuiltinModule('node:sqlite') : undefined;
+	if (!sqlite) {
+		throw new Error('QUOTA_STORAGE=sqlite requires Node.js 22.5 or newer');
+	}
+
+	const dir = dirname(path);
+	if (!existsSync(dir)) {
+		mkdirSync(dir, { recursive: true });
+	}
+
+	const db: DatabaseSync = new sqlite.DatabaseSync(path);
+	// WAL lets processes read while one writes, waiting writers retry for up to 5 seconds
+	db.exec('PRAGMA journal_mode = WAL');
+	db.exec('PRAGMA busy_timeout = 5000');
+	db.exec(`
+		CREATE TABLE IF NOT EXISTS quota_ledger (
+			id INTEGER PRIMARY KEY CHECK (id = 1),
+			state TEXT NOT NULL,
+			updated_at INTEGER NOT NULL
+		);
+		CREATE TABLE IF NOT EXISTS quota_history (
+			date TEXT PRIMARY KEY,
+			day TEXT NOT NULL
+		);
+	`);
+
+	const selectLedger = db.prepare('SELECT state FROM quota_ledger WHERE id = 1');
+	const upsertLedger = db.prepare(`
+		INSERT INTO quota_ledger (id, state, updated_at) VALUES (1, ?, ?)
+		ON CONFLICT (id) DO UPDATE SET state = excluded.state, updated_at = excluded.updated_at
+	`);
+	const selectHistory = db.prepare('SELECT day FROM quota_history ORDER BY date');
+	const upsertHistoryDay = db.prepare(`
+		INSERT INTO quota_history (date, day) VALUES (?, ?)
+		ON CONFLICT (date) DO UPDATE SET day = excluded.day
+	`);
+	const deleteHistory = db.prepare('DELETE FROM quota_history WHERE date < ?');
+	let transactionDepth = 0;
+
+	const storage: QuotaStorage = {
+		backend: 'sqlite',
+		shared: true,
+
+		read() {
+			try {
+				const row = selectLedger.get() as { state: string } | undefined;
+				return row ? JSON.parse(row.state) as StoredQuota : null;
+			} catch (e) {
+				privacyLogger.error(`Failed to load quota from SQLite: ${e instanceof Error ? e.message : 'Unknown error'}`);
+				return null;
+			}
+		},
+
+		write(state) {
+			try {
+				upsertLedger.run(JSON.stringify(state), Date.now());
+			} catch (e) {
+				privacyLogger.error(`Failed to save quota to SQLite: ${e instanceof Error ? e.message : 'Unknown error'}`);
+			}
+		},
+
+		readHistory() {
+			try {
+				return (selectHistory.all() as { day: string }[]).map(row => JSON.parse(row.day) as QuotaHistoryDay);
+			} catch (e) {
+				privacyLogger.error(`Failed to load quota history from SQLite: ${e instanceof Error ? e.message : 'Unknown error'}`);
+				return [];
+			}
+		},
+
+		writeHistoryDay(day) {
+			try {
+				upsertHistoryDay.run(day.date, JSON.stringify(day));
+			} catch (e) {
+				privacyLogger.error(`Failed to save quota history to SQLite: ${e instanceof Error ? e.message : 'Unknown error'}`);
+			}
+		},
+
+		deleteHistoryBefore(date) {
+			try {
+				deleteHistory.run(date);
+			} catch (e) {
+				privacyLogger.error(`Failed to prune quota history in SQLite: ${e instanceof Error ? e.message : 'Unknown error'}`);
+			}
+		},
+
+		transaction(fn) {
+			// Nested calls (e.g. the day reset during a charge) join the outer transaction
+			if (transactionDepth > 0) return fn();
+
+			db.exec('BEGIN IMMEDIATE');
+			transactionDepth++;
+			try {
+				const result = fn();
+				db.exec('COMMIT');
+				return result;
+			} catch (e) {
+				db.exec('ROLLBACK');
+				throw e;
+			} finally {
+				transactionDepth--;
+			}
+		}
+	};
+
+	// Carry over the state of the file backend
+	storage.transaction(() => {
+		if (storage.read()) return;
+		const ledger = readJsonFile<StoredQuota>(QUOTA_FILE, 'quota');
+		if (ledger) storage.write(ledger);
+		const history = readJsonFile<QuotaHistoryDay[]>(HISTORY_FILE, 'quota history');
+		history?.forEach(day => storage.writeHistoryDay(day));
+		if (ledger || history) {
+			privacyLogger.info('Moved the quota JSON files into the SQLite database');
+		}
+	});
+
+	privacyLogger.info(`Using SQLite quota storage at ${path}`);
+	return storage;
+}
+
+/**
+ * Create the storage backend selected by QUOTA_STORAGE
+ */
+function createQuotaStorage(): QuotaStorage {
+	switch (quotaStorageConfig.backend) {
+		case 'sqlite':
+			return createSqliteStorage(quotaStorageConfig.sqlitePath || join(DATA_DIR, 'quota.db'));
+		case 'atomic-file':
+			return createFileStorage(true);
+		default:
+			return createFileStorage(false);
+	}
+}
+
+// One instance per process, so the ledger and the history share the SQLite connection and its transactions
+export const quotaStorage = createQuotaStorage();
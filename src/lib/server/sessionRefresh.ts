@@ -0,0 +1,123 @@
+// Server-side access token refresh for vault sessions
+// Used by /api/auth/refresh and by the YouTube proxy when the vaulted access token has expired,
+// so long enrichments and deletions keep going without a round trip through the browser
+
+import type { Cookies } from '@sveltejs/kit';
+import { oauthConfig, privacyLogger } from './config';
+import { registerRefreshedAccessToken } from './sessionRegistry';
+import { SESSION_COOKIE, getSession, updateAccessToken, destroySession } from './sessionVault';
+import { recordTokenRefresh } from './metrics';
+
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+// Refresh token expiry in seconds (30 days)
+const REFRESH_TOKEN_EXPIRY_SECONDS = 30 * 24 * 60 * 60;
+
+interface TokenResponse {
+	access_token: string;
+	expires_in: number;
+	scope: string;
+	token_type: string;
+}
+
+interface TokenError {
+	error: string;
+	error_description: string;
+}
+
+export type SessionRefreshResult =
+	| { success: true; accessToken: string; expiresIn: number }
+	| { success: false; status: number; message: string; requiresReauth?: boolean };
+
+// Refreshes in progress per session, so parallel proxied calls share one token request
+const pendingRefreshes = new Map<string, Promise<SessionRefreshResult>>();
+
+/**
+ * Keep the client-readable auth status cookie alive as long as the refresh token
+ */
+export function setAuthStatusCookie(cookies: Cookies, url: URL): void {
+	cookies.set('youtube_auth_status', 'connected', {
+		path: '/',
+		httpOnly: false,
+		secure: url.protocol === 'https:',
+		sameSite: 'lax',
+		maxAge: REFRESH_TOKEN_EXPIRY_SECONDS
+	});
+}
+
+/**
+ * Exchange the session's vaulted refresh token for a new access token and store it in the vault
+ * A revoked or expired refresh token ends the session
+ */
+export function refreshSessionAccessToken(cookies: Cookies, url: URL): Promise<SessionRefreshResult> {
+	const sessionId = cookies.get(SESSION_COOKIE);
+	const pending = sessionId ? pendingRefreshes.get(sessionId) : undefined;
+	if (pending) return pending;
+
+	const refresh = requestAccessToken(cookies, url);
+	if (sessionId) {
+		pendingRefreshes.set(sessionId, refresh);
+		refresh.finally(() => pendingRefreshes.delete(sessionId));
+	}
+	return refresh;
+}
+
+async function requestAccessToken(cookies: Cookies, url: URL): Promise<SessionRefreshResult> {
+	const refreshToken = getSession(cookies)?.refreshToken;
+	if (!refreshToken) {
+		privacyLogger.info('Token refresh attempted but no refresh token available');
+		return { success: false, status: 401, message: 'No refresh token available', requiresReauth: true };
+	}
+
+	try {
+		const tokenResponse = await fetch(GOOGLE_TOKEN_URL, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/x-www-form-urlencoded'
+			},
+			body: new URLSearchParams({
+				client_id: oauthConfig.clientId,
+				client_secret: oauthConfig.clientSecret,
+				refresh_token: refreshToken,
+				grant_type: 'refresh_token'
+			})
+		});
+
+		if (!tokenResponse.ok) {
+			const errorData = await tokenResponse.json() as TokenError;
+			privacyLogger.error(`Token refresh failed: ${errorData.error}`);
+			recordTokenRefresh('session', false);
+
+			// If refresh token is invalid/revoked, drop the session
+			if (errorData.error === 'invalid_grant') {
+				destroySession(cookies);
+				cookies.delete('youtube_auth_status', { path: '/' });
+				return {
+					success: false,
+					status: 401,
+					message: 'Refresh token is invalid or expired. Please sign in again.',
+					requiresReauth: true
+				};
+			}
+
+			return { success: false, status: 400, message: errorData.error_description || errorData.error };
+		}
+
+		const tokens = await tokenResponse.json() as TokenResponse;
+
+		privacyLogger.info('Token refresh successful');
+		recordTokenRefresh('session', true);
+		registerRefreshedAccessToken(refreshToken, tokens.access_token, tokens.expires_in);
+
+		// Store the new access token in the session vault
+		updateAccessToken(cookies, tokens.access_token, tokens.expires_in);
+		setAuthStatusCookie(cookies, url);
+
+		return { success: true, accessToken: tokens.access_token, expiresIn: tokens.expires_in };
+	} catch (e) {
+		const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+		privacyLogger.error(`Token refresh exception: ${errorMessage}`);
+		recordTokenRefresh('session', false);
+		return { success: false, status: 500, message: 'Failed to refresh token' };
+	}
+}
@@ -0,0 +1,55 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// The registry persists to DATA_DIR as soon as it's imported
+const dataDir = mkdtempSync(join(tmpdir(), 'session-registry-'));
+process.env.DATA_DIR = dataDir;
+const registry = await import('./sessionRegistry');
+
+// Reference value: base64(sha512(sha512(token))), computed independently with Python's hashlib
+const REFRESH_TOKEN = '1//0gLoremIpsumRefreshTokenForRiscTests';
+const REFRESH_TOKEN_HASH = 'c9NSMUtw7HsVj7XlrBcugcmeDf3p4sDztXwUvnuKjnAb/r4BVydia9/GvDTgZD59s6csd2RN6Nro963G1J7B5w==';
+// A single SHA-512 of the token, which Google never sends
+const SINGLE_SHA512 = 'nTfjDqz5IjB3vhADH09EGiErYkCWAo4YUIGLO+wkWDrrjP5Ae17IL4ejsToCzVjALk/Ec6cB+XA9qJMCuQRtrw==';
+
+afterAll(() => {
+	rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('riscTokenHash', () => {
+	it('double hashes the token with SHA-512', () => {
+		expect(registry.riscTokenHash(REFRESH_TOKEN)).toBe(REFRESH_TOKEN_HASH);
+	});
+});
+
+describe('revokeByTokenIdentifier', () => {
+	beforeAll(() => {
+		registry.registerIssuedTokens('subject-1', { accessToken: 'ya29.access-1', expiresIn: 3600, refreshToken: REFRESH_TOKEN });
+		registry.registerIssuedTokens('subject-2', { accessToken: 'ya29.access-2', expiresIn: 3600, refreshToken: '1//0gOtherRefreshToken' });
+	});
+
+	it('ignores a single SHA-512 of the token', () => {
+		expect(registry.revokeByTokenIdentifier('hash_base64_sha512_sha512', SINGLE_SHA512, 'token_revoked')).toBeNull();
+	});
+
+	it('ignores unknown tokens', () => {
+		expect(registry.revokeByTokenIdentifier('prefix', '1//0gUnknownPrefix', 'token_revoked')).toBeNull();
+	});
+
+	it('revokes the account of a hash_base64_sha512_sha512 identifier', () => {
+		const result = registry.revokeByTokenIdentifier('hash_base64_sha512_sha512', REFRESH_TOKEN_HASH, 'token_revoked');
+		expect(result).toEqual({ credentials: 2, sessions: 0, jobs: 0 });
+		expect(registry.isRevoked(REFRESH_TOKEN)).toBe(true);
+		expect(registry.isRevoked('ya29.access-1')).toBe(true);
+		expect(registry.isRevoked('ya29.access-2')).toBe(false);
+	});
+
+	it('revokes the account of a prefix identifier (first 16 characters)', () => {
+		expect(registry.revokeByTokenIdentifier('prefix', '1//0gOtherRefre', 'token_revoked')).toBeNull();
+		const result = registry.revokeByTokenIdentifier('prefix', '1//0gOtherRefres', 'token_revoked');
+		expect(result).toEqual({ credentials: 2, sessions: 0, jobs: 0 });
+		expect(registry.isRevoked('ya29.access-2')).toBe(true);
+	});
+});
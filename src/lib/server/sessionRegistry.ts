@@ -0,0 +1,319 @@
+// Registry of server-side state issued to each Google account (developer OAuth mode)
+// Maps the Google subject from the ID token to the tokens and quota sessions we handed out,
+// so RISC security events can revoke them instead of waiting for the cookies to expire
+// Only hashes of subjects and tokens are stored; quota session IDs are kept to end their sessions
+// Persists the registry to disk so revocations survive restarts
+
+import type { Cookies } from '@sveltejs/kit';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { privacyLogger } from './config';
+import { endDeletionSession, unregisterUser } from './quota';
+import { revokeDeletionJobs } from './deletionJobs';
+import { SESSION_COOKIE, getSession, isSessionRevoked, revokeSessionsWhere } from './sessionVault';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+const REGISTRY_FILE = join(DATA_DIR, 'session-registry.json');
+
+// Matches the cookie lifetimes set by the auth and quota routes
+const REFRESH_TOKEN_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+const QUOTA_SESSION_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+// Cookies that are cleared when the session or quota session of a request was revoked
+const AUTH_COOKIES = [SESSION_COOKIE, 'youtube_auth_status', 'quota_session'];
+
+/**
+ * Token issued to a subject (kept in the session vault)
+ */
+interface IssuedCredential {
+	hash: string;              // hashValue(token)
+	kind: 'access' | 'refresh';
+	expiresAt: number;
+	// Identifiers Google may use in token-revoked events (refresh tokens only)
+	sha512?: string;           // riscTokenHash(token) ('hash_base64_sha512_sha512' algorithm)
+	prefixHash?: string;       // hashValue of the first 16 characters ('prefix' algorithm)
+}
+
+interface SubjectEntry {
+	credentials: IssuedCredential[];
+	quotaSessions: Record<string, number>; // Quota session ID -> expiry
+	updatedAt: number;
+}
+
+interface RegistryData {
+	subjects: Record<string, SubjectEntry>; // hashValue(Google subject) -> issued state
+	revoked: Record<string, number>;        // hashValue(token or quota session ID) -> when it would have expired
+}
+
+export type RevocationReason = 'token_revoked' | 'sessions_revoked' | 'account_disabled' | 'account_purged' | 'credential_change';
+
+// In-memory state
+const registry: RegistryData = loadRegistryFromDisk();
+
+/**
+ * Load the registry from disk
+ */
+function loadRegistryFromDisk(): RegistryData {
+	try {
+		if (existsSync(REGISTRY_FILE)) {
+			const loaded = JSON.parse(readFileSync(REGISTRY_FILE, 'utf-8')) as RegistryData;
+			privacyLogger.info(`Loaded session registry from disk: ${Object.keys(loaded.subjects).length} account(s), ${Object.keys(loaded.revoked).length} revoked credential(s)`);
+			return { subjects: loaded.subjects || {}, revoked: loaded.revoked || {} };
+		}
+	} catch (e) {
+		privacyLogger.error(`Failed to load session registry from disk: ${e instanceof Error ? e.message : 'Unknown error'}`);
+	}
+	return { subjects: {}, revoked: {} };
+}
+
+/**
+ * Save the registry to disk (readable by the server user only, it contains quota session IDs)
+ */
+function saveRegistryToDisk(): void {
+	try {
+		const dir = dirname(REGISTRY_FILE);
+		if (!existsSync(dir)) {
+			mkdirSync(dir, { recursive: true });
+		}
+		writeFileSync(REGISTRY_FILE, JSON.stringify(registry, null, 2), { encoding: 'utf-8', mode: 0o600 });
+	} catch (e) {
+		privacyLogger.error(`Failed to save session registry to disk: ${e instanceof Error ? e.message : 'Unknown error'}`);
+	}
+}
+
+function hashValue(value: string): string {
+	return createHash('sha256').update(value).digest('hex').slice(0, 32);
+}
+
+/**
+ * Token identifier of the RISC 'hash_base64_sha512_sha512' algorithm:
+ * the SHA-512 digest of the SHA-512 digest of the token, base64 encoded
+ */
+export function riscTokenHash(token: string): string {
+	const inner = createHash('sha512').update(token).digest();
+	return createHash('sha512').update(inner).digest('base64');
+}
+
+/**
+ * Drop expired credentials, quota sessions and revocations
+ */
+function pruneExpired(): void {
+	const now = Date.now();
+	for (const [key, entry] of Object.entries(registry.subjects)) {
+		entry.credentials = entry.credentials.filter(c => c.expiresAt > now);
+		for (const [sessionId, expiresAt] of Object.entries(entry.quotaSessions)) {
+			if (expiresAt <= now) delete entry.quotaSessions[sessionId];
+		}
+		if (entry.credentials.length === 0 && Object.keys(entry.quotaSessions).length === 0) {
+			delete registry.subjects[key];
+		}
+	}
+	for (const [hash, expiresAt] of Object.entries(registry.revoked)) {
+		if (expiresAt <= now) delete registry.revoked[hash];
+	}
+}
+
+function getOrCreateEntry(subjectKey: string): SubjectEntry {
+	let entry = registry.subjects[subjectKey];
+	if (!entry) {
+		entry = { credentials: [], quotaSessions: {}, updatedAt: Date.now() };
+		registry.subjects[subjectKey] = entry;
+	}
+	return entry;
+}
+
+function addCredential(entry: SubjectEntry, token: string, kind: IssuedCredential['kind'], lifetimeMs: number): void {
+	const hash = hashValue(token);
+	entry.credentials = entry.credentials.filter(c => c.hash !== hash);
+	entry.credentials.push({
+		hash,
+		kind,
+		expiresAt: Date.now() + lifetimeMs,
+		...(kind === 'refresh' && {
+			sha512: riscTokenHash(token),
+			prefixHash: hashValue(token.slice(0, 16))
+		})
+	});
+	entry.updatedAt = Date.now();
+}
+
+/**
+ * Find the subject that a cookie value was issued to
+ */
+function findSubjectByCredential(token: string): string | null {
+	const hash = hashValue(token);
+	for (const [key, entry] of Object.entries(registry.subjects)) {
+		if (entry.credentials.some(c => c.hash === hash)) return key;
+	}
+	return null;
+}
+
+/**
+ * Extract the Google subject from an ID token
+ * The token comes straight from Google's token endpoint over TLS, so the signature is not checked here
+ */
+export function getSubjectFromIdToken(idToken: string | undefined): string | null {
+	if (!idToken) return null;
+	try {
+		const payload = idToken.split('.')[1];
+		const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as { sub?: string };
+		return typeof claims.sub === 'string' ? claims.sub : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Record the tokens issued to a Google account after sign-in
+ */
+export function registerIssuedTokens(
+	subject: string,
+	tokens: { accessToken: string; expiresIn: number; refreshToken?: string }
+): void {
+	pruneExpired();
+	const entry = getOrCreateEntry(hashValue(subject));
+	addCredential(entry, tokens.accessToken, 'access', tokens.expiresIn * 1000);
+	if (tokens.refreshToken) {
+		addCredential(entry, tokens.refreshToken, 'refresh', REFRESH_TOKEN_LIFETIME_MS);
+	}
+	saveRegistryToDisk();
+}
+
+/**
+ * Record an access token issued via a refresh token
+ */
+export function registerRefreshedAccessToken(refreshToken: string, accessToken: string, expiresIn: number): void {
+	const subjectKey = findSubjectByCredential(refreshToken);
+	if (!subjectKey) return;
+	addCredential(registry.subjects[subjectKey], accessToken, 'access', expiresIn * 1000);
+	saveRegistryToDisk();
+}
+
+/**
+ * Link a quota session to the account of the request's auth cookies
+ */
+export function linkQuotaSession(cookies: Cookies, sessionId: string): void {
+	const session = getSession(cookies);
+	const token = session?.refreshToken || session?.accessToken;
+	if (!token) return;
+	const subjectKey = findSubjectByCredential(token);
+	if (!subjectKey) return;
+
+	const entry = registry.subjects[subjectKey];
+	const expiresAt = Date.now() + QUOTA_SESSION_LIFETIME_MS;
+	// Only write when the session is new or its expiry moved noticeably
+	const previous = entry.quotaSessions[sessionId];
+	if (previous && expiresAt - previous < 60 * 60 * 1000) return;
+	entry.quotaSessions[sessionId] = expiresAt;
+	entry.updatedAt = Date.now();
+	saveRegistryToDisk();
+}
+
+function accountKey(subjectKey: string): string {
+	return `account:${subjectKey}`;
+}
+
+/**
+ * Stable key of the Google account a request is signed in with
+ * Stays the same when the user signs in again and gets new tokens
+ */
+export function getAccountKey(cookies: Cookies): string | null {
+	const session = getSession(cookies);
+	const token = session?.refreshToken || session?.accessToken;
+	const subjectKey = token ? findSubjectByCredential(token) : null;
+	return subjectKey ? accountKey(subjectKey) : null;
+}
+
+/**
+ * Key under which the quota usage of a request is budgeted:
+ * its Google account if known, otherwise its (hashed) quota session
+ */
+export function getQuotaUserKey(cookies: Cookies): string | null {
+	const account = getAccountKey(cookies);
+	if (account) return account;
+
+	const sessionId = cookies.get('quota_session');
+	return sessionId ? `session:${hashValue(sessionId)}` : null;
+}
+
+/**
+ * Check if a token or quota session ID belongs to a revoked account
+ */
+export function isRevoked(value: string | undefined): boolean {
+	if (!value) return false;
+	const expiresAt = registry.revoked[hashValue(value)];
+	return expiresAt !== undefined && expiresAt > Date.now();
+}
+
+/**
+ * Clear the auth cookies of a request if any of them was revoked
+ * Returns true if the request carried revoked cookies
+ */
+export function clearRevokedCookies(cookies: Cookies): boolean {
+	if (Object.keys(registry.revoked).length === 0) return false;
+	const revoked = isSessionRevoked(cookies) || isRevoked(cookies.get('quota_session'));
+	if (!revoked) return false;
+
+	for (const name of AUTH_COOKIES) {
+		cookies.delete(name, { path: '/' });
+	}
+	privacyLogger.info('Rejected revoked session cookies');
+	return true;
+}
+
+/**
+ * Revoke everything issued to a Google account:
+ * wipes its vault sessions, ends its quota and deletion sessions and cancels its server-side jobs
+ */
+export function revokeSubject(subject: string, reason: RevocationReason): { credentials: number; sessions: number; jobs: number } {
+	return revokeSubjectKey(hashValue(subject), reason);
+}
+
+/**
+ * Revoke the account that a refresh token from a token-revoked event was issued to
+ * Supports the 'prefix' and 'hash_base64_sha512_sha512' token identifiers
+ */
+export function revokeByTokenIdentifier(algorithm: string, token: string, reason: RevocationReason): { credentials: number; sessions: number; jobs: number } | null {
+	const prefixHash = algorithm === 'prefix' ? hashValue(token) : null;
+	for (const [key, entry] of Object.entries(registry.subjects)) {
+		const match = entry.credentials.some(c =>
+			c.kind === 'refresh' && (algorithm === 'hash_base64_sha512_sha512' ? c.sha512 === token : c.prefixHash === prefixHash)
+		);
+		if (match) return revokeSubjectKey(key, reason);
+	}
+	return null;
+}
+
+function revokeSubjectKey(subjectKey: string, reason: RevocationReason): { credentials: number; sessions: number; jobs: number } {
+	pruneExpired();
+	const entry = registry.subjects[subjectKey];
+	if (!entry) {
+		privacyLogger.info(`RISC ${reason}: no server-side state for this account`);
+		return { credentials: 0, sessions: 0, jobs: 0 };
+	}
+
+	const credentialHashes = new Set(entry.credentials.map(c => c.hash));
+	for (const credential of entry.credentials) {
+		registry.revoked[credential.hash] = credential.expiresAt;
+	}
+	const vaultSessions = revokeSessionsWhere(session =>
+		[session.accessToken, session.refreshToken].some(token => !!token && credentialHashes.has(hashValue(token)))
+	);
+
+	const sessionIds = Object.keys(entry.quotaSessions);
+	for (const sessionId of sessionIds) {
+		endDeletionSession(sessionId);
+		unregisterUser(sessionId);
+		registry.revoked[hashValue(sessionId)] = entry.quotaSessions[sessionId];
+	}
+
+	// Deletion jobs are owned by the account
+	const jobs = revokeDeletionJobs(accountKey(subjectKey));
+
+	delete registry.subjects[subjectKey];
+	saveRegistryToDisk();
+
+	privacyLogger.info(`RISC ${reason}: revoked ${entry.credentials.length} credential(s) in ${vaultSessions} session(s), ${sessionIds.length} quota session(s) and ${jobs} deletion job(s)`);
+	return { credentials: entry.credentials.length, sessions: vaultSessions + sessionIds.length, jobs };
+}
@@ -0,0 +1,115 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Cookies } from '@sveltejs/kit';
+
+// The vault persists to DATA_DIR and derives its key from SESSION_ENCRYPTION_KEY
+const dataDir = mkdtempSync(join(tmpdir(), 'session-vault-'));
+process.env.DATA_DIR = dataDir;
+process.env.SESSION_ENCRYPTION_KEY = 'test-encryption-key';
+vi.mock('$env/dynamic/private', () => ({ env: process.env }));
+const vault = await import('./sessionVault');
+
+const url = new URL('https://example.com/');
+
+function createCookies(): Cookies {
+	const values = new Map<string, string>();
+	return {
+		get: (name: string) => values.get(name),
+		set: (name: string, value: string) => void values.set(name, value),
+		delete: (name: string) => void values.delete(name)
+	} as unknown as Cookies;
+}
+
+afterAll(() => {
+	rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('sealSecret / openSecret', () => {
+	it('round-trips a value under the same context', () => {
+		const sealed = vault.sealSecret('deletion-job:1', 'refresh-token');
+		expect(sealed.data).not.toContain('refresh-token');
+		expect(vault.openSecret('deletion-job:1', sealed)).toBe('refresh-token');
+	});
+
+	it('uses a fresh IV for every value', () => {
+		expect(vault.sealSecret('ctx', 'value').iv).not.toBe(vault.sealSecret('ctx', 'value').iv);
+	});
+
+	it('rejects a value opened under another context', () => {
+		const sealed = vault.sealSecret('deletion-job:1', 'refresh-token');
+		expect(vault.openSecret('deletion-job:2', sealed)).toBeNull();
+	});
+
+	it('rejects tampered ciphertexts and tags', () => {
+		const sealed = vault.sealSecret('ctx', 'refresh-token');
+		const data = Buffer.from(sealed.data, 'base64');
+		data[0] ^= 1;
+		expect(vault.openSecret('ctx', { ...sealed, data: data.toString('base64') })).toBeNull();
+		expect(vault.openSecret('ctx', { ...sealed, tag: Buffer.alloc(16).toString('base64') })).toBeNull();
+	});
+});
+
+describe('sessions', () => {
+	it('stores tokens encrypted and returns them for the session cookie', () => {
+		const cookies = createCookies();
+		vault.createSession(cookies, url, { accessToken: 'ya29.access', expiresIn: 3600, refreshToken: '1//refresh' });
+
+		expect(cookies.get(vault.SESSION_COOKIE)).toBeTruthy();
+		expect(vault.getSession(cookies)).toMatchObject({ accessToken: 'ya29.access', refreshToken: '1//refresh' });
+
+		const stored = readFileSync(join(dataDir, 'session-vault.json'), 'utf-8');
+		expect(stored).not.toContain('ya29.access');
+		expect(stored).not.toContain('1//refresh');
+	});
+
+	it('rejects entries swapped on disk', async () => {
+		const first = createCookies();
+		const second = createCookies();
+		vault.createSession(first, url, { accessToken: 'ya29.first', expiresIn: 3600, refreshToken: '1//first' });
+		vault.createSession(second, url, { accessToken: 'ya29.second', expiresIn: 3600, refreshToken: '1//second' });
+
+		// Move the second session's ciphertext under the first session's key
+		const file = join(dataDir, 'session-vault.json');
+		const entries = JSON.parse(readFileSync(file, 'utf-8')) as Record<string, object>;
+		const [firstKey, secondKey] = Object.keys(entries).slice(-2);
+		entries[firstKey] = entries[secondKey];
+		writeFileSync(file, JSON.stringify(entries));
+
+		vi.resetModules();
+		const reloaded = await import('./sessionVault');
+		expect(reloaded.getSession(first)).toBeNull();
+		expect(reloaded.getSession(second)).toMatchObject({ accessToken: 'ya29.second' });
+	});
+});
+
+describe('dropLegacyTokenCookies', () => {
+	it('drops raw token cookies instead of moving them into the vault', () => {
+		const cookies = createCookies();
+		cookies.set('youtube_access_token', 'ya29.legacy', { path: '/' });
+		cookies.set('youtube_refresh_token', '1//legacy', { path: '/' });
+		cookies.set('youtube_auth_status', 'connected', { path: '/' });
+
+		vault.dropLegacyTokenCookies(cookies);
+
+		expect(cookies.get('youtube_access_token')).toBeUndefined();
+		expect(cookies.get('youtube_refresh_token')).toBeUndefined();
+		expect(cookies.get('youtube_auth_status')).toBeUndefined();
+		expect(cookies.get(vault.SESSION_COOKIE)).toBeUndefined();
+		expect(readFileSync(join(dataDir, 'session-vault.json'), 'utf-8')).not.toContain('legacy');
+	});
+
+	it('keeps the sign-in status of an existing session', () => {
+		const cookies = createCookies();
+		vault.createSession(cookies, url, { accessToken: 'ya29.current', expiresIn: 3600, refreshToken: '1//current' });
+		cookies.set('youtube_auth_status', 'connected', { path: '/' });
+		cookies.set('youtube_refresh_token', '1//legacy', { path: '/' });
+
+		vault.dropLegacyTokenCookies(cookies);
+
+		expect(cookies.get('youtube_refresh_token')).toBeUndefined();
+		expect(cookies.get('youtube_auth_status')).toBe('connected');
+		expect(vault.getSession(cookies)).toMatchObject({ refreshToken: '1//current' });
+	});
+});
@@ -0,0 +1,310 @@
+// Encrypted server-side session store for developer OAuth mode
+// The browser only holds an opaque session ID cookie; Google access and refresh tokens
+// stay on the server, encrypted with AES-256-GCM under a key from SESSION_ENCRYPTION_KEY
+// Persists sessions to disk so users stay signed in across restarts
+
+import type { Cookies } from '@sveltejs/kit';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { privacyLogger, sessionVaultConfig } from './config';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+const VAULT_FILE = join(DATA_DIR, 'session-vault.json');
+
+export const SESSION_COOKIE = 'cs_session';
+// Cookies used before the vault existed, dropped on the next request
+const LEGACY_ACCESS_COOKIE = 'youtube_access_token';
+const LEGACY_REFRESH_COOKIE = 'youtube_refresh_token';
+
+// Sessions with a refresh token live as long as the old refresh token cookie did
+const SESSION_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Decrypted session contents - never sent to the browser
+ */
+export interface VaultSession {
+	accessToken?: string;
+	accessTokenExpiresAt?: number;
+	refreshToken?: string;
+	createdAt: number;
+	expiresAt: number;
+}
+
+/**
+ * AES-256-GCM ciphertext with its IV and authentication tag (base64)
+ */
+export interface SealedSecret {
+	iv: string;
+	tag: string;
+	data: string;
+}
+
+/**
+ * Encrypted session as stored on disk, keyed by a hash of the session ID
+ */
+interface EncryptedEntry extends SealedSecret {
+	expiresAt: number;
+	revokedAt?: number;      // Tombstone of a session revoked via RISC (no data left)
+}
+
+// In-memory state
+let vaultKey: Buffer | null = null;
+const entries = new Map<string, EncryptedEntry>(loadVaultFromDisk());
+
+/**
+ * Load encrypted sessions from disk
+ */
+function loadVaultFromDisk(): [string, EncryptedEntry][] {
+	try {
+		if (existsSync(VAULT_FILE)) {
+			const loaded = JSON.parse(readFileSync(VAULT_FILE, 'utf-8')) as Record<string, EncryptedEntry>;
+			const now = Date.now();
+			const valid = Object.entries(loaded).filter(([, entry]) => entry.expiresAt > now);
+			privacyLogger.info(`Loaded ${valid.length} session(s) from the session vault`);
+			return valid;
+		}
+	} catch (e) {
+		privacyLogger.error(`Failed to load session vault from disk: ${e instanceof Error ? e.message : 'Unknown error'}`);
+	}
+	return [];
+}
+
+/**
+ * Save encrypted sessions to disk (readable by the server user only)
+ */
+function saveVaultToDisk(): void {
+	try {
+		const dir = dirname(VAULT_FILE);
+		if (!existsSync(dir)) {
+			mkdirSync(dir, { recursive: true });
+		}
+		writeFileSync(VAULT_FILE, JSON.stringify(Object.fromEntries(entries), null, 2), { encoding: 'utf-8', mode: 0o600 });
+	} catch (e) {
+		privacyLogger.error(`Failed to save session vault to disk: ${e instanceof Error ? e.message : 'Unknown error'}`);
+	}
+}
+
+/**
+ * Get the AES-256 key (derived once from SESSION_ENCRYPTION_KEY)
+ */
+function getKey(): Buffer {
+	if (!vaultKey) {
+		const secret = sessionVaultConfig.encryptionKey;
+		if (secret) {
+			vaultKey = createHash('sha256').update(secret).digest();
+		} else {
+			privacyLogger.warn('SESSION_ENCRYPTION_KEY is not set - using a random key, sessions will not survive restarts');
+			vaultKey = randomBytes(32);
+		}
+	}
+	return vaultKey;
+}
+
+function entryKey(sessionId: string): string {
+	return createHash('sha256').update(sessionId).digest('hex');
+}
+
+/**
+ * Encrypt a value with the vault key
+ * The context is authenticated too, so a ciphertext can't be moved to another record on disk
+ */
+export function sealSecret(context: string, plaintext: string): SealedSecret {
+	const iv = randomBytes(12);
+	const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+	cipher.setAAD(Buffer.from(context));
+	const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+	return {
+		iv: iv.toString('base64'),
+		tag: cipher.getAuthTag().toString('base64'),
+		data: data.toString('base64')
+	};
+}
+
+/**
+ * Decrypt a value sealed with sealSecret under the same context
+ * Returns null if the key changed or the value or context doesn't match
+ */
+export function openSecret(context: string, sealed: SealedSecret): string | null {
+	try {
+		const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(sealed.iv, 'base64'));
+		decipher.setAAD(Buffer.from(context));
+		decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+		const data = Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]);
+		return data.toString('utf-8');
+	} catch {
+		return null;
+	}
+}
+
+function encrypt(key: string, session: VaultSession): EncryptedEntry {
+	// Bind the ciphertext to its entry so entries can't be swapped on disk
+	return { ...sealSecret(key, JSON.stringify(session)), expiresAt: session.expiresAt };
+}
+
+function decrypt(key: string, entry: EncryptedEntry): VaultSession | null {
+	// Wrong key (changed or not persisted) or tampered entry
+	const data = openSecret(key, entry);
+	return data === null ? null : JSON.parse(data) as VaultSession;
+}
+
+/**
+ * Remove expired sessions
+ */
+function pruneExpired(): void {
+	const now = Date.now();
+	for (const [key, entry] of entries) {
+		if (entry.expiresAt <= now) entries.delete(key);
+	}
+}
+
+function setSessionCookie(cookies: Cookies, url: URL, sessionId: string, expiresAt: number): void {
+	cookies.set(SESSION_COOKIE, sessionId, {
+		path: '/',
+		httpOnly: true,
+		secure: url.protocol === 'https:',
+		sameSite: 'lax',
+		maxAge: Math.max(1, Math.floor((expiresAt - Date.now()) / 1000))
+	});
+}
+
+/**
+ * Start a new session for freshly issued tokens and set the session cookie
+ * Replaces the request's previous session, if any
+ */
+export function createSession(
+	cookies: Cookies,
+	url: URL,
+	tokens: { accessToken: string; expiresIn: number; refreshToken?: string }
+): void {
+	pruneExpired();
+	const previous = cookies.get(SESSION_COOKIE);
+	if (previous) entries.delete(entryKey(previous));
+
+	const now = Date.now();
+	const accessTokenExpiresAt = now + tokens.expiresIn * 1000;
+	const session: VaultSession = {
+		accessToken: tokens.accessToken,
+		accessTokenExpiresAt,
+		refreshToken: tokens.refreshToken,
+		createdAt: now,
+		// Without a refresh token the session is useless once the access token expires
+		expiresAt: tokens.refreshToken ? now + SESSION_LIFETIME_MS : accessTokenExpiresAt
+	};
+
+	const sessionId = randomBytes(32).toString('base64url');
+	const key = entryKey(sessionId);
+	entries.set(key, encrypt(key, session));
+	saveVaultToDisk();
+	setSessionCookie(cookies, url, sessionId, session.expiresAt);
+}
+
+/**
+ * Get the session of a request, or null if there is none (or it expired)
+ */
+export function getSession(cookies: Cookies): VaultSession | null {
+	const sessionId = cookies.get(SESSION_COOKIE);
+	if (!sessionId) return null;
+
+	const key = entryKey(sessionId);
+	const entry = entries.get(key);
+	if (!entry || entry.revokedAt || entry.expiresAt <= Date.now()) return null;
+
+	const session = decrypt(key, entry);
+	if (!session) {
+		entries.delete(key);
+		saveVaultToDisk();
+	}
+	return session;
+}
+
+/**
+ * Get the access token of a session if it hasn't expired yet
+ */
+export function getValidAccessToken(session: VaultSession | null): string | null {
+	if (!session?.accessToken || !session.accessTokenExpiresAt) return null;
+	return session.accessTokenExpiresAt > Date.now() ? session.accessToken : null;
+}
+
+/**
+ * Store a new access token (after a server-side refresh)
+ */
+export function updateAccessToken(cookies: Cookies, accessToken: string, expiresIn: number): void {
+	updateSession(cookies, session => ({
+		...session,
+		accessToken,
+		accessTokenExpiresAt: Date.now() + expiresIn * 1000
+	}));
+}
+
+/**
+ * Forget the access token but keep the refresh token (soft logout)
+ */
+export function clearAccessToken(cookies: Cookies): void {
+	updateSession(cookies, ({ accessToken: _accessToken, accessTokenExpiresAt: _expiresAt, ...session }) => session);
+}
+
+function updateSession(cookies: Cookies, change: (session: VaultSession) => VaultSession): void {
+	const sessionId = cookies.get(SESSION_COOKIE);
+	const session = getSession(cookies);
+	if (!sessionId || !session) return;
+
+	const key = entryKey(sessionId);
+	entries.set(key, encrypt(key, change(session)));
+	saveVaultToDisk();
+}
+
+/**
+ * Delete the session of a request and its cookie (full logout)
+ */
+export function destroySession(cookies: Cookies): void {
+	const sessionId = cookies.get(SESSION_COOKIE);
+	if (sessionId && entries.delete(entryKey(sessionId))) {
+		saveVaultToDisk();
+	}
+	cookies.delete(SESSION_COOKIE, { path: '/' });
+}
+
+/**
+ * Revoke all sessions matching a predicate (tokens revoked via RISC)
+ * The tokens are wiped, a tombstone remains so the cookie can be recognized as revoked
+ * Returns the number of revoked sessions
+ */
+export function revokeSessionsWhere(predicate: (session: VaultSession) => boolean): number {
+	let revoked = 0;
+	for (const [key, entry] of entries) {
+		if (entry.revokedAt) continue;
+		const session = decrypt(key, entry);
+		if (session && predicate(session)) {
+			entries.set(key, { iv: '', tag: '', data: '', expiresAt: entry.expiresAt, revokedAt: Date.now() });
+			revoked++;
+		}
+	}
+	if (revoked > 0) saveVaultToDisk();
+	return revoked;
+}
+
+/**
+ * Check if the session cookie of a request belongs to a revoked session
+ */
+export function isSessionRevoked(cookies: Cookies): boolean {
+	const sessionId = cookies.get(SESSION_COOKIE);
+	return !!sessionId && !!entries.get(entryKey(sessionId))?.revokedAt;
+}
+
+/**
+ * Remove the raw token cookies used by older versions
+ * Their tokens were never linked to a Google account, so RISC events couldn't revoke them
+ * if they were moved into the vault - the user signs in again instead
+ */
+export function dropLegacyTokenCookies(cookies: Cookies): void {
+	if (!cookies.get(LEGACY_ACCESS_COOKIE) && !cookies.get(LEGACY_REFRESH_COOKIE)) return;
+
+	cookies.delete(LEGACY_ACCESS_COOKIE, { path: '/' });
+	cookies.delete(LEGACY_REFRESH_COOKIE, { path: '/' });
+	if (!getSession(cookies)) {
+		// Otherwise the page would think it's still signed in
+		cookies.delete('youtube_auth_status', { path: '/' });
+	}
+	privacyLogger.info('Dropped legacy token cookies, the user has to sign in again');
+}
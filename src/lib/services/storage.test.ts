@@ -0,0 +1,149 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { openDB } from 'idb';
+import {
+	saveComments,
+	deleteComments,
+	queryComments,
+	streamComments,
+	searchCommentsInDB,
+	getCommentCursor,
+	getFilteredCommentIds
+} from './storage';
+import type { YouTubeComment } from '$lib/types/comment';
+
+function comment(id: string, overrides: Partial<YouTubeComment> = {}): YouTubeComment {
+	return {
+		id,
+		textDisplay: '',
+		textOriginal: '',
+		authorDisplayName: 'Me',
+		authorProfileImageUrl: '',
+		authorChannelUrl: '',
+		likeCount: 0,
+		publishedAt: '2020-06-15T12:00:00Z',
+		updatedAt: '2020-06-15T12:00:00Z',
+		videoId: 'video-1',
+		canRate: true,
+		viewerRating: 'none',
+		...overrides
+	};
+}
+
+// Several comments share a like count, so the comment ID breaks ties in the sort index
+const stored = [
+	comment('a', { publishedAt: '2020-01-01T00:00:00Z', likeCount: 5 }),
+	comment('b', { publishedAt: '2020-02-01T00:00:00Z', likeCount: 5, labels: ['api_error'] }),
+	comment('c', { publishedAt: '2020-03-01T00:00:00Z', likeCount: 1, videoChannelId: 'channel-1' }),
+	comment('d', { publishedAt: '2020-04-01T00:00:00Z', likeCount: 5 }),
+	comment('e', { publishedAt: '2020-05-01T00:00:00Z', likeCount: 9, videoChannelId: 'channel-1' })
+];
+
+const ids = (comments: YouTubeComment[]) => comments.map(c => c.id);
+
+beforeAll(async () => {
+	await saveComments(stored);
+});
+
+describe('queryComments', () => {
+	it('pages forward and back with keyset cursors', async () => {
+		const first = await queryComments({ limit: 2 });
+		expect(ids(first.comments)).toEqual(['e', 'd']);
+		expect(first).toMatchObject({ total: 5, hasMore: true });
+
+		const second = await queryComments({ limit: 2, after: getCommentCursor(first.comments[1]) });
+		expect(ids(second.comments)).toEqual(['c', 'b']);
+
+		const last = await queryComments({ limit: 2, after: getCommentCursor(second.comments[1]) });
+		expect(ids(last.comments)).toEqual(['a']);
+		expect(last.hasMore).toBe(false);
+
+		const previous = await queryComments({ limit: 2, before: getCommentCursor(last.comments[0]) });
+		expect(ids(previous.comments)).toEqual(['c', 'b']);
+	});
+
+	it('keeps comments with the same sort key in order of their ID across pages', async () => {
+		const pages: string[][] = [];
+		let after;
+		for (let i = 0; i < 3; i++) {
+			const page = await queryComments({ sortBy: 'likeCount', sortOrder: 'asc', limit: 2, after });
+			pages.push(ids(page.comments));
+			after = getCommentCursor(page.comments[page.comments.length - 1], 'likeCount');
+		}
+		expect(pages).toEqual([['c', 'a'], ['b', 'd'], ['e']]);
+
+		const descending = await queryComments({ sortBy: 'likeCount', limit: 2, after: getCommentCursor(stored[3], 'likeCount') });
+		expect(ids(descending.comments)).toEqual(['b', 'a']);
+	});
+
+	it('filters through the sort range and secondary indexes', async () => {
+		const liked = await queryComments({ sortBy: 'likeCount', minLikes: 5, maxLikes: 5 });
+		expect(ids(liked.comments)).toEqual(['d', 'b', 'a']);
+		expect(liked.total).toBe(3);
+
+		const channel = await queryComments({ channelId: 'channel-1', limit: 1 });
+		expect(ids(channel.comments)).toEqual(['e']);
+		expect(channel).toMatchObject({ total: 2, hasMore: true });
+
+		const labelled = await queryComments({ labels: ['api_error'], minLikes: 5 });
+		expect(ids(labelled.comments)).toEqual(['b']);
+
+		expect((await getFilteredCommentIds({ minLikes: 5 })).sort()).toEqual(['a', 'b', 'd', 'e']);
+	});
+});
+
+describe('streamComments', () => {
+	it('visits every matching comment once', async () => {
+		const batches: string[][] = [];
+		await streamComments(2, batch => void batches.push(ids(batch)), { sortBy: 'publishedAt', sortOrder: 'asc' });
+		expect(batches).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+	});
+});
+
+describe('searchCommentsInDB', () => {
+	const searchable = [
+		comment('s1', { textOriginal: 'Café au lait is great, just great' }),
+		comment('s2', { textOriginal: 'great, great, GREAT cafeteria' }),
+		comment('s3', { textOriginal: 'Über cool', videoTitle: 'Great cooking' })
+	];
+
+	// Terms stored in the inverted index for a comment
+	async function indexedTerms(commentId: string): Promise<string[]> {
+		const database = await openDB('commentslash-db');
+		const keys = await database.getAllKeys('searchIndex') as [string, string][];
+		database.close();
+		return keys.filter(([, id]) => id === commentId).map(([term]) => term).sort();
+	}
+
+	beforeAll(async () => {
+		await saveComments(searchable);
+	});
+
+	it('matches word prefixes regardless of case and diacritics', async () => {
+		expect([...await searchCommentsInDB('cafe')].sort()).toEqual(['s1', 's2']);
+		expect([...await searchCommentsInDB('CAFÉ AU')]).toEqual(['s1']);
+		expect([...await searchCommentsInDB('uber')]).toEqual(['s3']);
+		expect([...await searchCommentsInDB('ool')]).toEqual([]);
+	});
+
+	it('ranks comments by how often the terms occur', async () => {
+		expect([...await searchCommentsInDB('great')]).toEqual(['s2', 's1', 's3']);
+		expect([...await searchCommentsInDB('great', 'comments')]).toEqual(['s2', 's1']);
+
+		const ranked = await queryComments({ searchQuery: 'great', sortBy: 'relevance' });
+		expect(ids(ranked.comments)).toEqual(['s2', 's1', 's3']);
+	});
+
+	it('keeps one posting per term and comment in sync with edits and deletes', async () => {
+		expect(await indexedTerms('s3')).toEqual(['t:cool', 't:uber', 'v:cooking', 'v:great']);
+
+		await saveComments([{ ...searchable[2], textOriginal: 'Totally cool' }]);
+		expect(await indexedTerms('s3')).toEqual(['t:cool', 't:totally', 'v:cooking', 'v:great']);
+		expect([...await searchCommentsInDB('uber')]).toEqual([]);
+		expect([...await searchCommentsInDB('totally')]).toEqual(['s3']);
+
+		await deleteComments(['s3']);
+		expect(await indexedTerms('s3')).toEqual([]);
+		expect([...await searchCommentsInDB('great')]).toEqual(['s2', 's1']);
+	});
+});
@@ -1,8 +1,16 @@
-import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import { openDB, type DBSchema, type IDBPDatabase, type IDBPObjectStore, type StoreNames } from 'idb';
 import type { YouTubeComment, CommentLabel } from '$lib/types/comment';
+import type { SelectionRule } from '$lib/types/rule';
+import type { JournalEntry } from '$lib/types/journal';
+import type { ProtectionEntry } from '$lib/types/protection';
+import type { DeletionRecord, DeletionRunState, TrashEntry } from '$lib/types/deletion';
+import type { SearchMode, SearchNode } from '$lib/types/search';
+import { parseSearchQuery, matchesSearchQuery, scoreSearchMatch, getSearchFields } from '$lib/utils/searchQuery';
+import { getIndexTerms, getFieldText, INDEX_FIELDS, type IndexedField } from '$lib/utils/textIndex';
+import { getRepliesFromOthers } from '$lib/utils/replies';
 
 const DB_NAME = 'commentslash-db';
-const DB_VERSION = 1;
+const DB_VERSION = 6;
 const STORE_NAME = 'comments';
 
 // Re-enrichment cooldown period in hours (users can re-enrich once per day)
@@ -26,6 +34,10 @@ const getStaleWarningDays = (): number => {
 	return 14; // Default: 14 days
 };
 
+// Metadata keys that are user configuration rather than cached data.
+// They never expire and survive a comment wipe (clearCommentsOnly).
+const PRESERVED_METADATA_KEYS = ['quota', 'selectionRules', 'protectionList'];
+
 // Get TTL in milliseconds
 const getTTL_MS = (): number => getRetentionDays() * 24 * 60 * 60 * 1000;
 
@@ -42,15 +54,28 @@ export const storageConfig = {
 	}
 };
 
+// Stored comment record. Sort keys are copied to the top level (with defaults)
+// so every record appears in the sort indexes, even if the comment lacks the field.
+interface StoredComment {
+	data: YouTubeComment;
+	timestamp: number;
+	publishedAt: string;
+	likeCount: number;
+	textLength: number;
+}
+
 interface CommentSlashDB extends DBSchema {
 	comments: {
 		key: string;
-		value: {
-			data: YouTubeComment;
-			timestamp: number;
-		};
+		value: StoredComment;
 		indexes: {
 			'by-timestamp': number;
+			'by-publishedAt': string;
+			'by-likeCount': number;
+			'by-textLength': number;
+			'by-videoId': string;
+			'by-channelId': string;
+			'by-labels': string;
 		};
 	};
 	metadata: {
@@ -61,15 +86,45 @@ interface CommentSlashDB extends DBSchema {
 			timestamp: number;
 		};
 	};
+	// Inverted index for full-text search: one record per "<field>:<token>" term and comment,
+	// so updating a comment only touches its own postings
+	searchIndex: {
+		key: [string, string];
+		value: {
+			term: string;
+			commentId: string;
+			tf: number;       // Term frequency
+		};
+	};
+	// Operation journal for undoing local destructive actions
+	journal: {
+		key: string;
+		value: JournalEntry;
+		indexes: {
+			'by-timestamp': number;
+		};
+	};
+	// Deletion receipts (never expire, only cleared with all data)
+	deletionHistory: {
+		key: string;
+		value: DeletionRecord;
+		indexes: {
+			'by-attemptedAt': number;
+			'by-sessionId': string;
+		};
+	};
 }
 
+type UpgradeStore<Name extends StoreNames<CommentSlashDB>> =
+	IDBPObjectStore<CommentSlashDB, StoreNames<CommentSlashDB>[], Name, 'versionchange'>;
+
 let db: IDBPDatabase<CommentSlashDB> | null = null;
 
 async function getDB(): Promise<IDBPDatabase<CommentSlashDB>> {
 	if (db) return db;
 
 	db = await openDB<CommentSlashDB>(DB_NAME, DB_VERSION, {
-		upgrade(database) {
+		upgrade(database, oldVersion, _newVersion, transaction) {
 			// Comments store
 			if (!database.objectStoreNames.contains('comments')) {
 				const commentStore = database.createObjectStore('comments', { keyPath: 'data.id' });
@@ -80,57 +135,201 @@ async function getDB(): Promise<IDBPDatabase<CommentSlashDB>> {
 			if (!database.objectStoreNames.contains('metadata')) {
 				database.createObjectStore('metadata', { keyPath: 'key' });
 			}
+
+			// Version 2: query indexes for cursor-based pagination
+			if (oldVersion < 2) {
+				const commentStore = transaction.objectStore('comments');
+				commentStore.createIndex('by-publishedAt', 'publishedAt');
+				commentStore.createIndex('by-likeCount', 'likeCount');
+				commentStore.createIndex('by-textLength', 'textLength');
+				commentStore.createIndex('by-videoId', 'data.videoId');
+				commentStore.createIndex('by-channelId', 'data.videoChannelId');
+				commentStore.createIndex('by-labels', 'data.labels', { multiEntry: true });
+
+				// Backfill sort keys on records written by version 1
+				if (oldVersion > 0) {
+					backfillSortKeys(commentStore);
+				}
+			}
+
+			// Version 4: operation journal
+			if (oldVersion < 4) {
+				const journalStore = database.createObjectStore('journal', { keyPath: 'id' });
+				journalStore.createIndex('by-timestamp', 'timestamp');
+			}
+
+			// Version 5: deletion receipts
+			if (oldVersion < 5) {
+				const historyStore = database.createObjectStore('deletionHistory', { keyPath: 'id' });
+				historyStore.createIndex('by-attemptedAt', 'attemptedAt');
+				historyStore.createIndex('by-sessionId', 'sessionId');
+			}
+
+			// Version 6: full-text inverted index with one record per term and comment
+			// (version 3 kept one record per term holding all its postings, which grew with every write)
+			if (oldVersion < 6) {
+				if (database.objectStoreNames.contains('searchIndex')) {
+					database.deleteObjectStore('searchIndex');
+				}
+				const indexStore = database.createObjectStore('searchIndex', { keyPath: ['term', 'commentId'] });
+				if (oldVersion > 0) {
+					backfillSearchIndex(transaction.objectStore('comments'), indexStore);
+				}
+			}
 		}
 	});
 
 	return db;
 }
 
+// Build the stored record for a comment, including its indexed sort keys
+function toStoredComment(comment: YouTubeComment, timestamp: number): StoredComment {
+	return {
+		data: comment,
+		timestamp,
+		publishedAt: comment.publishedAt || '',
+		likeCount: comment.likeCount || 0,
+		textLength: comment.textOriginal?.length ?? 0
+	};
+}
+
+// Runs inside the upgrade transaction (not awaited - the transaction stays open while requests are pending)
+async function backfillSortKeys(store: UpgradeStore<'comments'>): Promise<void> {
+	let cursor = await store.openCursor();
+	while (cursor) {
+		await cursor.update(toStoredComment(cursor.value.data, cursor.value.timestamp));
+		cursor = await cursor.continue();
+	}
+}
+
+// Build the search index for all existing comments (also runs inside the upgrade transaction)
+async function backfillSearchIndex(commentStore: UpgradeStore<'comments'>, indexStore: UpgradeStore<'searchIndex'>): Promise<void> {
+	const changes: PostingChanges = new Map();
+	let cursor = await commentStore.openCursor();
+	while (cursor) {
+		diffIndexTerms(changes, cursor.value.data.id, undefined, cursor.value.data);
+		cursor = await cursor.continue();
+	}
+	await applyPostingChanges(indexStore, changes);
+}
+
+// Pending search index updates: term -> comment ID -> new term frequency (0 removes the posting)
+type PostingChanges = Map<string, Map<string, number>>;
+
+// Record the index changes for replacing one version of a comment with another
+// (undefined old = new comment, undefined new = deleted comment)
+function diffIndexTerms(
+	changes: PostingChanges,
+	id: string,
+	oldComment: YouTubeComment | undefined,
+	newComment: YouTubeComment | undefined
+): void {
+	// Refetched comments mostly differ in counts and labels only - skip tokenizing them
+	if (oldComment && newComment && (Object.keys(INDEX_FIELDS) as IndexedField[]).every(
+		field => getFieldText(oldComment, field) === getFieldText(newComment, field)
+	)) {
+		return;
+	}
+
+	const oldTerms = oldComment ? getIndexTerms(oldComment) : new Map<string, number>();
+	const newTerms = newComment ? getIndexTerms(newComment) : new Map<string, number>();
+	
+	const setChange = (term: string, tf: number) => {
+		let updates = changes.get(term);
+		if (!updates) {
+			updates = new Map();
+			changes.set(term, updates);
+		}
+		updates.set(id, tf);
+	};
+	
+	for (const term of oldTerms.keys()) {
+		if (!newTerms.has(term)) setChange(term, 0);
+	}
+	for (const [term, tf] of newTerms) {
+		if (oldTerms.get(term) !== tf) setChange(term, tf);
+	}
+}
+
+// Apply pending changes, writing only the changed postings (no reads needed).
+// Requests are issued together so large imports don't wait on one round trip per posting.
+async function applyPostingChanges(
+	store: Pick<UpgradeStore<'searchIndex'>, 'put' | 'delete'>,
+	changes: PostingChanges
+): Promise<void> {
+	const requests: Promise<unknown>[] = [];
+	for (const [term, updates] of changes) {
+		for (const [commentId, tf] of updates) {
+			requests.push(tf === 0 ? store.delete([term, commentId]) : store.put({ term, commentId, tf }));
+		}
+	}
+	await Promise.all(requests);
+}
+
 export async function cleanExpiredData(): Promise<void> {
 	const database = await getDB();
 	const now = Date.now();
 	const cutoff = now - getTTL_MS();
 
-	// Clean expired comments
-	const tx = database.transaction('comments', 'readwrite');
-	const index = tx.store.index('by-timestamp');
-	let cursor = await index.openCursor();
+	// Clean expired comments and their search index entries
+	const tx = database.transaction(['comments', 'searchIndex'], 'readwrite');
+	const index = tx.objectStore('comments').index('by-timestamp');
+	let cursor = await index.openCursor(IDBKeyRange.upperBound(cutoff, true));
+	const changes: PostingChanges = new Map();
 
 	while (cursor) {
-		if (cursor.value.timestamp < cutoff) {
-			await cursor.delete();
-		}
+		diffIndexTerms(changes, cursor.value.data.id, cursor.value.data, undefined);
+		await cursor.delete();
 		cursor = await cursor.continue();
 	}
 
+	await applyPostingChanges(tx.objectStore('searchIndex'), changes);
 	await tx.done;
+	invalidateQueryCache();
 
-	// Clean expired metadata (except quota which should be preserved)
+	// Clean expired metadata (except preserved keys like quota)
 	const metaTx = database.transaction('metadata', 'readwrite');
 	const metaCursor = await metaTx.store.openCursor();
 
 	let metaCur = metaCursor;
 	while (metaCur) {
-		// Don't delete quota metadata
-		if (metaCur.value.key !== 'quota' && metaCur.value.timestamp < cutoff) {
+		// Don't delete preserved metadata
+		if (!PRESERVED_METADATA_KEYS.includes(metaCur.value.key) && metaCur.value.timestamp < cutoff) {
 			await metaCur.delete();
 		}
 		metaCur = await metaCur.continue();
 	}
 
 	await metaTx.done;
+
+	// Journal entries can only restore comments within the data lifetime
+	const journalTx = database.transaction('journal', 'readwrite');
+	let journalCursor = await journalTx.store.index('by-timestamp').openCursor(IDBKeyRange.upperBound(cutoff, true));
+	while (journalCursor) {
+		await journalCursor.delete();
+		journalCursor = await journalCursor.continue();
+	}
+	await journalTx.done;
 }
 
 export async function saveComments(comments: YouTubeComment[]): Promise<void> {
 	const database = await getDB();
-	const tx = database.transaction('comments', 'readwrite');
+	const tx = database.transaction(['comments', 'searchIndex'], 'readwrite');
+	const store = tx.objectStore('comments');
 	const timestamp = Date.now();
 
-	for (const comment of comments) {
-		await tx.store.put({ data: comment, timestamp });
+	// Diff against the stored versions so the search index is updated incrementally
+	const existing = await Promise.all(comments.map(comment => store.get(comment.id)));
+	const changes: PostingChanges = new Map();
+
+	for (const [i, comment] of comments.entries()) {
+		diffIndexTerms(changes, comment.id, existing[i]?.data, comment);
+		await store.put(toStoredComment(comment, timestamp));
 	}
 
+	await applyPostingChanges(tx.objectStore('searchIndex'), changes);
 	await tx.done;
+	invalidateQueryCache();
 }
 
 export async function loadComments(): Promise<YouTubeComment[]> {
@@ -147,24 +346,41 @@ export async function loadComments(): Promise<YouTubeComment[]> {
 }
 
 export async function deleteComment(commentId: string): Promise<void> {
-	const database = await getDB();
-	await database.delete('comments', commentId);
+	await deleteComments([commentId]);
 }
 
 export async function deleteComments(commentIds: string[]): Promise<void> {
 	const database = await getDB();
-	const tx = database.transaction('comments', 'readwrite');
+	const tx = database.transaction(['comments', 'searchIndex'], 'readwrite');
+	const store = tx.objectStore('comments');
+	const existing = await Promise.all(commentIds.map(id => store.get(id)));
+	const changes: PostingChanges = new Map();
 
-	for (const id of commentIds) {
-		await tx.store.delete(id);
+	for (const [i, id] of commentIds.entries()) {
+		diffIndexTerms(changes, id, existing[i]?.data, undefined);
+		await store.delete(id);
 	}
 
+	await applyPostingChanges(tx.objectStore('searchIndex'), changes);
 	await tx.done;
+	invalidateQueryCache();
+}
+
+/**
+ * Ids of the given comments that are already stored
+ */
+export async function getStoredCommentIds(commentIds: string[]): Promise<Set<string>> {
+	const database = await getDB();
+	const store = database.transaction('comments').store;
+	const keys = await Promise.all(commentIds.map(id => store.getKey(id)));
+	return new Set(commentIds.filter((_, i) => keys[i] !== undefined));
 }
 
 export async function clearAllComments(): Promise<void> {
 	const database = await getDB();
 	await database.clear('comments');
+	await database.clear('searchIndex');
+	invalidateQueryCache();
 }
 
 export async function saveMetadata(key: string, value: unknown): Promise<void> {
@@ -178,8 +394,8 @@ export async function loadMetadata<T>(key: string): Promise<T | null> {
 	
 	if (!result) return null;
 	
-	// Quota and slashQueue should never expire (except when all data is cleaned)
-	if (key === 'quota' || key === 'slashQueue') {
+	// Preserved keys and slashQueue should never expire (except when all data is cleaned)
+	if (PRESERVED_METADATA_KEYS.includes(key) || key === 'slashQueue') {
 		return result.value as T;
 	}
 	
@@ -196,26 +412,38 @@ export async function clearAllData(): Promise<void> {
 	const database = await getDB();
 	await database.clear('comments');
 	await database.clear('metadata');
+	await database.clear('searchIndex');
+	await database.clear('journal');
+	await database.clear('deletionHistory');
+	invalidateQueryCache();
 }
 
 /**
- * Clear all comment data but preserve quota information
+ * Clear all comment data but preserve quota information and saved rules
  * Used for re-importing data without losing quota tracking
+ * The operation journal is kept so the wipe itself can be undone,
+ * and deletion receipts are kept as a permanent record
  */
 export async function clearCommentsOnly(): Promise<void> {
 	const database = await getDB();
 	
-	// Save quota before clearing
-	const quota = await database.get('metadata', 'quota');
+	// Save preserved metadata before clearing
+	const preserved = [];
+	for (const key of PRESERVED_METADATA_KEYS) {
+		const entry = await database.get('metadata', key);
+		if (entry) preserved.push(entry);
+	}
 	
-	// Clear both stores
+	// Clear comment stores and metadata
 	await database.clear('comments');
 	await database.clear('metadata');
+	await database.clear('searchIndex');
 	
-	// Restore quota if it existed
-	if (quota) {
-		await database.put('metadata', quota);
+	// Restore preserved metadata
+	for (const entry of preserved) {
+		await database.put('metadata', entry);
 	}
+	invalidateQueryCache();
 }
 
 /**
@@ -274,6 +502,8 @@ export async function canReenrich(): Promise<{ canReenrich: boolean; hoursUntilA
 export interface SlashQueueData {
 	selectedIds: string[];
 	selectionOrder: string[];
+	deletionRun?: DeletionRunState; // Active (possibly waiting) deletion run
+	trash?: TrashEntry[];           // Confirmed comments waiting for their grace period
 }
 
 /**
@@ -301,6 +531,83 @@ export async function clearSlashQueue(): Promise<void> {
 	await database.delete('metadata', 'slashQueue');
 }
 
+/**
+ * Save selection rules to IndexedDB
+ */
+export async function saveSelectionRules(rules: SelectionRule[]): Promise<void> {
+	await saveMetadata('selectionRules', rules);
+}
+
+/**
+ * Load selection rules from IndexedDB
+ */
+export async function loadSelectionRules(): Promise<SelectionRule[]> {
+	const saved = await loadMetadata<SelectionRule[]>('selectionRules');
+	return saved ?? [];
+}
+
+/**
+ * Save the protection list to IndexedDB (kept when comments are wiped or re-imported)
+ */
+export async function saveProtectionList(entries: ProtectionEntry[]): Promise<void> {
+	await saveMetadata('protectionList', entries);
+}
+
+/**
+ * Load the protection list from IndexedDB
+ */
+export async function loadProtectionList(): Promise<ProtectionEntry[]> {
+	const saved = await loadMetadata<ProtectionEntry[]>('protectionList');
+	return saved ?? [];
+}
+
+/**
+ * Save a journal entry (new operations and entries marked as undone)
+ */
+export async function saveJournalEntry(entry: JournalEntry): Promise<void> {
+	const database = await getDB();
+	await database.put('journal', entry);
+}
+
+/**
+ * Load non-expired journal entries, newest first
+ */
+export async function loadJournal(): Promise<JournalEntry[]> {
+	const database = await getDB();
+	const cutoff = Date.now() - getTTL_MS();
+	const entries = await database.getAllFromIndex('journal', 'by-timestamp', IDBKeyRange.lowerBound(cutoff));
+	return entries.reverse();
+}
+
+/**
+ * Save deletion receipts
+ */
+export async function saveDeletionRecords(records: DeletionRecord[]): Promise<void> {
+	const database = await getDB();
+	const tx = database.transaction('deletionHistory', 'readwrite');
+	for (const record of records) {
+		await tx.store.put(record);
+	}
+	await tx.done;
+}
+
+/**
+ * Load all deletion receipts, newest first
+ */
+export async function loadDeletionHistory(): Promise<DeletionRecord[]> {
+	const database = await getDB();
+	const records = await database.getAllFromIndex('deletionHistory', 'by-attemptedAt');
+	return records.reverse();
+}
+
+/**
+ * Clear all deletion receipts
+ */
+export async function clearDeletionHistory(): Promise<void> {
+	const database = await getDB();
+	await database.clear('deletionHistory');
+}
+
 /**
  * Check if takeout data is stale (older than configured stale warning days)
  */
@@ -372,39 +679,119 @@ export async function refreshDataLifetime(): Promise<void> {
 	}
 	
 	await tx.done;
+	invalidateQueryCache();
 	
 	// Update takeout import timestamp
 	await saveLastTakeoutImport();
 }
 
 /**
- * Search comments in IndexedDB by text query
- * Returns matching comment IDs for efficient filtering
+ * Search comments using the full-text index and the search query language
+ * Returns matching comment IDs ranked by term frequency (best match first)
  */
-export async function searchCommentsInDB(query: string): Promise<Set<string>> {
+export async function searchCommentsInDB(query: string, mode: SearchMode = 'all'): Promise<Set<string>> {
 	const database = await getDB();
-	const now = Date.now();
-	const cutoff = now - getTTL_MS();
-	const lowerQuery = query.toLowerCase();
-	const matchingIds = new Set<string>();
-
-	const all = await database.getAll('comments');
+	const cutoff = Date.now() - getTTL_MS();
+	const searchAst = parseSearchQuery(query).root;
 	
-	for (const item of all) {
-		// Skip expired items
-		if (item.timestamp < cutoff) continue;
-		
-		const comment = item.data;
-		// Search in comment text and video title
-		const matchesText = comment.textOriginal.toLowerCase().includes(lowerQuery);
-		const matchesVideo = comment.videoTitle?.toLowerCase().includes(lowerQuery);
-		
-		if (matchesText || matchesVideo) {
-			matchingIds.add(comment.id);
+	if (!searchAst) return new Set();
+	
+	const matches = (record: StoredComment) =>
+		record.timestamp >= cutoff && matchesSearchQuery(searchAst, record.data, mode);
+	
+	const candidates = await findSearchCandidates(database, searchAst, mode);
+	const records = candidates
+		? await getRecordsById(database, candidates, matches)
+		: await collectAllRecords(database, matches);
+	
+	return new Set(rankBySearchScore(records, searchAst, mode).map(record => record.data.id));
+}
+
+/**
+ * Find candidate comment IDs for a search query through the inverted index.
+ * The result is a superset of the matches (callers still evaluate the query),
+ * or null when the query has no indexable terms to narrow by.
+ */
+async function findSearchCandidates(
+	database: IDBPDatabase<CommentSlashDB>,
+	node: SearchNode,
+	mode: SearchMode
+): Promise<Set<string> | null> {
+	switch (node.type) {
+		case 'term': {
+			if (node.tokens.length === 0) return null;
+			let result: Set<string> | null = null;
+			for (const token of node.tokens) {
+				// Prefix lookup: every indexed term starting with the token
+				const ids = new Set<string>();
+				for (const field of getSearchFields(node.field, mode)) {
+					const prefix = `${INDEX_FIELDS[field]}:${token}`;
+					// [prefix] sorts before every [term, commentId] key of a term starting with the prefix
+					const keys = await database.getAllKeys('searchIndex', IDBKeyRange.bound([prefix], [prefix + '\uffff']));
+					for (const [, id] of keys) ids.add(id);
+				}
+				result = result ? intersectSets(result, ids) : ids;
+			}
+			return result;
 		}
+		case 'and': {
+			// Any indexable child narrows the whole AND
+			let result: Set<string> | null = null;
+			for (const child of node.children) {
+				const ids = await findSearchCandidates(database, child, mode);
+				if (ids) result = result ? intersectSets(result, ids) : ids;
+			}
+			return result;
+		}
+		case 'or': {
+			// Every branch must be indexable, otherwise any comment could match
+			const result = new Set<string>();
+			for (const child of node.children) {
+				const ids = await findSearchCandidates(database, child, mode);
+				if (!ids) return null;
+				ids.forEach(id => result.add(id));
+			}
+			return result;
+		}
+		default:
+			return null;
 	}
-	
-	return matchingIds;
+}
+
+function intersectSets(a: Set<string>, b: Set<string>): Set<string> {
+	const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+	return new Set([...small].filter(id => large.has(id)));
+}
+
+async function getRecordsById(
+	database: IDBPDatabase<CommentSlashDB>,
+	ids: Set<string>,
+	matches: (record: StoredComment) => boolean
+): Promise<StoredComment[]> {
+	const store = database.transaction('comments', 'readonly').store;
+	const records = await Promise.all(Array.from(ids, id => store.get(id)));
+	return records.filter((record): record is StoredComment => !!record && matches(record));
+}
+
+async function collectAllRecords(
+	database: IDBPDatabase<CommentSlashDB>,
+	matches: (record: StoredComment) => boolean
+): Promise<StoredComment[]> {
+	const records: StoredComment[] = [];
+	let cursor = await database.transaction('comments', 'readonly').store.openCursor();
+	while (cursor) {
+		if (matches(cursor.value)) records.push(cursor.value);
+		cursor = await cursor.continue();
+	}
+	return records;
+}
+
+// Sort by relevance score (highest first), ties by comment ID
+function rankBySearchScore(records: StoredComment[], searchAst: SearchNode, mode: SearchMode): StoredComment[] {
+	const scores = new Map(records.map(record => [record.data.id, scoreSearchMatch(searchAst, record.data, mode)]));
+	return records.sort((a, b) =>
+		(scores.get(b.data.id) ?? 0) - (scores.get(a.data.id) ?? 0) || compareKeys(a.data.id, b.data.id)
+	);
 }
 
 /**
@@ -415,6 +802,10 @@ export interface CommentQueryOptions {
 	// Pagination
 	limit?: number;
 	offset?: number;
+	// Keyset pagination - continue after/before a comment in sort order.
+	// Cheaper than offset on large datasets (see getCommentCursor)
+	after?: CommentCursor;
+	before?: CommentCursor;
 	
 	// Filters
 	labels?: CommentLabel[];
@@ -425,146 +816,366 @@ export interface CommentQueryOptions {
 	videoPrivacy?: ('public' | 'private' | 'unlisted' | 'unknown')[];
 	moderationStatus?: ('published' | 'heldForReview' | 'likelySpam' | 'rejected' | 'unknown')[];
 	searchQuery?: string;
-	searchMode?: 'all' | 'comments' | 'videos' | 'channels';
+	searchMode?: SearchMode;
 	showOnlyWithErrors?: boolean;
+	// Only top-level comments with replies from other people
+	onlyWithReplies?: boolean;
 	// Channel filter - filter by channel ID
 	channelId?: string;
 	// Date range filter
 	dateRange?: { startDate: string; endDate: string };
 	
-	// Sorting
-	sortBy?: 'likeCount' | 'publishedAt' | 'textLength';
+	// Sorting ('relevance' ranks search matches by term frequency, date otherwise)
+	sortBy?: 'likeCount' | 'publishedAt' | 'textLength' | 'relevance';
 	sortOrder?: 'asc' | 'desc';
 }
 
+type SortBy = NonNullable<CommentQueryOptions['sortBy']>;
+// Sort fields backed by an IndexedDB index (relevance depends on the query)
+type IndexedSortBy = Exclude<SortBy, 'relevance'>;
+
+/**
+ * Position of a comment in a sort order, used for keyset pagination
+ */
+export interface CommentCursor {
+	key: string | number;
+	id: string;
+}
+
+const SORT_INDEXES = {
+	publishedAt: 'by-publishedAt',
+	likeCount: 'by-likeCount',
+	textLength: 'by-textLength'
+} as const;
+
+// Privacy/moderation filters that include every value don't filter anything
+const ALL_PRIVACY_STATUSES = 4;
+const ALL_MODERATION_STATUSES = 5;
+
+// Cached match counts per filter set - cleared on every write to the comments store
+// (the takeout import worker writes through its own connection, so the page clears it afterwards)
+const countCache = new Map<string, number>();
+
+export function invalidateQueryCache(): void {
+	countCache.clear();
+}
+
+function getSortKey(record: StoredComment, sortBy: IndexedSortBy): string | number {
+	return record[sortBy];
+}
+
+/**
+ * Get the keyset cursor for a comment in the given sort order
+ */
+export function getCommentCursor(comment: YouTubeComment, sortBy: IndexedSortBy = 'publishedAt'): CommentCursor {
+	return { key: getSortKey(toStoredComment(comment, 0), sortBy), id: comment.id };
+}
+
+function compareKeys(a: string | number, b: string | number): number {
+	return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Same ordering as walking the sort index: sort key, then primary key
+function compareToCursor(
+	record: StoredComment,
+	cursor: CommentCursor,
+	keyOf: (record: StoredComment) => string | number,
+	descending: boolean
+): number {
+	const comparison = compareKeys(keyOf(record), cursor.key) || compareKeys(record.data.id, cursor.id);
+	return descending ? -comparison : comparison;
+}
+
+/**
+ * Build a predicate for all non-index filters in the options.
+ * Returns null when the options don't filter anything.
+ */
+function buildFilterPredicate(
+	options: CommentQueryOptions,
+	searchAst: SearchNode | null
+): ((comment: YouTubeComment) => boolean) | null {
+	const checks: ((comment: YouTubeComment) => boolean)[] = [];
+	
+	// Label filter
+	if (options.labels && options.labels.length > 0) {
+		const labels = options.labels;
+		checks.push(comment => labels.some(label => (comment.labels || []).includes(label)));
+	}
+	
+	// Character length filter
+	if (options.minCharacters !== undefined || options.maxCharacters !== undefined) {
+		const min = options.minCharacters ?? 0;
+		const max = options.maxCharacters ?? Infinity;
+		checks.push(comment => comment.textOriginal.length >= min && comment.textOriginal.length <= max);
+	}
+	
+	// Like count filter
+	if (options.minLikes !== undefined || options.maxLikes !== undefined) {
+		const min = options.minLikes ?? 0;
+		const max = options.maxLikes ?? Infinity;
+		checks.push(comment => comment.likeCount >= min && comment.likeCount <= max);
+	}
+	
+	// Video privacy filter
+	if (options.videoPrivacy && options.videoPrivacy.length > 0 && options.videoPrivacy.length < ALL_PRIVACY_STATUSES) {
+		const privacy = options.videoPrivacy;
+		checks.push(comment => privacy.includes(comment.videoPrivacyStatus || 'unknown'));
+	}
+	
+	// Moderation status filter
+	if (options.moderationStatus && options.moderationStatus.length > 0 && options.moderationStatus.length < ALL_MODERATION_STATUSES) {
+		const moderation = options.moderationStatus;
+		checks.push(comment => moderation.includes(comment.moderationStatus || 'unknown'));
+	}
+	
+	// Search query filter (shared AST with filteredComments)
+	if (searchAst) {
+		checks.push(comment => matchesSearchQuery(searchAst, comment, options.searchMode));
+	}
+	
+	// Show only comments with delete errors
+	if (options.showOnlyWithErrors) {
+		checks.push(comment => !!comment.lastDeleteError);
+	}
+	
+	// Only comments that got replies from other people
+	if (options.onlyWithReplies) {
+		checks.push(comment => getRepliesFromOthers(comment) > 0);
+	}
+	
+	// Channel filter - filter by channel ID
+	if (options.channelId) {
+		const channelId = options.channelId;
+		checks.push(comment => comment.videoChannelId === channelId);
+	}
+	
+	// Date range filter
+	if (options.dateRange) {
+		const { startDate, endDate } = options.dateRange;
+		checks.push(comment => {
+			const published = new Date(comment.publishedAt);
+			if (isNaN(published.getTime())) return false;
+			const commentDate = published.toISOString().split('T')[0];
+			if (startDate && commentDate < startDate) return false;
+			if (endDate && commentDate > endDate) return false;
+			return true;
+		});
+	}
+	
+	return checks.length > 0 ? comment => checks.every(check => check(comment)) : null;
+}
+
+// Key range on the sort index implied by the filters (likes/length are exact numeric ranges)
+function getSortRange(options: CommentQueryOptions, sortBy: IndexedSortBy): IDBKeyRange | null {
+	let min: number | undefined;
+	let max: number | undefined;
+	
+	if (sortBy === 'likeCount') {
+		min = options.minLikes;
+		max = options.maxLikes;
+	} else if (sortBy === 'textLength') {
+		min = options.minCharacters;
+		max = options.maxCharacters;
+	}
+	
+	if (min !== undefined && max !== undefined) return IDBKeyRange.bound(min, max);
+	if (min !== undefined) return IDBKeyRange.lowerBound(min);
+	if (max !== undefined) return IDBKeyRange.upperBound(max);
+	return null;
+}
+
+// Start a sort index walk at a keyset cursor, keeping the filter range's far bound
+function rangeFromCursor(base: IDBKeyRange | null, cursor: CommentCursor, direction: IDBCursorDirection): IDBKeyRange {
+	if (direction === 'next') {
+		if (base?.lower !== undefined && indexedDB.cmp(base.lower, cursor.key) > 0) return base;
+		return base?.upper !== undefined
+			? IDBKeyRange.bound(cursor.key, base.upper, false, base.upperOpen)
+			: IDBKeyRange.lowerBound(cursor.key);
+	}
+	if (base?.upper !== undefined && indexedDB.cmp(base.upper, cursor.key) < 0) return base;
+	return base?.lower !== undefined
+		? IDBKeyRange.bound(base.lower, cursor.key, base.lowerOpen, false)
+		: IDBKeyRange.upperBound(cursor.key);
+}
+
+/**
+ * Collect matching records from the most selective secondary index.
+ * Returns null when no secondary index applies (walk the sort index instead).
+ */
+async function collectFromSecondaryIndex(
+	database: IDBPDatabase<CommentSlashDB>,
+	options: CommentQueryOptions,
+	searchAst: SearchNode | null,
+	matches: (record: StoredComment) => boolean
+): Promise<StoredComment[] | null> {
+	// Full-text search terms narrow the candidates through the inverted index
+	if (searchAst) {
+		const candidates = await findSearchCandidates(database, searchAst, options.searchMode ?? 'all');
+		if (candidates) return getRecordsById(database, candidates, matches);
+	}
+	
+	const tx = database.transaction('comments', 'readonly');
+	
+	if (options.channelId) {
+		const records = await tx.store.index('by-channelId').getAll(options.channelId);
+		return records.filter(matches);
+	}
+	
+	if (options.labels && options.labels.length > 0) {
+		const byId = new Map<string, StoredComment>();
+		for (const label of options.labels) {
+			for (const record of await tx.store.index('by-labels').getAll(label)) {
+				if (!byId.has(record.data.id) && matches(record)) byId.set(record.data.id, record);
+			}
+		}
+		return Array.from(byId.values());
+	}
+	
+	return null;
+}
+
 export async function queryComments(options: CommentQueryOptions = {}): Promise<{
 	comments: YouTubeComment[];
 	total: number;
 	hasMore: boolean;
 }> {
 	const database = await getDB();
-	const now = Date.now();
-	const cutoff = now - getTTL_MS();
+	const cutoff = Date.now() - getTTL_MS();
+	const searchAst = options.searchQuery ? parseSearchQuery(options.searchQuery).root : null;
+	// Relevance needs a search query, fall back to date order without one
+	const sortBy = options.sortBy === 'relevance' && !searchAst ? 'publishedAt' : options.sortBy ?? 'publishedAt';
+	const descending = (options.sortOrder ?? 'desc') === 'desc';
+	const limit = options.limit ?? Infinity;
 	
-	// Get all comments (we need to filter and count)
-	const all = await database.getAll('comments');
+	const filter = buildFilterPredicate(options, searchAst);
+	const matches = (record: StoredComment) => record.timestamp >= cutoff && (!filter || filter(record.data));
 	
-	// Filter comments
-	let filtered = all
-		.filter(item => item.timestamp >= cutoff)
-		.map(item => item.data)
-		.filter(comment => {
-			// Label filter
-			if (options.labels && options.labels.length > 0) {
-				const commentLabels = comment.labels || [];
-				const hasMatchingLabel = options.labels.some(label => commentLabels.includes(label));
-				if (!hasMatchingLabel) return false;
-			}
-			
-			// Character length filter
-			if (options.minCharacters !== undefined || options.maxCharacters !== undefined) {
-				const textLength = comment.textOriginal.length;
-				if (options.minCharacters !== undefined && textLength < options.minCharacters) return false;
-				if (options.maxCharacters !== undefined && textLength > options.maxCharacters) return false;
-			}
-			
-			// Like count filter
-			if (options.minLikes !== undefined || options.maxLikes !== undefined) {
-				if (options.minLikes !== undefined && comment.likeCount < options.minLikes) return false;
-				if (options.maxLikes !== undefined && comment.likeCount > options.maxLikes) return false;
-			}
-			
-			// Video privacy filter
-			if (options.videoPrivacy && options.videoPrivacy.length > 0) {
-				const privacyStatus = comment.videoPrivacyStatus || 'unknown';
-				if (!options.videoPrivacy.includes(privacyStatus)) return false;
-			}
-			
-			// Moderation status filter
-			if (options.moderationStatus && options.moderationStatus.length > 0) {
-				const modStatus = comment.moderationStatus || 'unknown';
-				if (!options.moderationStatus.includes(modStatus)) return false;
-			}
-			
-			// Search query filter with mode support
-			if (options.searchQuery) {
-				const query = options.searchQuery.toLowerCase();
-				const mode = options.searchMode || 'all';
-				
-				switch (mode) {
-					case 'comments':
-						if (!comment.textOriginal.toLowerCase().includes(query)) return false;
-						break;
-					case 'videos':
-						if (!comment.videoTitle?.toLowerCase().includes(query)) return false;
-						break;
-					case 'channels':
-						if (!comment.videoChannelTitle?.toLowerCase().includes(query)) return false;
-						break;
-					case 'all':
-					default:
-						const matchesText = comment.textOriginal.toLowerCase().includes(query);
-						const matchesVideo = comment.videoTitle?.toLowerCase().includes(query);
-						const matchesChannel = comment.videoChannelTitle?.toLowerCase().includes(query);
-						if (!matchesText && !matchesVideo && !matchesChannel) return false;
-						break;
-				}
-			}
-			
-			// Show only comments with delete errors
-			if (options.showOnlyWithErrors && !comment.lastDeleteError) return false;
-			
-			// Channel filter - filter by channel ID
-			if (options.channelId) {
-				if (comment.videoChannelId !== options.channelId) return false;
-			}
-			
-			// Date range filter
-			if (options.dateRange) {
-				const commentDate = new Date(comment.publishedAt).toISOString().split('T')[0];
-				if (options.dateRange.startDate && commentDate < options.dateRange.startDate) return false;
-				if (options.dateRange.endDate && commentDate > options.dateRange.endDate) return false;
+	// Search, channel and label filters are selective - collect from their index and sort in memory
+	const collected = await collectFromSecondaryIndex(database, options, searchAst, matches);
+	if (collected || sortBy === 'relevance') {
+		const records = collected ?? await collectAllRecords(database, matches);
+		const scores = sortBy === 'relevance' && searchAst
+			? new Map(records.map(r => [r.data.id, scoreSearchMatch(searchAst, r.data, options.searchMode)]))
+			: null;
+		const keyOf = (r: StoredComment) => scores ? scores.get(r.data.id) ?? 0 : getSortKey(r, sortBy as IndexedSortBy);
+		records.sort((a, b) => compareToCursor(a, { key: keyOf(b), id: b.data.id }, keyOf, descending));
+		
+		let start = options.offset || 0;
+		let end = start + limit;
+		if (options.after || options.before) {
+			const cursor = (options.after ?? options.before) as CommentCursor;
+			const position = records.findIndex(r => compareToCursor(r, cursor, keyOf, descending) >= 0);
+			const index = position === -1 ? records.length : position;
+			if (options.after) {
+				start = records[index]?.data.id === cursor.id ? index + 1 : index;
+				end = start + limit;
+			} else {
+				end = index;
+				start = Math.max(0, end - limit);
 			}
-			
-			return true;
-		});
+		}
+		
+		return {
+			comments: records.slice(start, end).map(r => r.data),
+			total: records.length,
+			hasMore: end < records.length
+		};
+	}
+	
+	// Otherwise walk the sort index in order, stopping once the page is full
+	const baseRange = getSortRange(options, sortBy);
+	const total = await countMatches(database, options, sortBy, baseRange, matches, !filter);
+	
+	// Backward pages walk in the opposite direction from the cursor, then get reversed
+	const reverse = !!options.before && !options.after;
+	const keyset = options.after ?? options.before;
+	const direction: IDBCursorDirection = descending !== reverse ? 'prev' : 'next';
+	const range = keyset ? rangeFromCursor(baseRange, keyset, direction) : baseRange;
+	
+	const tx = database.transaction('comments', 'readonly');
+	let cursor = await tx.store.index(SORT_INDEXES[sortBy]).openCursor(range, direction);
+	
+	// Skip ties up to and including the keyset cursor
+	if (cursor && keyset && indexedDB.cmp(cursor.key, keyset.key) === 0) {
+		// continuePrimaryKey only moves forward, so jump only when still behind the cursor comment
+		const behind = indexedDB.cmp(cursor.primaryKey, keyset.id) * (direction === 'next' ? 1 : -1) < 0;
+		if (behind) {
+			// The index key type depends on the sort field, which TypeScript can't narrow here
+			cursor = await cursor.continuePrimaryKey(keyset.key as never, keyset.id);
+		}
+		if (cursor && cursor.primaryKey === keyset.id) {
+			cursor = await cursor.continue();
+		}
+	}
 	
-	const total = filtered.length;
-	
-	// Sort comments
-	if (options.sortBy) {
-		filtered = filtered.sort((a, b) => {
-			let comparison = 0;
-			
-			switch (options.sortBy) {
-				case 'likeCount':
-					comparison = a.likeCount - b.likeCount;
-					break;
-				case 'publishedAt':
-					comparison = new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime();
-					break;
-				case 'textLength':
-					comparison = a.textOriginal.length - b.textOriginal.length;
-					break;
+	// Offset pagination: jump directly when nothing is filtered, otherwise skip matches
+	let toSkip = keyset ? 0 : options.offset || 0;
+	if (cursor && toSkip > 0 && !filter) {
+		cursor = await cursor.advance(toSkip);
+		toSkip = 0;
+	}
+	
+	const page: YouTubeComment[] = [];
+	let hasMore = false;
+	while (cursor) {
+		if (matches(cursor.value)) {
+			if (toSkip > 0) {
+				toSkip--;
+			} else if (page.length < limit) {
+				page.push(cursor.value.data);
+			} else {
+				hasMore = true;
+				break;
 			}
-			
-			return options.sortOrder === 'desc' ? -comparison : comparison;
-		});
+		}
+		cursor = await cursor.continue();
 	}
 	
-	// Apply pagination
-	const offset = options.offset || 0;
-	const limit = options.limit || filtered.length;
-	const paginatedComments = filtered.slice(offset, offset + limit);
-	const hasMore = offset + limit < total;
+	if (reverse) {
+		page.reverse();
+		// A backward page always has the cursor comment after it
+		hasMore = true;
+	}
 	
 	return {
-		comments: paginatedComments,
+		comments: page,
 		total,
 		hasMore
 	};
 }
 
+// Count matches for a sort index walk, cached until the next write
+async function countMatches(
+	database: IDBPDatabase<CommentSlashDB>,
+	options: CommentQueryOptions,
+	sortBy: IndexedSortBy,
+	range: IDBKeyRange | null,
+	matches: (record: StoredComment) => boolean,
+	unfiltered: boolean
+): Promise<number> {
+	const { limit, offset, after, before, sortOrder, ...filters } = options;
+	const cacheKey = JSON.stringify({ ...filters, sortBy });
+	const cached = countCache.get(cacheKey);
+	if (cached !== undefined) return cached;
+	
+	const index = database.transaction('comments', 'readonly').store.index(SORT_INDEXES[sortBy]);
+	let total = 0;
+	
+	if (unfiltered) {
+		// Expired records are purged on startup, so the index count is accurate
+		total = await index.count(range ?? undefined);
+	} else {
+		let cursor = await index.openCursor(range);
+		while (cursor) {
+			if (matches(cursor.value)) total++;
+			cursor = await cursor.continue();
+		}
+	}
+	
+	countCache.set(cacheKey, total);
+	return total;
+}
+
 /**
  * Stream comments in batches using a callback
  * This is more memory-efficient for very large datasets
@@ -572,25 +1183,26 @@ export async function queryComments(options: CommentQueryOptions = {}): Promise<
 export async function streamComments(
 	batchSize: number,
 	callback: (batch: YouTubeComment[], index: number, total: number) => void | Promise<void>,
-	options: Omit<CommentQueryOptions, 'limit' | 'offset'> = {}
+	options: Omit<CommentQueryOptions, 'limit' | 'offset' | 'after' | 'before'> = {}
 ): Promise<void> {
-	const database = await getDB();
-	const now = Date.now();
-	const cutoff = now - getTTL_MS();
-	
-	// Get all comments that match filters
-	const result = await queryComments({
-		...options,
-		limit: undefined, // Get all matching
-		offset: 0
-	});
+	let after: CommentCursor | undefined;
+	let offset = 0;
+	let index = 0;
 	
-	const total = result.total;
-	
-	// Stream in batches
-	for (let i = 0; i < total; i += batchSize) {
-		const batch = result.comments.slice(i, Math.min(i + batchSize, total));
-		await callback(batch, i / batchSize, Math.ceil(total / batchSize));
+	// Walk the sort index page by page using keyset cursors (relevance has no stored key, so it pages by offset)
+	while (true) {
+		const result = options.sortBy === 'relevance'
+			? await queryComments({ ...options, limit: batchSize, offset })
+			: await queryComments({ ...options, limit: batchSize, after });
+		if (result.comments.length === 0) break;
+		
+		await callback(result.comments, index++, Math.ceil(result.total / batchSize));
+		
+		if (!result.hasMore) break;
+		offset += result.comments.length;
+		if (options.sortBy !== 'relevance') {
+			after = getCommentCursor(result.comments[result.comments.length - 1], options.sortBy);
+		}
 	}
 }
 
@@ -599,105 +1211,35 @@ export async function streamComments(
  */
 export async function getCommentCount(): Promise<number> {
 	const database = await getDB();
-	const now = Date.now();
-	const cutoff = now - getTTL_MS();
+	const cutoff = Date.now() - getTTL_MS();
 
-	const all = await database.getAll('comments');
-	return all.filter(item => item.timestamp >= cutoff).length;
+	return database.countFromIndex('comments', 'by-timestamp', IDBKeyRange.lowerBound(cutoff));
 }
 
 /**
  * Get all comment IDs that match filters (for "Select All Visible")
  * Returns only IDs to minimize memory usage
  */
-export async function getFilteredCommentIds(options: Omit<CommentQueryOptions, 'limit' | 'offset'>): Promise<string[]> {
+export async function getFilteredCommentIds(options: Omit<CommentQueryOptions, 'limit' | 'offset' | 'after' | 'before'>): Promise<string[]> {
 	const database = await getDB();
-	const now = Date.now();
-	const cutoff = now - getTTL_MS();
+	const cutoff = Date.now() - getTTL_MS();
 	
-	// Get all comments
-	const all = await database.getAll('comments');
+	const searchAst = options.searchQuery ? parseSearchQuery(options.searchQuery).root : null;
+	const filter = buildFilterPredicate(options, searchAst);
+	const matches = (record: StoredComment) => record.timestamp >= cutoff && (!filter || filter(record.data));
 	
-	// Filter comments and extract IDs
-	const matchingIds = all
-		.filter(item => item.timestamp >= cutoff)
-		.map(item => item.data)
-		.filter(comment => {
-			// Label filter
-			if (options.labels && options.labels.length > 0) {
-				const commentLabels = comment.labels || [];
-				const hasMatchingLabel = options.labels.some(label => commentLabels.includes(label));
-				if (!hasMatchingLabel) return false;
-			}
-			
-			// Character length filter
-			if (options.minCharacters !== undefined || options.maxCharacters !== undefined) {
-				const textLength = comment.textOriginal.length;
-				if (options.minCharacters !== undefined && textLength < options.minCharacters) return false;
-				if (options.maxCharacters !== undefined && textLength > options.maxCharacters) return false;
-			}
-			
-			// Like count filter
-			if (options.minLikes !== undefined || options.maxLikes !== undefined) {
-				if (options.minLikes !== undefined && comment.likeCount < options.minLikes) return false;
-				if (options.maxLikes !== undefined && comment.likeCount > options.maxLikes) return false;
-			}
-			
-			// Video privacy filter
-			if (options.videoPrivacy && options.videoPrivacy.length > 0) {
-				const privacyStatus = comment.videoPrivacyStatus || 'unknown';
-				if (!options.videoPrivacy.includes(privacyStatus)) return false;
-			}
-			
-			// Moderation status filter
-			if (options.moderationStatus && options.moderationStatus.length > 0) {
-				const modStatus = comment.moderationStatus || 'unknown';
-				if (!options.moderationStatus.includes(modStatus)) return false;
-			}
-			
-			// Search query filter with mode support
-			if (options.searchQuery) {
-				const query = options.searchQuery.toLowerCase();
-				const mode = options.searchMode || 'all';
-				
-				switch (mode) {
-					case 'comments':
-						if (!comment.textOriginal.toLowerCase().includes(query)) return false;
-						break;
-					case 'videos':
-						if (!comment.videoTitle?.toLowerCase().includes(query)) return false;
-						break;
-					case 'channels':
-						if (!comment.videoChannelTitle?.toLowerCase().includes(query)) return false;
-						break;
-					case 'all':
-					default:
-						const matchesText = comment.textOriginal.toLowerCase().includes(query);
-						const matchesVideo = comment.videoTitle?.toLowerCase().includes(query);
-						const matchesChannel = comment.videoChannelTitle?.toLowerCase().includes(query);
-						if (!matchesText && !matchesVideo && !matchesChannel) return false;
-						break;
-				}
-			}
-			
-			// Show only comments with delete errors
-			if (options.showOnlyWithErrors && !comment.lastDeleteError) return false;
-			
-			// Channel filter - filter by channel ID
-			if (options.channelId) {
-				if (comment.videoChannelId !== options.channelId) return false;
-			}
-			
-			// Date range filter
-			if (options.dateRange) {
-				const commentDate = new Date(comment.publishedAt).toISOString().split('T')[0];
-				if (options.dateRange.startDate && commentDate < options.dateRange.startDate) return false;
-				if (options.dateRange.endDate && commentDate > options.dateRange.endDate) return false;
-			}
-			
-			return true;
-		})
-		.map(comment => comment.id);
+	const collected = await collectFromSecondaryIndex(database, options, searchAst, matches);
+	if (collected) {
+		return collected.map(record => record.data.id);
+	}
+	
+	// Walk the whole store once, keeping only IDs
+	const matchingIds: string[] = [];
+	let cursor = await database.transaction('comments', 'readonly').store.openCursor();
+	while (cursor) {
+		if (matches(cursor.value)) matchingIds.push(cursor.value.data.id);
+		cursor = await cursor.continue();
+	}
 	
 	return matchingIds;
 }
@@ -708,25 +1250,26 @@ export async function getFilteredCommentIds(options: Omit<CommentQueryOptions, '
  */
 export async function getCommentDateBounds(): Promise<{ oldest: string | null; newest: string | null }> {
 	const database = await getDB();
-	const now = Date.now();
-	const cutoff = now - getTTL_MS();
+	const cutoff = Date.now() - getTTL_MS();
+	const index = database.transaction('comments', 'readonly').store.index('by-publishedAt');
 	
-	const all = await database.getAll('comments');
-	const validComments = all
-		.filter(item => item.timestamp >= cutoff)
-		.map(item => item.data);
-	
-	if (validComments.length === 0) {
-		return { oldest: null, newest: null };
+	// Walk inwards from each end of the date index, skipping expired and undated records
+	async function findBound(direction: IDBCursorDirection): Promise<string | null> {
+		let cursor = await index.openCursor(IDBKeyRange.lowerBound('', true), direction);
+		while (cursor) {
+			if (cursor.value.timestamp >= cutoff && !isNaN(new Date(cursor.value.publishedAt).getTime())) {
+				return cursor.value.publishedAt;
+			}
+			cursor = await cursor.continue();
+		}
+		return null;
 	}
 	
-	// Find oldest and newest dates
-	let oldest = validComments[0].publishedAt;
-	let newest = validComments[0].publishedAt;
+	const oldest = await findBound('next');
+	const newest = await findBound('prev');
 	
-	for (const comment of validComments) {
-		if (comment.publishedAt < oldest) oldest = comment.publishedAt;
-		if (comment.publishedAt > newest) newest = comment.publishedAt;
+	if (!oldest || !newest) {
+		return { oldest: null, newest: null };
 	}
 	
 	// Convert to YYYY-MM-DD format
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { createTakeoutCSVParser, parseTakeoutCSV } from './takeout';
+
+// Quoted fields with separators, escaped quotes and line breaks, CRLF line endings and a blank line
+const CSV = [
+	'Comment ID,Channel ID,Comment creation timestamp,Video ID,Comment text',
+	'UgzAAAAAAAAAAAAAAAAAAAAAAA,UCAAAAAAAAAAAAAAAAAAAAAA,2021-03-04T05:06:07+00:00,dQw4w9WgXcQ,"{""text"":""Hello, world""}"',
+	'',
+	'UgzBBBBBBBBBBBBBBBBBBBBBBB,UCAAAAAAAAAAAAAAAAAAAAAA,2021-03-05T05:06:07+00:00,dQw4w9WgXcQ,"{""text"":""first line""},{""text"":""\\n""},{""text"":""say \\""hi\\""""}"',
+	'UgzCCCCCCCCCCCCCCCCCCCCCCC,UCAAAAAAAAAAAAAAAAAAAAAA,2021-03-06T05:06:07+00:00,9bZkp7q19f0,"plain text\r\nwith a line break"',
+	'UgzDDDDDDDDDDDDDDDDDDDDDDD,UCAAAAAAAAAAAAAAAAAAAAAA,2021-03-07T05:06:07+00:00,9bZkp7q19f0,"ends with a quote"""'
+].join('\r\n');
+
+function parseInChunks(content: string, chunkSize: number | number[]) {
+	const parser = createTakeoutCSVParser();
+	const comments = [];
+	const sizes = Array.isArray(chunkSize) ? chunkSize : [];
+	let offset = 0;
+	for (let i = 0; offset < content.length; i++) {
+		const size = Array.isArray(chunkSize) ? sizes[i] ?? content.length : chunkSize;
+		comments.push(...parser.push(content.slice(offset, offset + size)));
+		offset += size;
+	}
+	comments.push(...parser.end());
+	return { comments, diagnostics: parser.diagnostics };
+}
+
+describe('Takeout CSV parser', () => {
+	const whole = parseTakeoutCSV(CSV);
+
+	it('reads quoted fields with separators, escaped quotes and line breaks', () => {
+		expect(whole.comments.map(comment => [comment.id, comment.videoId, comment.textOriginal])).toEqual([
+			['UgzAAAAAAAAAAAAAAAAAAAAAAA', 'dQw4w9WgXcQ', 'Hello, world'],
+			['UgzBBBBBBBBBBBBBBBBBBBBBBB', 'dQw4w9WgXcQ', 'first line\nsay "hi"'],
+			['UgzCCCCCCCCCCCCCCCCCCCCCCC', '9bZkp7q19f0', 'plain text\r\nwith a line break'],
+			['UgzDDDDDDDDDDDDDDDDDDDDDDD', '9bZkp7q19f0', 'ends with a quote"']
+		]);
+		expect(whole.diagnostics.rowsRead).toBe(4);
+		expect(whole.diagnostics.skippedRows.count).toBe(0);
+	});
+
+	it('gives the same result for every split into two chunks', () => {
+		for (let split = 1; split < CSV.length; split++) {
+			const { comments } = parseInChunks(CSV, [split]);
+			expect(comments, `split at ${split}`).toEqual(whole.comments);
+		}
+	});
+
+	it('gives the same result for single-character chunks', () => {
+		const { comments, diagnostics } = parseInChunks(CSV, 1);
+		expect(comments).toEqual(whole.comments);
+		expect(diagnostics).toEqual(whole.diagnostics);
+	});
+
+	it('reports the line a row starts on, counting line breaks inside quoted fields', () => {
+		const broken = `${CSV}\r\nUgzEEEEEEEEEEEEEEEEEEEEEEE,UCAAAAAAAAAAAAAAAAAAAAAA`;
+		const { diagnostics } = parseInChunks(broken, 7);
+		// Header, 2 rows, blank line, row 4 (1 line), row 5 (2 lines), row 6 - the short row is on line 8
+		expect(diagnostics.skippedRows.items).toEqual([{ line: 8, detail: 'Expected 5 columns, found 2' }]);
+	});
+
+	it('keeps the last row without a trailing line break', () => {
+		const { comments } = parseInChunks(`${CSV}\r\n`, 5);
+		expect(comments).toEqual(whole.comments);
+	});
+});
@@ -1,5 +1,19 @@
-import JSZip from 'jszip';
 import type { YouTubeComment } from '$lib/types/comment';
+import type {
+	TakeoutColumn,
+	TakeoutColumnMapping,
+	TakeoutColumnMappingRequest,
+	TakeoutDiagnostics,
+	TakeoutDiagnosticList
+} from '$lib/types/takeout';
+
+/**
+ * Comments parsed from an export file, with what the parser had to skip or repair
+ */
+export interface TakeoutParseResult {
+	comments: YouTubeComment[];
+	diagnostics: TakeoutDiagnostics;
+}
 
 /**
  * Google Takeout comment structure (from my-comments.html or JSON export)
@@ -22,99 +36,180 @@ interface TakeoutComment {
  * CSV header mappings for different languages
  * Google Takeout exports headers in the user's browser language
  */
-const CSV_HEADER_MAPPINGS: Record<string, string> = {
-	// English
-	'comment id': 'commentId',
-	'comment-id': 'commentId',
-	'channel id': 'channelId',
-	'channel-id': 'channelId',
-	'comment creation timestamp': 'timestamp',
-	'price': 'price',
-	'parent comment id': 'parentCommentId',
-	'parent comment-id': 'parentCommentId',
-	'post id': 'postId',
-	'post-id': 'postId',
-	'video id': 'videoId',
-	'video-id': 'videoId',
-	'comment text': 'commentText',
-	'top-level comment id': 'topLevelCommentId',
-	
-	// German (Deutsch)
-	'kommentar-id': 'commentId',
-	'kanal-id': 'channelId',
-	'zeitstempel der erstellung des kommentars': 'timestamp',
-	'preis': 'price',
-	'übergeordnete kommentar-id': 'parentCommentId',
-	'beitrags-id': 'postId',
-	// 'video-id' is same as English, already mapped above
-	'kommentartext': 'commentText',
-	'kommentar-id der obersten ebene': 'topLevelCommentId',
-	
-	// French (Français)
-	'id du commentaire': 'commentId',
-	'id de la chaîne': 'channelId',
-	'horodatage de création du commentaire': 'timestamp',
-	'prix': 'price',
-	'id du commentaire parent': 'parentCommentId',
-	'id de la publication': 'postId',
-	'id de la vidéo': 'videoId',
-	'texte du commentaire': 'commentText',
-	'id du commentaire de premier niveau': 'topLevelCommentId',
-	
-	// Spanish (Español)
-	'id del comentario': 'commentId',
-	'id del canal': 'channelId',
-	'marca de tiempo de creación del comentario': 'timestamp',
-	'precio': 'price',
-	'id del comentario principal': 'parentCommentId',
-	'id de la publicación': 'postId',
-	'id del vídeo': 'videoId',
-	'texto del comentario': 'commentText',
-	'id del comentario de nivel superior': 'topLevelCommentId',
-	
-	// Italian (Italiano)
-	'id commento': 'commentId',
-	'id canale': 'channelId',
-	'timestamp creazione commento': 'timestamp',
-	'prezzo': 'price',
-	'id commento principale': 'parentCommentId',
-	'id post': 'postId',
-	'id video': 'videoId',
-	'testo commento': 'commentText',
-	'id commento di primo livello': 'topLevelCommentId',
-	
-	// Portuguese (Português)
-	'id do comentário': 'commentId',
-	'id do canal': 'channelId',
-	'carimbo de data/hora de criação do comentário': 'timestamp',
-	'preço': 'price',
-	'id do comentário principal': 'parentCommentId',
-	'id da postagem': 'postId',
-	'id do vídeo': 'videoId',
-	'texto do comentário': 'commentText',
-	'id do comentário de nível superior': 'topLevelCommentId',
-	
-	// Dutch (Nederlands)
-	'reactie-id': 'commentId',
-	'kanaal-id': 'channelId',
-	'tijdstempel van het aanmaken van de reactie': 'timestamp',
-	'id van bovenliggende reactie': 'parentCommentId',
-	'bericht-id': 'postId',
-	'reactietekst': 'commentText',
-	'id van reactie op het hoogste niveau': 'topLevelCommentId',
-	
-	// Japanese (日本語)
-	'コメント id': 'commentId',
-	'チャンネル id': 'channelId',
-	'コメントの作成日時': 'timestamp',
-	'価格': 'price',
-	'親コメント id': 'parentCommentId',
-	'投稿 id': 'postId',
-	'動画 id': 'videoId',
-	'コメントのテキスト': 'commentText',
-	'トップレベル コメント id': 'topLevelCommentId',
+const CSV_HEADER_LANGUAGES: Record<string, Record<string, string>> = {
+	English: {
+		'comment id': 'commentId',
+		'comment-id': 'commentId',
+		'channel id': 'channelId',
+		'channel-id': 'channelId',
+		'comment creation timestamp': 'timestamp',
+		'price': 'price',
+		'parent comment id': 'parentCommentId',
+		'parent comment-id': 'parentCommentId',
+		'post id': 'postId',
+		'post-id': 'postId',
+		'video id': 'videoId',
+		'video-id': 'videoId',
+		'comment text': 'commentText',
+		'top-level comment id': 'topLevelCommentId',
+	},
+	German: { // Deutsch
+		'kommentar-id': 'commentId',
+		'kanal-id': 'channelId',
+		'zeitstempel der erstellung des kommentars': 'timestamp',
+		'preis': 'price',
+		'übergeordnete kommentar-id': 'parentCommentId',
+		'beitrags-id': 'postId',
+		'video-id': 'videoId',
+		'kommentartext': 'commentText',
+		'kommentar-id der obersten ebene': 'topLevelCommentId',
+	},
+	French: { // Français
+		'id du commentaire': 'commentId',
+		'id de la chaîne': 'channelId',
+		'horodatage de création du commentaire': 'timestamp',
+		'prix': 'price',
+		'id du commentaire parent': 'parentCommentId',
+		'id de la publication': 'postId',
+		'id de la vidéo': 'videoId',
+		'texte du commentaire': 'commentText',
+		'id du commentaire de premier niveau': 'topLevelCommentId',
+	},
+	Spanish: { // Español
+		'id del comentario': 'commentId',
+		'id del canal': 'channelId',
+		'marca de tiempo de creación del comentario': 'timestamp',
+		'precio': 'price',
+		'id del comentario principal': 'parentCommentId',
+		'id de la publicación': 'postId',
+		'id del vídeo': 'videoId',
+		'texto del comentario': 'commentText',
+		'id del comentario de nivel superior': 'topLevelCommentId',
+	},
+	Italian: { // Italiano
+		'id commento': 'commentId',
+		'id canale': 'channelId',
+		'timestamp creazione commento': 'timestamp',
+		'prezzo': 'price',
+		'id commento principale': 'parentCommentId',
+		'id post': 'postId',
+		'id video': 'videoId',
+		'testo commento': 'commentText',
+		'id commento di primo livello': 'topLevelCommentId',
+	},
+	Portuguese: { // Português
+		'id do comentário': 'commentId',
+		'id do canal': 'channelId',
+		'carimbo de data/hora de criação do comentário': 'timestamp',
+		'preço': 'price',
+		'id do comentário principal': 'parentCommentId',
+		'id da postagem': 'postId',
+		'id do vídeo': 'videoId',
+		'texto do comentário': 'commentText',
+		'id do comentário de nível superior': 'topLevelCommentId',
+	},
+	Dutch: { // Nederlands
+		'reactie-id': 'commentId',
+		'kanaal-id': 'channelId',
+		'tijdstempel van het aanmaken van de reactie': 'timestamp',
+		'id van bovenliggende reactie': 'parentCommentId',
+		'bericht-id': 'postId',
+		'reactietekst': 'commentText',
+		'id van reactie op het hoogste niveau': 'topLevelCommentId',
+	},
+	Japanese: { // 日本語
+		'コメント id': 'commentId',
+		'チャンネル id': 'channelId',
+		'コメントの作成日時': 'timestamp',
+		'価格': 'price',
+		'親コメント id': 'parentCommentId',
+		'投稿 id': 'postId',
+		'動画 id': 'videoId',
+		'コメントのテキスト': 'commentText',
+		'トップレベル コメント id': 'topLevelCommentId',
+	}
 };
 
+// All languages in one lookup table
+const CSV_HEADER_MAPPINGS: Record<string, string> = Object.assign({}, ...Object.values(CSV_HEADER_LANGUAGES));
+
+// Value shapes of the Takeout columns, to recognize them in CSVs with headers in an unknown language
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+const CHANNEL_ID_PATTERN = /^UC[A-Za-z0-9_-]{22}$/;
+// Top-level comment IDs are 26 characters, reply IDs append ".<reply id>"
+const COMMENT_ID_PATTERN = /^Ug[A-Za-z0-9_-]{24}(?:\.[A-Za-z0-9_-]+)?$/;
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+// Comment texts are exported as {"text":"..."} objects (several for multi-line comments)
+const JSON_TEXT_PATTERN = /^\[?\{"text"/;
+
+// Columns recognized by content, in the order they are assigned. Required columns
+// need exactly one match, otherwise the mapping is ambiguous.
+const INFERRED_COLUMNS: { field: TakeoutColumn; pattern: RegExp; required: boolean }[] = [
+	{ field: 'videoId', pattern: VIDEO_ID_PATTERN, required: true },
+	{ field: 'commentText', pattern: JSON_TEXT_PATTERN, required: true },
+	{ field: 'channelId', pattern: CHANNEL_ID_PATTERN, required: false },
+	{ field: 'commentId', pattern: COMMENT_ID_PATTERN, required: false },
+	{ field: 'timestamp', pattern: ISO_TIMESTAMP_PATTERN, required: false }
+];
+
+// Data rows looked at before recognizing columns by their content
+const INFERENCE_SAMPLE_ROWS = 50;
+// Share of a column's non-empty values that must have the expected shape
+const INFERENCE_MIN_MATCH = 0.9;
+// Rows shown in the mapping wizard
+const MAPPING_SAMPLE_ROWS = 5;
+
+// Issues kept with their details per list - a broken export can have millions of rows
+const MAX_DIAGNOSTIC_ITEMS = 100;
+
+/**
+ * Empty diagnostics for an export file
+ */
+export function createTakeoutDiagnostics(file: string, format: TakeoutDiagnostics['format']): TakeoutDiagnostics {
+	return {
+		file,
+		format,
+		rowUnit: format === 'csv' ? 'line' : 'entry',
+		rowsRead: 0,
+		skippedRows: { count: 0, items: [] },
+		repairedFields: { count: 0, items: [] },
+		dateFailures: { count: 0, items: [] },
+		unknownHeaders: [],
+		language: null,
+		inferredColumns: [],
+		manualMapping: false,
+		error: null
+	};
+}
+
+/**
+ * Whether the parser skipped, repaired, guessed or failed anything worth reporting
+ */
+export function hasDiagnosticIssues(diagnostics: TakeoutDiagnostics): boolean {
+	return diagnostics.error !== null ||
+		diagnostics.inferredColumns.length > 0 ||
+		diagnostics.skippedRows.count > 0 ||
+		diagnostics.repairedFields.count > 0 ||
+		diagnostics.dateFailures.count > 0 ||
+		diagnostics.unknownHeaders.length > 0;
+}
+
+function addIssue(list: TakeoutDiagnosticList, line: number, detail: string): void {
+	list.count++;
+	if (list.items.length < MAX_DIAGNOSTIC_ITEMS) {
+		list.items.push({ line, detail });
+	}
+}
+
+// Record a timestamp that is missing or that Date can't read
+function checkTimestamp(timestamp: string, line: number, diagnostics: TakeoutDiagnostics, fallback?: string): void {
+	if (!timestamp) {
+		addIssue(diagnostics.dateFailures, line, fallback ? `Missing timestamp, ${fallback}` : 'Missing timestamp');
+	} else if (Number.isNaN(Date.parse(timestamp))) {
+		addIssue(diagnostics.dateFailures, line, `Unreadable timestamp "${timestamp}"`);
+	}
+}
+
 /**
  * Extract video ID from YouTube URL
  * YouTube video IDs are exactly 11 characters: [a-zA-Z0-9_-]
@@ -177,8 +272,9 @@ function cleanCommentText(rawText: string, videoTitle?: string): string {
  * Parse Google Takeout HTML export (my-comments.html)
  * Google Takeout uses a specific structure with outer-cell/content-cell classes
  */
-export function parseTakeoutHTML(htmlContent: string): YouTubeComment[] {
+export function parseTakeoutHTML(htmlContent: string, fileName = 'my-comments.html'): TakeoutParseResult {
 	const comments: YouTubeComment[] = [];
+	const diagnostics = createTakeoutDiagnostics(fileName, 'html');
 	
 	// Parse HTML content
 	const parser = new DOMParser();
@@ -196,13 +292,17 @@ export function parseTakeoutHTML(htmlContent: string): YouTubeComment[] {
 	}
 	
 	commentContainers.forEach((container) => {
-		// Look for YouTube video link
+		// Look for YouTube video link - containers without one are layout, not entries
 		const linkElement = container.querySelector('a[href*="youtube.com/watch"], a[href*="youtu.be"]');
 		if (!linkElement) return;
+		const entry = ++diagnostics.rowsRead;
 		
 		const videoUrl = linkElement.getAttribute('href') || '';
 		const videoId = extractVideoId(videoUrl);
-		if (!videoId) return;
+		if (!videoId) {
+			addIssue(diagnostics.skippedRows, entry, `No video ID in link "${videoUrl}"`);
+			return;
+		}
 		
 		const videoTitle = linkElement.textContent?.trim();
 		
@@ -235,15 +335,21 @@ export function parseTakeoutHTML(htmlContent: string): YouTubeComment[] {
 		// If no isolated text found, fall back to cleaning the full text
 		if (!commentText) {
 			commentText = cleanCommentText(contentCell.textContent || '', videoTitle);
+			if (commentText) {
+				addIssue(diagnostics.repairedFields, entry, 'Comment text taken from the whole entry');
+			}
 		}
 		
 		// Try to extract timestamp
 		const timeElement = container.querySelector('time, .timestamp, [class*="date"]');
-		const timestamp = timeElement?.getAttribute('datetime') || 
-						  timeElement?.textContent?.trim() || 
-						  new Date().toISOString();
+		const foundTimestamp = timeElement?.getAttribute('datetime') || 
+						  timeElement?.textContent?.trim() || '';
+		checkTimestamp(foundTimestamp, entry, diagnostics, 'used the import time');
+		const timestamp = foundTimestamp || new Date().toISOString();
 		
-		if (commentText && videoId) {
+		if (!commentText) {
+			addIssue(diagnostics.skippedRows, entry, 'No comment text');
+		} else {
 			comments.push({
 				id: generateCommentId(commentText, videoId, timestamp),
 				textDisplay: commentText,
@@ -264,14 +370,15 @@ export function parseTakeoutHTML(htmlContent: string): YouTubeComment[] {
 		}
 	});
 	
-	return comments;
+	return { comments, diagnostics };
 }
 
 /**
  * Parse Google Takeout JSON export
  */
-export function parseTakeoutJSON(jsonContent: string): YouTubeComment[] {
+export function parseTakeoutJSON(jsonContent: string, fileName = 'comments.json'): TakeoutParseResult {
 	const comments: YouTubeComment[] = [];
+	const diagnostics = createTakeoutDiagnostics(fileName, 'json');
 	
 	try {
 		const data = JSON.parse(jsonContent);
@@ -279,18 +386,30 @@ export function parseTakeoutJSON(jsonContent: string): YouTubeComment[] {
 		// Handle different JSON structures from Takeout
 		const commentArray = Array.isArray(data) ? data : 
 							 data.comments ? data.comments :
-							 data.items ? data.items : [];
+							 data.items ? data.items : null;
+		if (!commentArray) {
+			diagnostics.error = 'No comment list found (expected an array, "comments" or "items").';
+			return { comments, diagnostics };
+		}
 		
 		for (const item of commentArray) {
+			const entry = ++diagnostics.rowsRead;
 			const videoUrl = item.videoUrl || item.video_url || '';
 			const videoId = item.videoId || item.video_id || extractVideoId(videoUrl);
 			
-			if (!videoId) continue;
+			if (!videoId) {
+				addIssue(diagnostics.skippedRows, entry, 'No video ID');
+				continue;
+			}
 			
 			const commentText = item.comment || item.commentText || item.text || item.textOriginal || '';
-			const timestamp = item.publishedAt || item.published_at || item.timestamp || item.time || new Date().toISOString();
+			const foundTimestamp = item.publishedAt || item.published_at || item.timestamp || item.time || '';
 			
-			if (commentText) {
+			if (!commentText) {
+				addIssue(diagnostics.skippedRows, entry, 'No comment text');
+			} else {
+				checkTimestamp(foundTimestamp, entry, diagnostics, 'used the import time');
+				const timestamp = foundTimestamp || new Date().toISOString();
 				comments.push({
 					id: item.commentId || item.comment_id || item.id || generateCommentId(commentText, videoId, timestamp),
 					textDisplay: commentText,
@@ -312,44 +431,103 @@ export function parseTakeoutJSON(jsonContent: string): YouTubeComment[] {
 		}
 	} catch (e) {
 		console.error('Failed to parse Takeout JSON:', e);
+		diagnostics.error = `Invalid JSON: ${e instanceof Error ? e.message : String(e)}`;
 	}
 	
-	return comments;
+	return { comments, diagnostics };
+}
+
+// A CSV row and the line it starts on
+interface CSVRow {
+	fields: string[];
+	line: number;
+}
+
+function countLineBreaks(text: string): number {
+	let count = 0;
+	for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+		count++;
+	}
+	return count;
 }
 
 /**
- * Parse a CSV row, handling quoted fields and embedded commas
+ * Incremental CSV row parser for streamed input
+ * Returns the rows completed by each chunk. Quoted fields (with "" as an escaped quote)
+ * may contain commas and line breaks and may span chunks.
  */
-function parseCSVRow(row: string): string[] {
-	const result: string[] = [];
-	let current = '';
+function createCSVRowParser(): { push(chunk: string): CSVRow[]; end(): CSVRow[] } {
+	let row: string[] = [];
+	let field = '';
 	let inQuotes = false;
-	let i = 0;
-	
-	while (i < row.length) {
-		const char = row[i];
-		
-		if (char === '"') {
-			if (inQuotes && row[i + 1] === '"') {
-				// Escaped quote inside quoted field
-				current += '"';
-				i += 2;
+	// A quote inside a quoted field: escaped if the next character is a quote too
+	let quotePending = false;
+	// Line numbers count line breaks inside quoted fields too, like a text editor
+	let line = 1;
+	let rowLine = 1;
+
+	function push(chunk: string): CSVRow[] {
+		const rows: CSVRow[] = [];
+		let i = 0;
+
+		while (i < chunk.length) {
+			const char = chunk[i];
+
+			if (quotePending) {
+				quotePending = false;
+				if (char === '"') {
+					field += '"';
+					i++;
+					continue;
+				}
+				inQuotes = false;
+			}
+
+			if (inQuotes) {
+				// Copy everything up to the next quote at once
+				const quote = chunk.indexOf('"', i);
+				const text = chunk.slice(i, quote === -1 ? undefined : quote);
+				field += text;
+				line += countLineBreaks(text);
+				if (quote === -1) break;
+				quotePending = true;
+				i = quote + 1;
 				continue;
 			}
-			inQuotes = !inQuotes;
-		} else if (char === ',' && !inQuotes) {
-			result.push(current);
-			current = '';
-		} else {
-			current += char;
+
+			if (char === '"') {
+				inQuotes = true;
+			} else if (char === ',') {
+				row.push(field);
+				field = '';
+			} else if (char === '\n') {
+				row.push(field);
+				rows.push({ fields: row, line: rowLine });
+				row = [];
+				field = '';
+				line++;
+				rowLine = line;
+			} else if (char !== '\r') {
+				field += char;
+			}
+			i++;
 		}
-		i++;
+
+		return rows;
 	}
-	
-	// Add the last field
-	result.push(current);
-	
-	return result;
+
+	function end(): CSVRow[] {
+		quotePending = false;
+		inQuotes = false;
+		if (row.length === 0 && field === '') return [];
+		row.push(field);
+		const last = { fields: row, line: rowLine };
+		row = [];
+		field = '';
+		return [last];
+	}
+
+	return { push, end };
 }
 
 /**
@@ -357,7 +535,65 @@ function parseCSVRow(row: string): string[] {
  */
 function normalizeHeader(header: string): string {
 	const normalized = header.toLowerCase().trim();
-	return CSV_HEADER_MAPPINGS[normalized] || normalized;
+	return Object.hasOwn(CSV_HEADER_MAPPINGS, normalized) ? CSV_HEADER_MAPPINGS[normalized] : normalized;
+}
+
+/**
+ * Language whose header names match the most columns, or null if none match
+ */
+function detectHeaderLanguage(headers: string[]): string | null {
+	let language: string | null = null;
+	let mostMatches = 0;
+	for (const [name, mapping] of Object.entries(CSV_HEADER_LANGUAGES)) {
+		const matches = headers.filter(header => Object.hasOwn(mapping, header.toLowerCase().trim())).length;
+		if (matches > mostMatches) {
+			language = name;
+			mostMatches = matches;
+		}
+	}
+	return language;
+}
+
+/**
+ * Columns whose non-empty values (nearly) all have the pattern's shape, most filled first
+ */
+function findMatchingColumns(rows: string[][], width: number, pattern: RegExp, taken: Set<number>): number[] {
+	const matches: { column: number; filled: number }[] = [];
+	for (let column = 0; column < width; column++) {
+		if (taken.has(column)) continue;
+		const values = rows.map(row => row[column]?.trim() ?? '').filter(Boolean);
+		if (values.length === 0) continue;
+		const matching = values.filter(value => pattern.test(value)).length;
+		if (matching / values.length >= INFERENCE_MIN_MATCH) {
+			matches.push({ column, filled: values.length });
+		}
+	}
+	// Stable sort: columns that are filled equally keep their order
+	return matches.sort((a, b) => b.filled - a.filled).map(match => match.column);
+}
+
+/**
+ * Recognize the columns the headers didn't map by what their values look like
+ * ambiguous lists the required fields that didn't match exactly one column (guessed as well as possible).
+ */
+function inferColumns(rows: string[][], width: number, known: TakeoutColumnMapping): { columns: TakeoutColumnMapping; ambiguous: TakeoutColumn[] } {
+	const columns: TakeoutColumnMapping = { ...known };
+	const taken = new Set(Object.values(known));
+	const ambiguous: TakeoutColumn[] = [];
+
+	for (const { field, pattern, required } of INFERRED_COLUMNS) {
+		if (columns[field] !== undefined) continue;
+		const matches = findMatchingColumns(rows, width, pattern, taken);
+		if (required && matches.length !== 1) {
+			ambiguous.push(field);
+		}
+		if (matches.length > 0) {
+			columns[field] = matches[0];
+			taken.add(matches[0]);
+		}
+	}
+
+	return { columns, ambiguous };
 }
 
 /**
@@ -370,9 +606,10 @@ function normalizeHeader(header: string): string {
  * Handles edge cases:
  * - Actual newline characters in JSON (which break standard parsing)
  * - Escaped quotes within text values
+ * repair describes the fallback that was needed to read the text, if any.
  */
-function parseCommentTextField(value: string): string {
-	if (!value) return '';
+function parseCommentTextField(value: string): { text: string; repair: string | null } {
+	if (!value) return { text: '', repair: null };
 	
 	const trimmed = value.trim();
 	
@@ -381,7 +618,7 @@ function parseCommentTextField(value: string): string {
 		try {
 			const parsed = JSON.parse(trimmed);
 			if (Array.isArray(parsed)) {
-				return parsed.map(item => item.text || '').join('');
+				return { text: parsed.map(item => item.text || '').join(''), repair: null };
 			}
 		} catch {
 			// Not valid JSON, try other approaches
@@ -393,7 +630,7 @@ function parseCommentTextField(value: string): string {
 		try {
 			const parsed = JSON.parse(trimmed);
 			if (parsed.text !== undefined) {
-				return parsed.text;
+				return { text: parsed.text, repair: null };
 			}
 		} catch {
 			// Not valid JSON, try as comma-separated objects
@@ -407,7 +644,7 @@ function parseCommentTextField(value: string): string {
 			const wrapped = '[' + trimmed + ']';
 			const parsed = JSON.parse(wrapped);
 			if (Array.isArray(parsed)) {
-				return parsed.map(item => item.text || '').join('');
+				return { text: parsed.map(item => item.text || '').join(''), repair: null };
 			}
 		} catch {
 			// JSON parsing failed - might have actual newline/control characters
@@ -424,7 +661,7 @@ function parseCommentTextField(value: string): string {
 			const wrapped = '[' + fixed + ']';
 			const parsed = JSON.parse(wrapped);
 			if (Array.isArray(parsed)) {
-				return parsed.map(item => item.text || '').join('');
+				return { text: parsed.map(item => item.text || '').join(''), repair: 'Unescaped line breaks or tabs in the JSON text' };
 			}
 		} catch {
 			// Still failed, try regex extraction as fallback
@@ -447,60 +684,118 @@ function parseCommentTextField(value: string): string {
 		}
 		
 		if (textMatches.length > 0) {
-			return textMatches.join('');
+			return { text: textMatches.join(''), repair: 'Malformed JSON text, read with a pattern match' };
 		}
 	}
 	
-	return value;
+	// Looks like the JSON format but none of the above could read it
+	if (JSON_TEXT_PATTERN.test(trimmed)) {
+		return { text: value, repair: 'Unreadable JSON text, kept as is' };
+	}
+	return { text: value, repair: null };
 }
 
 /**
- * Parse Google Takeout CSV export
- * Supports multiple languages through header mapping
+ * Streaming parser for Google Takeout CSV exports
+ * Feed it decoded text chunks, it returns the comments of the rows completed so far.
+ * Supports multiple languages through header mapping. Headers in other languages are
+ * recognized by the content of the first rows; with askForMapping set, an ambiguous
+ * result is left to the caller: rows are held back while mappingRequest is set,
+ * until setColumns is called. diagnostics fills up as rows are parsed.
  */
-export function parseTakeoutCSV(csvContent: string): YouTubeComment[] {
-	const comments: YouTubeComment[] = [];
-	const lines = csvContent.split(/\r?\n/).filter(line => line.trim());
-	
-	if (lines.length < 2) {
-		return comments; // No data rows
+export function createTakeoutCSVParser(fileName = 'comments.csv', options: { askForMapping?: boolean } = {}): {
+	push(chunk: string): YouTubeComment[];
+	end(): YouTubeComment[];
+	setColumns(columns: TakeoutColumnMapping): YouTubeComment[];
+	readonly mappingRequest: TakeoutColumnMappingRequest | null;
+	diagnostics: TakeoutDiagnostics;
+} {
+	const rowParser = createCSVRowParser();
+	const diagnostics = createTakeoutDiagnostics(fileName, 'csv');
+	let headers: string[] | null = null;
+	// Columns mapped by header name
+	let headerColumns: TakeoutColumnMapping = {};
+	// Null until the columns are known - rows wait in pendingRows until then
+	let columns: TakeoutColumnMapping | null = null;
+	let pendingRows: CSVRow[] = [];
+	let mappingRequest: TakeoutColumnMappingRequest | null = null;
+
+	function readHeader(row: string[]) {
+		headers = row.map(header => header.trim());
+		diagnostics.language = detectHeaderLanguage(row);
+		diagnostics.unknownHeaders = headers.filter(header => !Object.hasOwn(CSV_HEADER_MAPPINGS, header.toLowerCase()));
+		// normalizeHeader returns camelCase values like 'commentId'
+		const normalized = row.map(normalizeHeader);
+		headerColumns = {};
+		for (const field of ['commentId', 'channelId', 'timestamp', 'videoId', 'commentText', 'parentCommentId'] as const) {
+			const index = normalized.indexOf(field);
+			if (index >= 0) headerColumns[field] = index;
+		}
+		if (headerColumns.videoId !== undefined && headerColumns.commentText !== undefined) {
+			applyColumns(headerColumns, false);
+		}
 	}
-	
-	// Parse header row
-	const headerRow = parseCSVRow(lines[0]);
-	const headers = headerRow.map(normalizeHeader);
-	
-	// Find column indices (normalizeHeader returns camelCase values like 'commentId')
-	const commentIdIdx = headers.indexOf('commentId');
-	const channelIdIdx = headers.indexOf('channelId');
-	const timestampIdx = headers.indexOf('timestamp');
-	const videoIdIdx = headers.indexOf('videoId');
-	const commentTextIdx = headers.indexOf('commentText');
-	const parentCommentIdIdx = headers.indexOf('parentCommentId');
-	
-	// Parse data rows
-	for (let i = 1; i < lines.length; i++) {
-		const row = parseCSVRow(lines[i]);
-		
-		if (row.length < headers.length) continue;
-		
-		const commentId = commentIdIdx >= 0 ? row[commentIdIdx]?.trim() : '';
-		const videoId = videoIdIdx >= 0 ? row[videoIdIdx]?.trim() : '';
-		const rawCommentText = commentTextIdx >= 0 ? row[commentTextIdx] : '';
-		const commentText = parseCommentTextField(rawCommentText);
-		const rawTimestamp = timestampIdx >= 0 ? row[timestampIdx]?.trim() : '';
+
+	// Recognize the missing columns from the rows read so far
+	function inferMissingColumns() {
+		const width = headers?.length ?? 0;
+		const { columns: guess, ambiguous } = inferColumns(pendingRows.map(row => row.fields), width, headerColumns);
+		if (ambiguous.length > 0 && options.askForMapping) {
+			mappingRequest = {
+				file: fileName,
+				headers: headers ?? [],
+				sampleRows: pendingRows.slice(0, MAPPING_SAMPLE_ROWS).map(row => row.fields),
+				guess,
+				ambiguous
+			};
+			return;
+		}
+		applyColumns(guess, false);
+	}
+
+	function applyColumns(mapping: TakeoutColumnMapping, manual: boolean) {
+		columns = mapping;
+		diagnostics.manualMapping = manual;
+		diagnostics.inferredColumns = (Object.entries(mapping) as [TakeoutColumn, number][])
+			.filter(([field, index]) => headerColumns[field] !== index)
+			.map(([field, index]) => ({ field, header: headers?.[index] ?? `Column ${index + 1}` }));
+		diagnostics.error = mapping.videoId === undefined || mapping.commentText === undefined
+			? 'No video ID or comment text column found - every row will be skipped.'
+			: null;
+	}
+
+	function toComment({ fields: row, line }: CSVRow, columns: TakeoutColumnMapping, width: number): YouTubeComment | null {
+		const get = (field: TakeoutColumn) => {
+			const index = columns[field];
+			return index !== undefined ? row[index] ?? '' : '';
+		};
+
+		diagnostics.rowsRead++;
+		if (row.length < width) {
+			addIssue(diagnostics.skippedRows, line, `Expected ${width} columns, found ${row.length}`);
+			return null;
+		}
+
+		const commentId = get('commentId').trim();
+		const videoId = get('videoId').trim();
+		const { text: commentText, repair } = parseCommentTextField(get('commentText'));
 		// Use the raw timestamp if available, otherwise use empty string (unknown date)
-		const timestamp = rawTimestamp || '';
-		const parentId = parentCommentIdIdx >= 0 ? row[parentCommentIdIdx]?.trim() : '';
-		
+		const timestamp = get('timestamp').trim();
+		const parentId = get('parentCommentId').trim();
+
 		// Skip rows without essential data
-		if (!videoId || !commentText) continue;
-		
-		// Use the actual YouTube comment ID if available, otherwise generate one
-		const id = commentId || generateCommentId(commentText, videoId, timestamp);
-		
-		comments.push({
-			id,
+		if (!videoId || !commentText) {
+			addIssue(diagnostics.skippedRows, line, !videoId ? 'No video ID' : 'No comment text');
+			return null;
+		}
+		if (repair) {
+			addIssue(diagnostics.repairedFields, line, repair);
+		}
+		checkTimestamp(timestamp, line, diagnostics);
+
+		return {
+			// Use the actual YouTube comment ID if available, otherwise generate one
+			id: commentId || generateCommentId(commentText, videoId, timestamp),
 			textDisplay: commentText,
 			textOriginal: commentText,
 			authorDisplayName: 'You',
@@ -516,38 +811,91 @@ export function parseTakeoutCSV(csvContent: string): YouTubeComment[] {
 			canRate: false,
 			viewerRating: 'none',
 			parentId: parentId || undefined
-		});
+		};
 	}
-	
-	return comments;
+
+	// Parse the waiting rows once the columns are known
+	function drainPendingRows(): YouTubeComment[] {
+		if (!columns) return [];
+		const width = headers?.length ?? 0;
+		const comments: YouTubeComment[] = [];
+		for (const row of pendingRows) {
+			const comment = toComment(row, columns, width);
+			if (comment) comments.push(comment);
+		}
+		pendingRows = [];
+		return comments;
+	}
+
+	function toComments(rows: CSVRow[], final: boolean): YouTubeComment[] {
+		for (const row of rows) {
+			// Skip blank lines
+			if (row.fields.length === 1 && !row.fields[0].trim()) continue;
+
+			// The first row is the header row
+			if (!headers) {
+				readHeader(row.fields);
+			} else {
+				pendingRows.push(row);
+			}
+		}
+
+		if (headers && !columns && !mappingRequest && (final || pendingRows.length >= INFERENCE_SAMPLE_ROWS)) {
+			inferMissingColumns();
+		}
+		return drainPendingRows();
+	}
+
+	return {
+		push: (chunk) => toComments(rowParser.push(chunk), false),
+		end: () => toComments(rowParser.end(), true),
+		setColumns(mapping) {
+			mappingRequest = null;
+			applyColumns(mapping, true);
+			return drainPendingRows();
+		},
+		get mappingRequest() {
+			return mappingRequest;
+		},
+		diagnostics
+	};
+}
+
+/**
+ * Parse Google Takeout CSV export
+ */
+export function parseTakeoutCSV(csvContent: string, fileName = 'comments.csv'): TakeoutParseResult {
+	const parser = createTakeoutCSVParser(fileName);
+	const comments = [...parser.push(csvContent), ...parser.end()];
+	return { comments, diagnostics: parser.diagnostics };
 }
 
 /**
  * Parse Google Takeout file (auto-detect format)
  */
-export function parseTakeoutFile(content: string, filename: string): YouTubeComment[] {
+export function parseTakeoutFile(content: string, filename: string): TakeoutParseResult {
 	const lowerFilename = filename.toLowerCase();
 	
 	if (lowerFilename.endsWith('.json')) {
-		return parseTakeoutJSON(content);
+		return parseTakeoutJSON(content, filename);
 	} else if (lowerFilename.endsWith('.html') || lowerFilename.endsWith('.htm')) {
-		return parseTakeoutHTML(content);
+		return parseTakeoutHTML(content, filename);
 	} else if (lowerFilename.endsWith('.csv')) {
-		return parseTakeoutCSV(content);
+		return parseTakeoutCSV(content, filename);
 	}
 	
 	// Try to auto-detect format
 	const trimmed = content.trim();
 	if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
-		return parseTakeoutJSON(content);
+		return parseTakeoutJSON(content, filename);
 	} else if (trimmed.startsWith('<') || trimmed.startsWith('<!')) {
-		return parseTakeoutHTML(content);
+		return parseTakeoutHTML(content, filename);
 	}
 	
 	// Try CSV as last resort (if it looks like CSV with commas and multiple lines)
 	if (trimmed.includes(',') && trimmed.includes('\n')) {
-		const csvResult = parseTakeoutCSV(content);
-		if (csvResult.length > 0) {
+		const csvResult = parseTakeoutCSV(content, filename);
+		if (csvResult.comments.length > 0) {
 			return csvResult;
 		}
 	}
@@ -567,23 +915,11 @@ export function readFileAsText(file: File): Promise<string> {
 	});
 }
 
-/**
- * Read file content as ArrayBuffer (for ZIP files)
- */
-export function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
-	return new Promise((resolve, reject) => {
-		const reader = new FileReader();
-		reader.onload = () => resolve(reader.result as ArrayBuffer);
-		reader.onerror = () => reject(new Error('Failed to read file'));
-		reader.readAsArrayBuffer(file);
-	});
-}
-
 /**
  * Check if a file path is likely a comments file
  * Handles localized folder names across multiple languages
  */
-function isCommentsFile(filepath: string): boolean {
+export function isCommentsFile(filepath: string): boolean {
 	const lower = filepath.toLowerCase();
 	const filename = lower.split('/').pop() || '';
 	
@@ -603,116 +939,24 @@ function isCommentsFile(filepath: string): boolean {
 	return commentPatterns.some(pattern => lower.includes(pattern));
 }
 
+export type TakeoutArchiveKind = 'zip' | 'tgz';
+
 /**
- * Extract and parse comments from a ZIP file
- * Handles Google Takeout ZIP exports with localized folder names
+ * Archive format of a picked file, or null for a single export file
  */
-export async function parseZipFile(
-	file: File, 
-	onProgress?: (progress: { loaded: number; total: number }) => void
-): Promise<YouTubeComment[]> {
-	const allComments: YouTubeComment[] = [];
-	const seenIds = new Set<string>();
-	
-	const arrayBuffer = await readFileAsArrayBuffer(file);
-	const zip = await JSZip.loadAsync(arrayBuffer);
-	
-	// Find all comment-related files in the ZIP
-	const commentFiles: string[] = [];
-	zip.forEach((relativePath, _zipEntry) => {
-		if (isCommentsFile(relativePath)) {
-			commentFiles.push(relativePath);
-		}
-	});
-	
-	if (commentFiles.length === 0) {
-		throw new Error('No comment files found in the ZIP archive. Make sure you are uploading a Google Takeout export that includes YouTube comments.');
-	}
-	
-	const total = commentFiles.length;
-	let loaded = 0;
-	
-	// Process each comment file
-	for (const filepath of commentFiles) {
-		const zipEntry = zip.file(filepath);
-		if (!zipEntry) continue;
-		
-		try {
-			const content = await zipEntry.async('string');
-			const filename = filepath.split('/').pop() || filepath;
-			const comments = parseTakeoutFile(content, filename);
-			
-			// Add unique comments (deduplicate by ID)
-			for (const comment of comments) {
-				if (!seenIds.has(comment.id)) {
-					seenIds.add(comment.id);
-					allComments.push(comment);
-				}
-			}
-		} catch (e) {
-			console.warn(`Failed to parse ${filepath}:`, e);
-			// Continue with other files
-		}
-		
-		loaded++;
-		if (onProgress) {
-			onProgress({ loaded, total });
-		}
-	}
-	
-	return allComments;
+export function getTakeoutArchiveKind(filename: string): TakeoutArchiveKind | null {
+	const lower = filename.toLowerCase();
+	if (lower.endsWith('.zip')) return 'zip';
+	if (lower.endsWith('.tgz') || lower.endsWith('.tar.gz')) return 'tgz';
+	return null;
 }
 
 /**
- * Parse multiple files and combine the results
- * Deduplicates comments by ID
+ * Name of the export an archive belongs to
+ * Takeout splits large exports into numbered parts (takeout-20240101T120000Z-001.zip,
+ * -002.zip, ...). Each part is a complete archive, but the comments are only in one of them.
  */
-export async function parseMultipleFiles(
-	files: FileList | File[],
-	onProgress?: (progress: { loaded: number; total: number }) => void
-): Promise<YouTubeComment[]> {
-	const allComments: YouTubeComment[] = [];
-	const seenIds = new Set<string>();
-	const fileArray = Array.from(files);
-	
-	const total = fileArray.length;
-	let loaded = 0;
-	
-	for (const file of fileArray) {
-		let comments: YouTubeComment[] = [];
-		
-		if (file.name.toLowerCase().endsWith('.zip')) {
-			// Handle ZIP files
-			comments = await parseZipFile(file, (zipProgress) => {
-				// Report sub-progress for ZIP files
-				if (onProgress) {
-					const fileProgress = loaded / total;
-					const zipContribution = (1 / total) * (zipProgress.loaded / zipProgress.total);
-					onProgress({ 
-						loaded: fileProgress + zipContribution, 
-						total: 1 
-					});
-				}
-			});
-		} else {
-			// Handle individual files
-			const content = await readFileAsText(file);
-			comments = parseTakeoutFile(content, file.name);
-		}
-		
-		// Add unique comments
-		for (const comment of comments) {
-			if (!seenIds.has(comment.id)) {
-				seenIds.add(comment.id);
-				allComments.push(comment);
-			}
-		}
-		
-		loaded++;
-		if (onProgress) {
-			onProgress({ loaded, total });
-		}
-	}
-	
-	return allComments;
+export function getTakeoutExportName(filename: string): string {
+	const match = filename.match(/^(.+)-\d{3}\.(?:zip|tgz|tar\.gz)$/i);
+	return match ? match[1] : filename;
 }
@@ -0,0 +1,135 @@
+/**
+ * Unzipped takeout folders.
+ * Collects the files of a folder that was picked (showDirectoryPicker or a
+ * webkitdirectory input) or dropped onto the page, and sorts out the comment
+ * files with the same rules as for archives (isCommentsFile).
+ */
+
+import { isCommentsFile } from './takeout';
+
+export interface FolderFile {
+	path: string; // Relative to the picked folder's parent, e.g. "Takeout/YouTube and YouTube Music/comments/comments.csv"
+	file: File;
+}
+
+export interface TakeoutFolderScan {
+	folderName: string;
+	commentFiles: FolderFile[];
+	skipped: string[]; // Paths of all other files
+}
+
+// The File System Access API is Chromium-only and not part of the DOM typings this project uses
+type DirectoryPickerWindow = Window & {
+	showDirectoryPicker?: (options?: { mode?: 'read' }) => Promise<FileSystemDirectoryHandle>;
+};
+type IterableDirectoryHandle = FileSystemDirectoryHandle & {
+	values(): AsyncIterable<FileSystemFileHandle | FileSystemDirectoryHandle>;
+};
+
+/**
+ * Whether the browser can open a folder picker (otherwise use a webkitdirectory input)
+ */
+export function supportsDirectoryPicker(): boolean {
+	return typeof window !== 'undefined' && typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+}
+
+async function walkDirectoryHandle(handle: FileSystemDirectoryHandle, prefix: string, files: FolderFile[]): Promise<void> {
+	for await (const child of (handle as IterableDirectoryHandle).values()) {
+		const path = `${prefix}/${child.name}`;
+		if (child.kind === 'directory') {
+			await walkDirectoryHandle(child as FileSystemDirectoryHandle, path, files);
+		} else {
+			files.push({ path, file: await (child as FileSystemFileHandle).getFile() });
+		}
+	}
+}
+
+/**
+ * Let the user pick a folder and list all files in it
+ * Returns null if the picker was dismissed.
+ */
+export async function pickTakeoutFolder(): Promise<FolderFile[] | null> {
+	const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+	if (!picker) return null;
+
+	let handle: FileSystemDirectoryHandle;
+	try {
+		handle = await picker({ mode: 'read' });
+	} catch (e) {
+		if (e instanceof DOMException && e.name === 'AbortError') return null;
+		throw e;
+	}
+
+	const files: FolderFile[] = [];
+	await walkDirectoryHandle(handle, handle.name, files);
+	return files;
+}
+
+/**
+ * Files of a webkitdirectory input
+ */
+export function getInputFolderFiles(files: FileList | File[]): FolderFile[] {
+	return Array.from(files).map(file => ({ path: file.webkitRelativePath || file.name, file }));
+}
+
+/**
+ * Dropped folders, or null if only files were dropped
+ * Must be called while handling the drop event - the items are gone afterwards.
+ */
+export function getDroppedFolders(dataTransfer: DataTransfer): FileSystemEntry[] | null {
+	const entries = Array.from(dataTransfer.items)
+		.filter(item => item.kind === 'file')
+		.map(item => item.webkitGetAsEntry())
+		.filter((entry): entry is FileSystemEntry => entry !== null);
+	return entries.some(entry => entry.isDirectory) ? entries : null;
+}
+
+function readDirectoryBatch(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+	return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+function getEntryFile(entry: FileSystemFileEntry): Promise<File> {
+	return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function walkEntry(entry: FileSystemEntry, files: FolderFile[]): Promise<void> {
+	// fullPath starts with a slash
+	const path = entry.fullPath.replace(/^\//, '');
+	if (entry.isFile) {
+		files.push({ path, file: await getEntryFile(entry as FileSystemFileEntry) });
+		return;
+	}
+
+	// readEntries returns the children in batches until it returns an empty one
+	const reader = (entry as FileSystemDirectoryEntry).createReader();
+	let batch = await readDirectoryBatch(reader);
+	while (batch.length > 0) {
+		for (const child of batch) {
+			await walkEntry(child, files);
+		}
+		batch = await readDirectoryBatch(reader);
+	}
+}
+
+/**
+ * List all files in dropped folders (and files dropped next to them)
+ */
+export async function readDroppedFolders(entries: FileSystemEntry[]): Promise<FolderFile[]> {
+	const files: FolderFile[] = [];
+	for (const entry of entries) {
+		await walkEntry(entry, files);
+	}
+	return files;
+}
+
+/**
+ * Split the files of a folder into comment files and skipped files
+ */
+export function scanTakeoutFolder(files: FolderFile[]): TakeoutFolderScan {
+	const folderNames = new Set(files.map(f => f.path.split('/')[0]));
+	return {
+		folderName: folderNames.size === 1 ? [...folderNames][0] : `${folderNames.size} folders`,
+		commentFiles: files.filter(f => isCommentsFile(f.path)),
+		skipped: files.filter(f => !isCommentsFile(f.path)).map(f => f.path).sort()
+	};
+}
@@ -0,0 +1,114 @@
+/**
+ * Runs a Google Takeout import in the import worker (workers/takeoutImport.ts).
+ * The worker writes comments straight to IndexedDB; this side reports progress,
+ * forwards cancellation and parses HTML exports, which need the DOM.
+ */
+
+import { parseTakeoutHTML } from './takeout';
+import { saveComments, getStoredCommentIds, invalidateQueryCache } from './storage';
+import type {
+	TakeoutColumnMapping,
+	TakeoutColumnMappingRequest,
+	TakeoutHTMLFile,
+	TakeoutImportMessage,
+	TakeoutImportProgress,
+	TakeoutImportRequest,
+	TakeoutImportResult
+} from '$lib/types/takeout';
+
+// Parse and store the HTML exports the worker handed back
+async function importHTMLFiles(htmlFiles: TakeoutHTMLFile[], result: TakeoutImportResult): Promise<void> {
+	const seenIds = new Set(result.commentIds);
+	for (const file of htmlFiles) {
+		const parsed = parseTakeoutHTML(file.content, file.name);
+		const comments = parsed.comments.filter(c => !seenIds.has(c.id));
+		comments.forEach(c => seenIds.add(c.id));
+		result.files.push({ name: file.name, comments: comments.length, diagnostics: parsed.diagnostics });
+		if (comments.length === 0) continue;
+
+		const stored = await getStoredCommentIds(comments.map(c => c.id));
+		const fresh = comments.filter(c => !stored.has(c.id));
+		if (fresh.length > 0) {
+			await saveComments(fresh);
+		}
+		result.commentIds.push(...comments.map(c => c.id));
+		result.added += fresh.length;
+	}
+}
+
+/**
+ * Import takeout files (ZIP archives or CSV/JSON/HTML exports) into IndexedDB
+ * Comments that are already stored are kept as they are.
+ * Resolves to null when the import was cancelled through the signal - nothing is written then.
+ */
+export function importTakeoutFiles(
+	files: File[],
+	options: {
+		onProgress?: (progress: TakeoutImportProgress) => void;
+		// Pick the columns of a CSV whose headers weren't recognized (the guess is used without it)
+		onMappingRequest?: (request: TakeoutColumnMappingRequest) => Promise<TakeoutColumnMapping>;
+		signal?: AbortSignal;
+		paths?: string[]; // Names to report the files under (defaults to the file names)
+	} = {}
+): Promise<TakeoutImportResult | null> {
+	const { onProgress, onMappingRequest, signal, paths = files.map(file => file.name) } = options;
+
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			resolve(null);
+			return;
+		}
+
+		const worker = new Worker(new URL('../workers/takeoutImport.ts', import.meta.url), { type: 'module' });
+		const send = (request: TakeoutImportRequest) => worker.postMessage(request);
+
+		const onAbort = () => send({ type: 'cancel' });
+		const finish = () => {
+			signal?.removeEventListener('abort', onAbort);
+			worker.terminate();
+			// The worker wrote through its own connection
+			invalidateQueryCache();
+		};
+
+		worker.onmessage = async (event: MessageEvent<TakeoutImportMessage>) => {
+			const message = event.data;
+			switch (message.type) {
+				case 'progress':
+					onProgress?.(message);
+					break;
+				case 'mapping': {
+					const columns = onMappingRequest ? await onMappingRequest(message.request) : message.request.guess;
+					if (!signal?.aborted) send({ type: 'mapping', columns });
+					break;
+				}
+				case 'done': {
+					finish();
+					const result: TakeoutImportResult = { commentIds: message.commentIds, added: message.added, files: message.files };
+					try {
+						await importHTMLFiles(message.htmlFiles, result);
+						resolve(result);
+					} catch (e) {
+						reject(e);
+					}
+					break;
+				}
+				case 'cancelled':
+					finish();
+					resolve(null);
+					break;
+				case 'error':
+					finish();
+					reject(new Error(message.message));
+					break;
+			}
+		};
+
+		worker.onerror = (event) => {
+			finish();
+			reject(new Error(event.message || 'The import worker failed to start'));
+		};
+
+		signal?.addEventListener('abort', onAbort);
+		send({ type: 'start', files, paths });
+	});
+}
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { YouTubeService, QuotaExceededError, TokenExpiredError } from './youtube';
+import type { YouTubeComment } from '$lib/types/comment';
+
+// Proxy mode: the server charges the quota, so the service doesn't report usage itself
+vi.stubGlobal('window', { location: { origin: 'https://example.com' } });
+
+// Responses of the commentThreads lookups, one per batch of 50
+let responses: Array<() => Response>;
+
+vi.stubGlobal('fetch', async () => {
+	const next = responses.shift();
+	if (!next) throw new Error('Unexpected request');
+	return next();
+});
+
+function comment(id: string): YouTubeComment {
+	return {
+		id,
+		textDisplay: '',
+		textOriginal: '',
+		authorDisplayName: 'Me',
+		authorProfileImageUrl: '',
+		authorChannelUrl: '',
+		likeCount: 0,
+		publishedAt: '2020-06-15T12:00:00Z',
+		updatedAt: '2020-06-15T12:00:00Z',
+		videoId: 'video-1',
+		canRate: true,
+		viewerRating: 'none'
+	};
+}
+
+function apiError(code: number, reason: string, message = reason): Response {
+	return Response.json({ error: { code, message, errors: [{ reason }] } }, { status: code });
+}
+
+function threads(ids: string[], totalReplyCount: number): Response {
+	return Response.json({ items: ids.map(id => ({ snippet: { topLevelComment: { id }, totalReplyCount } })) });
+}
+
+// Two batches: c0-c49 and c50-c59
+const comments = Array.from({ length: 60 }, (_, i) => comment(`c${i}`));
+const secondBatch = comments.slice(50).map(c => c.id);
+
+describe('fetchCommentThreadDetails', () => {
+	let service: YouTubeService;
+
+	beforeEach(() => {
+		service = new YouTubeService(null, { useProxy: true });
+	});
+
+	it('skips a batch that fails and keeps going', async () => {
+		for (const failure of [
+			() => apiError(500, 'backendError'),
+			() => apiError(403, 'forbidden'),
+			() => apiError(404, 'commentNotFound'),
+			() => new Response('<html>Bad gateway</html>', { status: 502 })
+		]) {
+			responses = [failure, () => threads(secondBatch, 2)];
+			const result = await service.fetchCommentThreadDetails(comments);
+
+			expect(result).toHaveLength(60);
+			expect(result.filter(c => c.totalReplyCount === 2).map(c => c.id)).toEqual(secondBatch);
+			expect(result.find(c => c.id === 'c0')?.totalReplyCount).toBeUndefined();
+		}
+	});
+
+	it('stops on quota and auth errors', async () => {
+		responses = [() => apiError(403, 'quotaExceeded')];
+		await expect(service.fetchCommentThreadDetails(comments)).rejects.toBeInstanceOf(QuotaExceededError);
+
+		responses = [() => apiError(401, 'authError', 'Invalid Credentials')];
+		await expect(service.fetchCommentThreadDetails(comments)).rejects.toBeInstanceOf(TokenExpiredError);
+	});
+});
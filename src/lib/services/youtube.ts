@@ -1,9 +1,13 @@
-import type { YouTubeComment } from '$lib/types/comment';
+import type { YouTubeComment, CommentReply } from '$lib/types/comment';
+import type { CommentEdit } from '$lib/types/edit';
 import { quotaStore, QUOTA_COSTS } from '$lib/stores/quota';
-import { isSimulatedToken, getSimulatedVideoInfo, getSimulatedLikeCount, SIMULATED_USER, simulateDelay } from '$lib/utils/simulation';
+import { isSimulatedToken, getSimulatedVideoInfo, getSimulatedLikeCount, getSimulatedReplies, SIMULATED_USER, simulateDelay } from '$lib/utils/simulation';
 
 const YOUTUBE_API_BASE = 'https://www.googleapis.com/youtube/v3';
 
+// With Google Sign-In the server renews access tokens itself, so a rejected token means the sign-in ended
+export const SIGN_IN_EXPIRED_MESSAGE = 'Your Google sign-in has expired. Please sign in with Google again.';
+
 // Custom error types for better error handling
 export class YouTubeAPIError extends Error {
 	code: number;
@@ -73,6 +77,15 @@ interface YouTubeCommentListResponse {
 	};
 }
 
+// Comment resource returned by comments.update
+interface YouTubeCommentResource {
+	id: string;
+	snippet?: {
+		textOriginal: string;
+		updatedAt: string;
+	};
+}
+
 interface YouTubeVideoResponse {
 	items: {
 		id: string;
@@ -107,13 +120,52 @@ export interface TokenValidationResult {
 	errorType?: 'expired' | 'insufficientScopes' | 'noChannel' | 'quotaExceeded' | 'unknown';
 }
 
+export interface YouTubeServiceOptions {
+	// Send API calls through the server's /api/youtube proxy (developer OAuth mode),
+	// which adds the vaulted access token and charges the shared quota itself
+	useProxy?: boolean;
+	// Simulated session (the proxy is never called then)
+	simulated?: boolean;
+}
+
 export class YouTubeService {
-	private accessToken: string;
+	// Null in proxy mode - the access token never leaves the server's session vault
+	private accessToken: string | null;
+	private useProxy: boolean;
+	private simulated: boolean;
 	private rateLimitDelay = 100; // ms between requests
 	private channelId: string | null = null;
 
-	constructor(accessToken: string) {
+	constructor(accessToken: string | null, options: YouTubeServiceOptions = {}) {
 		this.accessToken = accessToken;
+		this.useProxy = options.useProxy ?? false;
+		this.simulated = options.simulated ?? (accessToken !== null && isSimulatedToken(accessToken));
+	}
+
+	/**
+	 * Request headers - the proxy authenticates with the session cookie instead of a bearer token
+	 */
+	private authHeaders(headers: Record<string, string> = {}): Record<string, string> {
+		if (this.useProxy || !this.accessToken) return headers;
+		return { 'Authorization': `Bearer ${this.accessToken}`, ...headers };
+	}
+
+	/**
+	 * Build the URL of a YouTube API resource, direct or via the server proxy
+	 */
+	private apiUrl(resource: string): URL {
+		return this.useProxy
+			? new URL(`/api/youtube/${resource}`, window.location.origin)
+			: new URL(`${YOUTUBE_API_BASE}/${resource}`);
+	}
+
+	/**
+	 * Track quota usage locally - proxied calls are charged by the server
+	 */
+	private trackUsage(units: number): void {
+		if (!this.useProxy) {
+			quotaStore.addUsage(units);
+		}
 	}
 
 	private async delay(ms: number): Promise<void> {
@@ -147,7 +199,7 @@ export class YouTubeService {
 			if (message.toLowerCase().includes('signup') || message.toLowerCase().includes('channel')) {
 				throw new NoChannelError();
 			}
-			throw new TokenExpiredError();
+			throw new TokenExpiredError(this.useProxy ? SIGN_IN_EXPIRED_MESSAGE : undefined);
 		}
 		
 		// Check message for common patterns
@@ -156,13 +208,25 @@ export class YouTubeService {
 		}
 		
 		if (message.toLowerCase().includes('unauthorized') || message.toLowerCase().includes('invalid credentials')) {
-			throw new TokenExpiredError();
+			throw new TokenExpiredError(this.useProxy ? SIGN_IN_EXPIRED_MESSAGE : undefined);
 		}
 		
 		// Generic error
 		throw new YouTubeAPIError(message || 'YouTube API request failed', code, reason);
 	}
 
+	/**
+	 * Read the error of a failed API response without throwing it
+	 */
+	private async readError(response: Response): Promise<YouTubeAPIError> {
+		try {
+			this.parseAndThrowError(await response.json() as YouTubeErrorResponse);
+		} catch (e) {
+			if (e instanceof YouTubeAPIError) return e;
+		}
+		return new YouTubeAPIError(`YouTube API request failed (HTTP ${response.status})`, response.status);
+	}
+
 	private async fetchWithRateLimit<T>(url: string): Promise<T> {
 		await this.delay(this.rateLimitDelay);
 		const response = await fetch(url);
@@ -180,7 +244,7 @@ export class YouTubeService {
 	 */
 	async validateToken(): Promise<TokenValidationResult> {
 		// Handle simulation mode
-		if (isSimulatedToken(this.accessToken)) {
+		if (this.simulated) {
 			console.log('[SIMULATION] Validating simulated token');
 			await simulateDelay(300);
 			this.channelId = SIMULATED_USER.channelId;
@@ -192,14 +256,12 @@ export class YouTubeService {
 		}
 		
 		try {
-			const url = new URL(`${YOUTUBE_API_BASE}/channels`);
+			const url = this.apiUrl('channels');
 			url.searchParams.set('part', 'snippet');
 			url.searchParams.set('mine', 'true');
 
 			const response = await fetch(url.toString(), {
-				headers: {
-					'Authorization': `Bearer ${this.accessToken}`
-				}
+				headers: this.authHeaders()
 			});
 
 			if (!response.ok) {
@@ -236,7 +298,9 @@ export class YouTubeService {
 				if (code === 401) {
 					return {
 						valid: false,
-						error: 'Your access token has expired or is invalid. Please generate a new token from the OAuth Playground.',
+						error: this.useProxy
+							? SIGN_IN_EXPIRED_MESSAGE
+							: 'Your access token has expired or is invalid. Please generate a new token from the OAuth Playground.',
 						errorType: 'expired'
 					};
 				}
@@ -290,18 +354,16 @@ export class YouTubeService {
 			return this.channelId;
 		}
 
-		const channelUrl = new URL(`${YOUTUBE_API_BASE}/channels`);
+		const channelUrl = this.apiUrl('channels');
 		channelUrl.searchParams.set('part', 'id');
 		channelUrl.searchParams.set('mine', 'true');
 
 		const channelResponse = await fetch(channelUrl.toString(), {
-			headers: {
-				'Authorization': `Bearer ${this.accessToken}`
-			}
+			headers: this.authHeaders()
 		});
 
 		// Track quota usage for channels list
-		quotaStore.addUsage(QUOTA_COSTS.channelsList);
+		this.trackUsage(QUOTA_COSTS.channelsList);
 
 		if (!channelResponse.ok) {
 			const error = await channelResponse.json() as YouTubeErrorResponse;
@@ -338,7 +400,7 @@ export class YouTubeService {
 		}> = {};
 		
 		// Handle simulation mode
-		if (isSimulatedToken(this.accessToken)) {
+		if (this.simulated) {
 			console.log('[SIMULATION] Fetching simulated video details for', videoIds.length, 'videos');
 			await simulateDelay(200);
 			
@@ -361,18 +423,16 @@ export class YouTubeService {
 		const batchSize = 50;
 		for (let i = 0; i < videoIds.length; i += batchSize) {
 			const batch = videoIds.slice(i, i + batchSize);
-			const url = new URL(`${YOUTUBE_API_BASE}/videos`);
+			const url = this.apiUrl('videos');
 			url.searchParams.set('part', 'snippet,status');
 			url.searchParams.set('id', batch.join(','));
 
 			const response = await fetch(url.toString(), {
-				headers: {
-					'Authorization': `Bearer ${this.accessToken}`
-				}
+				headers: this.authHeaders()
 			});
 
 			// Track quota usage for videos list
-			quotaStore.addUsage(QUOTA_COSTS.videosList);
+			this.trackUsage(QUOTA_COSTS.videosList);
 
 			if (response.ok) {
 				const data: YouTubeVideoResponse = await response.json();
@@ -446,7 +506,7 @@ export class YouTubeService {
 		const failed: Array<{ id: string; error: string }> = [];
 
 		// Handle simulation mode
-		if (isSimulatedToken(this.accessToken)) {
+		if (this.simulated) {
 			console.log('[SIMULATION] Simulating deletion of', commentIds.length, 'comments');
 			
 			for (let i = 0; i < commentIds.length; i++) {
@@ -461,18 +521,16 @@ export class YouTubeService {
 		for (let i = 0; i < commentIds.length; i++) {
 			const commentId = commentIds[i];
 			try {
-				const url = new URL(`${YOUTUBE_API_BASE}/comments`);
+				const url = this.apiUrl('comments');
 				url.searchParams.set('id', commentId);
 
 				const response = await fetch(url.toString(), {
 					method: 'DELETE',
-					headers: {
-						'Authorization': `Bearer ${this.accessToken}`
-					}
+					headers: this.authHeaders()
 				});
 
 				// Track quota usage for delete operation
-				quotaStore.addUsage(QUOTA_COSTS.commentsDelete);
+				this.trackUsage(QUOTA_COSTS.commentsDelete);
 
 				if (response.ok || response.status === 204) {
 					success.push(commentId);
@@ -520,21 +578,19 @@ export class YouTubeService {
 		quotaExceeded?: boolean;
 	}> {
 		// Handle simulation mode
-		if (isSimulatedToken(this.accessToken)) {
+		if (this.simulated) {
 			console.log('[SIMULATION] Simulating deletion of comment', commentId);
 			await simulateDelay(100);
 			return { success: true };
 		}
 
 		try {
-			const url = new URL(`${YOUTUBE_API_BASE}/comments`);
+			const url = this.apiUrl('comments');
 			url.searchParams.set('id', commentId);
 
 			const response = await fetch(url.toString(), {
 				method: 'DELETE',
-				headers: {
-					'Authorization': `Bearer ${this.accessToken}`
-				}
+				headers: this.authHeaders()
 			});
 
 			if (response.ok || response.status === 204) {
@@ -593,7 +649,7 @@ export class YouTubeService {
 		let quotaExceeded = false;
 
 		// Handle simulation mode
-		if (isSimulatedToken(this.accessToken)) {
+		if (this.simulated) {
 			console.log('[SIMULATION] Simulating parallel deletion of', commentIds.length, 'comments');
 			
 			for (let i = 0; i < commentIds.length; i += parallelCount) {
@@ -649,6 +705,94 @@ export class YouTubeService {
 		return { success, failed, quotaExceeded };
 	}
 
+	/**
+	 * Edit comments in place via comments.update
+	 * Stops at the first quota error, the remaining edits are left untouched
+	 */
+	async updateComments(
+		edits: CommentEdit[],
+		onProgress?: (processed: number, total: number) => void
+	): Promise<{
+		success: Array<{ id: string; text: string; updatedAt: string }>;
+		failed: Array<{ id: string; error: string }>;
+		quotaExceeded: boolean;
+	}> {
+		const success: Array<{ id: string; text: string; updatedAt: string }> = [];
+		const failed: Array<{ id: string; error: string }> = [];
+		let quotaExceeded = false;
+
+		// Handle simulation mode
+		if (this.simulated) {
+			console.log('[SIMULATION] Simulating update of', edits.length, 'comments');
+
+			for (let i = 0; i < edits.length; i++) {
+				await simulateDelay(100);
+				success.push({ id: edits[i].id, text: edits[i].after, updatedAt: new Date().toISOString() });
+				onProgress?.(i + 1, edits.length);
+			}
+
+			return { success, failed, quotaExceeded };
+		}
+
+		for (let i = 0; i < edits.length && !quotaExceeded; i++) {
+			const edit = edits[i];
+			try {
+				const url = this.apiUrl('comments');
+				url.searchParams.set('part', 'snippet');
+
+				const response = await fetch(url.toString(), {
+					method: 'PUT',
+					headers: this.authHeaders({ 'Content-Type': 'application/json' }),
+					body: JSON.stringify({ id: edit.id, snippet: { textOriginal: edit.after } })
+				});
+
+				// Track quota usage for update operation
+				if (!this.useProxy) {
+					quotaStore.addEditUsage(1);
+				}
+
+				if (response.ok) {
+					const data = await response.json() as YouTubeCommentResource;
+					success.push({
+						id: edit.id,
+						text: data.snippet?.textOriginal ?? edit.after,
+						updatedAt: data.snippet?.updatedAt ?? new Date().toISOString()
+					});
+				} else {
+					// Parse error response
+					let errorMessage = `HTTP ${response.status}`;
+					try {
+						const errorData = await response.json() as YouTubeErrorResponse;
+						const reason = errorData.error?.errors?.[0]?.reason;
+						if (reason === 'quotaExceeded' || reason === 'dailyLimitExceeded') {
+							errorMessage = 'Quota exceeded - try again tomorrow';
+							quotaExceeded = true;
+						} else if (reason === 'commentNotFound' || response.status === 404) {
+							errorMessage = 'Comment not found (may have been deleted)';
+						} else if (reason === 'forbidden' || response.status === 403) {
+							errorMessage = 'Permission denied - cannot edit this comment';
+						} else if (response.status === 401) {
+							errorMessage = 'Token expired - please reconnect';
+						} else {
+							errorMessage = errorData.error?.message || errorMessage;
+						}
+					} catch {
+						// Ignore JSON parse errors
+					}
+					failed.push({ id: edit.id, error: errorMessage });
+				}
+			} catch (e) {
+				const errorMessage = e instanceof Error ? e.message : 'Network error';
+				failed.push({ id: edit.id, error: errorMessage });
+			}
+
+			onProgress?.(i + 1, edits.length);
+			await this.delay(this.rateLimitDelay * 2); // Same pacing as delete operations
+		}
+
+		return { success, failed, quotaExceeded };
+	}
+
 	/**
 	 * Enrich comments with data from YouTube API using comments.list
 	 * Batches requests in groups of 50 (API limit)
@@ -667,7 +811,7 @@ export class YouTubeService {
 		const commentMap = new Map(comments.map(c => [c.id, c]));
 		
 		// Handle simulation mode
-		if (isSimulatedToken(this.accessToken)) {
+		if (this.simulated) {
 			console.log('[SIMULATION] Simulating enrichment for', comments.length, 'comments');
 			
 			const batchUpdates = new Map<string, Partial<YouTubeComment>>();
@@ -718,19 +862,17 @@ export class YouTubeService {
 			const batchUpdates = new Map<string, Partial<YouTubeComment>>();
 			
 			try {
-				const url = new URL(`${YOUTUBE_API_BASE}/comments`);
+				const url = this.apiUrl('comments');
 				url.searchParams.set('part', 'snippet');
 				url.searchParams.set('id', batch.join(','));
 				url.searchParams.set('textFormat', 'plainText');
 				
 				const response = await fetch(url.toString(), {
-					headers: {
-						'Authorization': `Bearer ${this.accessToken}`
-					}
+					headers: this.authHeaders()
 				});
 				
 				// Track quota usage
-				quotaStore.addUsage(QUOTA_COSTS.commentsList);
+				this.trackUsage(QUOTA_COSTS.commentsList);
 				
 				if (!response.ok) {
 					const errorData = await response.json() as YouTubeErrorResponse;
@@ -881,19 +1023,23 @@ export class YouTubeService {
 			const ids = batch.map(c => c.id);
 			
 			try {
-				const url = new URL(`${YOUTUBE_API_BASE}/commentThreads`);
+				const url = this.apiUrl('commentThreads');
 				url.searchParams.set('part', 'snippet,replies');
 				url.searchParams.set('id', ids.join(','));
 				
 				const response = await fetch(url.toString(), {
-					headers: {
-						'Authorization': `Bearer ${this.accessToken}`
-					}
+					headers: this.authHeaders()
 				});
 				
-				quotaStore.addUsage(QUOTA_COSTS.commentThreadsList);
+				this.trackUsage(QUOTA_COSTS.commentThreadsList);
 				
-				if (response.ok) {
+				if (!response.ok) {
+					// Only quota and auth errors end the pass, other failed lookups just skip this batch
+					const error = await this.readError(response);
+					if (error instanceof QuotaExceededError || error instanceof TokenExpiredError) {
+						throw error;
+					}
+				} else {
 					const data = await response.json();
 					
 					for (const item of data.items || []) {
@@ -943,6 +1089,142 @@ export class YouTubeService {
 		return Array.from(enrichedComments.values());
 	}
 
+	/**
+	 * Load the reply threads under top-level comments
+	 * Reply counts come from commentThreads.list first, so only threads that actually
+	 * have replies are fetched via comments.list?parentId= (1 unit per 100 replies)
+	 */
+	async fetchReplyThreads(
+		comments: YouTubeComment[],
+		onProgress?: (processed: number, total: number) => void,
+		onBatchComplete?: (batchUpdates: Map<string, Partial<YouTubeComment>>) => void
+	): Promise<{ withReplies: number; errors: Array<{ id: string; error: string }> }> {
+		const topLevelComments = comments.filter(c => !c.parentId);
+		const errors: Array<{ id: string; error: string }> = [];
+		let withReplies = 0;
+		
+		// Handle simulation mode
+		if (this.simulated) {
+			console.log('[SIMULATION] Simulating reply threads for', topLevelComments.length, 'comments');
+			
+			const batchUpdates = new Map<string, Partial<YouTubeComment>>();
+			for (const comment of topLevelComments) {
+				await simulateDelay(10);
+				const replies = getSimulatedReplies(comment.id, SIMULATED_USER.channelId);
+				batchUpdates.set(comment.id, this.buildReplyThreadUpdate(replies));
+				if (replies.length > 0) withReplies++;
+			}
+			
+			if (onBatchComplete && batchUpdates.size > 0) {
+				onBatchComplete(batchUpdates);
+			}
+			onProgress?.(topLevelComments.length, topLevelComments.length);
+			
+			return { withReplies, errors };
+		}
+		
+		const myChannelId = await this.fetchMyChannelId();
+		
+		// Reply counts for all threads (most comments never get a reply)
+		const withCounts = await this.fetchCommentThreadDetails(topLevelComments, onProgress);
+		const threads = withCounts.filter(c => (c.totalReplyCount ?? 0) > 0);
+		
+		// Threads without replies are done already
+		const emptyUpdates = new Map<string, Partial<YouTubeComment>>();
+		for (const comment of withCounts) {
+			if (comment.totalReplyCount === 0) {
+				emptyUpdates.set(comment.id, this.buildReplyThreadUpdate([]));
+			}
+		}
+		if (onBatchComplete && emptyUpdates.size > 0) {
+			onBatchComplete(emptyUpdates);
+		}
+		
+		const batchSize = 10;
+		for (let i = 0; i < threads.length; i += batchSize) {
+			const batchUpdates = new Map<string, Partial<YouTubeComment>>();
+			
+			for (const comment of threads.slice(i, i + batchSize)) {
+				try {
+					const replies = await this.fetchCommentReplies(comment.id, myChannelId);
+					batchUpdates.set(comment.id, this.buildReplyThreadUpdate(replies));
+					withReplies++;
+				} catch (e) {
+					if (e instanceof QuotaExceededError || e instanceof TokenExpiredError) {
+						if (onBatchComplete && batchUpdates.size > 0) onBatchComplete(batchUpdates);
+						throw e;
+					}
+					errors.push({ id: comment.id, error: e instanceof Error ? e.message : 'Failed to load replies' });
+				}
+			}
+			
+			if (onBatchComplete && batchUpdates.size > 0) {
+				onBatchComplete(batchUpdates);
+			}
+			onProgress?.(Math.min(i + batchSize, threads.length), threads.length);
+		}
+		
+		return { withReplies, errors };
+	}
+
+	/**
+	 * Fetch all replies under a top-level comment (paginated)
+	 */
+	private async fetchCommentReplies(parentId: string, myChannelId: string): Promise<CommentReply[]> {
+		const replies: CommentReply[] = [];
+		let pageToken: string | undefined;
+		
+		do {
+			const url = this.apiUrl('comments');
+			url.searchParams.set('part', 'snippet');
+			url.searchParams.set('parentId', parentId);
+			url.searchParams.set('maxResults', '100');
+			url.searchParams.set('textFormat', 'plainText');
+			if (pageToken) url.searchParams.set('pageToken', pageToken);
+			
+			const response = await fetch(url.toString(), {
+				headers: this.authHeaders()
+			});
+			
+			this.trackUsage(QUOTA_COSTS.commentsList);
+			
+			if (!response.ok) {
+				const errorData = await response.json() as YouTubeErrorResponse;
+				this.parseAndThrowError(errorData);
+			}
+			
+			const data = await response.json();
+			for (const item of data.items || []) {
+				const snippet = item.snippet || {};
+				replies.push({
+					id: item.id,
+					textOriginal: snippet.textOriginal || snippet.textDisplay || '',
+					authorDisplayName: snippet.authorDisplayName || 'Unknown',
+					authorProfileImageUrl: snippet.authorProfileImageUrl || '',
+					authorChannelUrl: snippet.authorChannelUrl || '',
+					likeCount: snippet.likeCount || 0,
+					publishedAt: snippet.publishedAt || '',
+					isOwnReply: snippet.authorChannelId?.value === myChannelId
+				});
+			}
+			pageToken = data.nextPageToken;
+			
+			await this.delay(this.rateLimitDelay);
+		} while (pageToken);
+		
+		// Oldest first, like on YouTube
+		return replies.sort((a, b) => a.publishedAt.localeCompare(b.publishedAt));
+	}
+
+	private buildReplyThreadUpdate(replies: CommentReply[]): Partial<YouTubeComment> {
+		return {
+			totalReplyCount: replies.length,
+			replies: replies.length > 0 ? replies : undefined,
+			otherReplyCount: replies.filter(r => !r.isOwnReply).length,
+			repliesFetchedAt: new Date().toISOString()
+		};
+	}
+
 	/**
 	 * Re-enrich already enriched comments to update like counts
 	 * Unlike full enrichment, this skips video info (titles, channels) since they don't change
@@ -959,7 +1241,7 @@ export class YouTubeService {
 		const commentMap = new Map(comments.map(c => [c.id, c]));
 		
 		// Handle simulation mode
-		if (isSimulatedToken(this.accessToken)) {
+		if (this.simulated) {
 			console.log('[SIMULATION] Simulating re-enrichment for', comments.length, 'comments');
 			
 			const batchUpdates = new Map<string, Partial<YouTubeComment>>();
@@ -999,19 +1281,17 @@ export class YouTubeService {
 			const batchUpdates = new Map<string, Partial<YouTubeComment>>();
 			
 			try {
-				const url = new URL(`${YOUTUBE_API_BASE}/comments`);
+				const url = this.apiUrl('comments');
 				url.searchParams.set('part', 'snippet');
 				url.searchParams.set('id', batch.join(','));
 				url.searchParams.set('textFormat', 'plainText');
 				
 				const response = await fetch(url.toString(), {
-					headers: {
-						'Authorization': `Bearer ${this.accessToken}`
-					}
+					headers: this.authHeaders()
 				});
 				
 				// Track quota usage
-				quotaStore.addUsage(QUOTA_COSTS.commentsList);
+				this.trackUsage(QUOTA_COSTS.commentsList);
 				
 				if (!response.ok) {
 					const errorData = await response.json() as YouTubeErrorResponse;
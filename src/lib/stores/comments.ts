@@ -1,6 +1,12 @@
 import { writable, derived, get } from 'svelte/store';
 import type { YouTubeComment, CommentFilters, SortField, SortOrder, CommentLabel } from '$lib/types/comment';
+import type { SearchMode } from '$lib/types/search';
+import type { DeletionRunState, TrashEntry } from '$lib/types/deletion';
+import type { ProtectionEntry } from '$lib/types/protection';
 import { saveSlashQueue, loadSlashQueue, clearSlashQueue, type SlashQueueData } from '$lib/services/storage';
+import { parseSearchQuery, matchesSearchQuery, scoreSearchMatch } from '$lib/utils/searchQuery';
+import { getRepliesFromOthers } from '$lib/utils/replies';
+import { createProtectionMatcher } from '$lib/utils/protection';
 
 // Authentication store
 export const apiKey = writable<string>('');
@@ -11,6 +17,24 @@ export const comments = writable<YouTubeComment[]>([]);
 export const selectedIds = writable<Set<string>>(new Set());
 // Track selection order (most recently added first)
 export const selectionOrder = writable<string[]>([]);
+// Active deletion run (persisted with the queue, see stores/deletionRun)
+export const deletionRun = writable<DeletionRunState | null>(null);
+// Confirmed comments held back before deletion (persisted with the queue, see stores/trash)
+export const trash = writable<TrashEntry[]>([]);
+// Comments, videos and channels pinned as "keep" (see stores/protection)
+export const protectionList = writable<ProtectionEntry[]>([]);
+export const isProtected = derived(protectionList, $protectionList => createProtectionMatcher($protectionList));
+
+// Drop protected comments - they are silently skipped by every way into the queue
+export function withoutProtected(ids: string[]): string[] {
+	if (get(protectionList).length === 0) return ids;
+	const check = get(isProtected);
+	const byId = new Map(get(comments).map(c => [c.id, c]));
+	return ids.filter(id => {
+		const comment = byId.get(id);
+		return !comment || !check(comment);
+	});
+}
 
 // Flag to track if queue has been loaded from storage
 let queueLoadedFromStorage = false;
@@ -25,21 +49,36 @@ function persistSlashQueue(): void {
 		clearTimeout(saveQueueTimeout);
 	}
 	
-	saveQueueTimeout = setTimeout(async () => {
-		const ids = get(selectedIds);
-		const order = get(selectionOrder);
-		
-		if (ids.size === 0) {
-			// Clear queue from storage if empty
-			await clearSlashQueue();
-		} else {
-			// Save current queue state
-			await saveSlashQueue({
-				selectedIds: Array.from(ids),
-				selectionOrder: order
-			});
-		}
-	}, SAVE_QUEUE_DEBOUNCE_MS);
+	saveQueueTimeout = setTimeout(writeSlashQueue, SAVE_QUEUE_DEBOUNCE_MS);
+}
+
+// Save slash queue immediately (deletion progress must not be lost on reload)
+export async function persistSlashQueueNow(): Promise<void> {
+	if (saveQueueTimeout) {
+		clearTimeout(saveQueueTimeout);
+		saveQueueTimeout = null;
+	}
+	await writeSlashQueue();
+}
+
+async function writeSlashQueue(): Promise<void> {
+	const ids = get(selectedIds);
+	const order = get(selectionOrder);
+	const run = get(deletionRun);
+	const trashed = get(trash);
+	
+	if (ids.size === 0 && !run && trashed.length === 0) {
+		// Clear queue from storage if empty
+		await clearSlashQueue();
+	} else {
+		// Save current queue state
+		await saveSlashQueue({
+			selectedIds: Array.from(ids),
+			selectionOrder: order,
+			deletionRun: run ?? undefined,
+			trash: trashed.length > 0 ? trashed : undefined
+		});
+	}
 }
 
 // Load slash queue from storage (call after comments are loaded)
@@ -49,6 +88,10 @@ export async function loadPersistedSlashQueue(): Promise<void> {
 	const saved = await loadSlashQueue();
 	if (!saved) return;
 	
+	if (saved.deletionRun) {
+		deletionRun.set(saved.deletionRun);
+	}
+	
 	// Get current comments to validate persisted IDs still exist
 	const currentComments = get(comments);
 	const validIds = new Set(currentComments.map(c => c.id));
@@ -62,6 +105,11 @@ export async function loadPersistedSlashQueue(): Promise<void> {
 		selectionOrder.set(validSelectionOrder);
 	}
 	
+	const validTrash = (saved.trash ?? []).filter(entry => validIds.has(entry.commentId));
+	if (validTrash.length > 0) {
+		trash.set(validTrash);
+	}
+	
 	queueLoadedFromStorage = true;
 }
 
@@ -80,6 +128,7 @@ export const filters = writable<CommentFilters>({
 	maxLikes: 1000000,
 	labels: undefined,
 	showOnlyWithErrors: false,
+	onlyWithReplies: false,
 	channelFilter: undefined,
 	dateRange: undefined
 });
@@ -92,13 +141,15 @@ export const sortOrder = writable<SortOrder>('desc');
 export const searchQuery = writable<string>('');
 
 // Search mode: 'all' | 'comments' | 'videos' | 'channels'
-export type SearchMode = 'all' | 'comments' | 'videos' | 'channels';
+export type { SearchMode };
 export const searchMode = writable<SearchMode>('all');
 
 // Filtered and sorted comments
 export const filteredComments = derived(
 	[comments, filters, sortField, sortOrder, searchQuery, searchMode],
 	([$comments, $filters, $sortField, $sortOrder, $searchQuery, $searchMode]) => {
+		const searchAst = $searchQuery ? parseSearchQuery($searchQuery).root : null;
+
 		let result = $comments.filter(comment => {
 			// Video privacy filter
 			const privacyStatus = comment.videoPrivacyStatus || 'unknown';
@@ -125,6 +176,9 @@ export const filteredComments = derived(
 			// Show only comments with delete errors
 			if ($filters.showOnlyWithErrors && !comment.lastDeleteError) return false;
 
+			// Only comments that got replies from other people
+			if ($filters.onlyWithReplies && getRepliesFromOthers(comment) === 0) return false;
+
 			// Channel filter - filter by channel ID
 			if ($filters.channelFilter) {
 				if (comment.videoChannelId !== $filters.channelFilter.channelId) return false;
@@ -137,42 +191,23 @@ export const filteredComments = derived(
 				if ($filters.dateRange.endDate && commentDate > $filters.dateRange.endDate) return false;
 			}
 
-			// Search query filter with mode support
-			if ($searchQuery) {
-				const query = $searchQuery.toLowerCase();
-				
-				switch ($searchMode) {
-					case 'comments':
-						// Only search in comment text
-						if (!comment.textOriginal.toLowerCase().includes(query)) return false;
-						break;
-					case 'videos':
-						// Only search in video titles
-						if (!comment.videoTitle?.toLowerCase().includes(query)) return false;
-						break;
-					case 'channels':
-						// Only search in channel names
-						if (!comment.videoChannelTitle?.toLowerCase().includes(query)) return false;
-						break;
-					case 'all':
-					default:
-						// Search in all fields
-						const matchesText = comment.textOriginal.toLowerCase().includes(query);
-						const matchesVideo = comment.videoTitle?.toLowerCase().includes(query);
-						const matchesChannel = comment.videoChannelTitle?.toLowerCase().includes(query);
-						if (!matchesText && !matchesVideo && !matchesChannel) return false;
-						break;
-				}
-			}
+			// Search query filter (parsed once per update, see utils/searchQuery)
+			if (searchAst && !matchesSearchQuery(searchAst, comment, $searchMode)) return false;
 
 			return true;
 		});
 
+		// Relevance scores for the matches, only when ranking a search
+		const scores = $sortField === 'relevance' && searchAst
+			? new Map(result.map(comment => [comment.id, scoreSearchMatch(searchAst, comment, $searchMode)]))
+			: null;
+		const effectiveSortField = $sortField === 'relevance' && !scores ? 'publishedAt' : $sortField;
+
 		// Sort
 		result = [...result].sort((a, b) => {
 			let comparison = 0;
 			
-			switch ($sortField) {
+			switch (effectiveSortField) {
 				case 'likeCount':
 					comparison = a.likeCount - b.likeCount;
 					break;
@@ -182,6 +217,9 @@ export const filteredComments = derived(
 				case 'textLength':
 					comparison = a.textOriginal.length - b.textOriginal.length;
 					break;
+				case 'relevance':
+					comparison = (scores?.get(a.id) ?? 0) - (scores?.get(b.id) ?? 0);
+					break;
 			}
 
 			return $sortOrder === 'desc' ? -comparison : comparison;
@@ -219,6 +257,7 @@ export const stats = derived(comments, ($comments) => ({
 
 // Actions
 export function selectComment(id: string): void {
+	if (withoutProtected([id]).length === 0) return;
 	// Add to selection order first (most recent at the beginning)
 	selectionOrder.update(order => {
 		// Remove if already exists (will re-add at beginning)
@@ -243,7 +282,15 @@ export function deselectComment(id: string): void {
 	persistSlashQueue();
 }
 
+export function deselectComments(idsToRemove: string[]): void {
+	const removed = new Set(idsToRemove);
+	selectionOrder.update(order => order.filter(i => !removed.has(i)));
+	selectedIds.update(ids => new Set([...ids].filter(id => !removed.has(id))));
+	persistSlashQueue();
+}
+
 export function toggleComment(id: string): void {
+	if (!get(selectedIds).has(id) && withoutProtected([id]).length === 0) return;
 	selectedIds.update(ids => {
 		const newIds = new Set(ids);
 		if (newIds.has(id)) {
@@ -260,7 +307,8 @@ export function toggleComment(id: string): void {
 }
 
 export function selectAllFiltered(): void {
-	const filtered = get(filteredComments);
+	const check = get(isProtected);
+	const filtered = get(filteredComments).filter(c => !check(c));
 	const currentIds = get(selectedIds);
 	const currentOrder = get(selectionOrder);
 	
@@ -279,6 +327,26 @@ export function selectAllFiltered(): void {
 	persistSlashQueue();
 }
 
+/**
+ * Add a batch of comment IDs to the slash queue (used by selection rules)
+ * Returns the number of IDs that were not already queued
+ */
+export function selectComments(ids: string[]): number {
+	const currentIds = get(selectedIds);
+	const newIds = withoutProtected([...new Set(ids)]).filter(id => !currentIds.has(id));
+	if (newIds.length === 0) return 0;
+
+	// New IDs go to the beginning, existing order preserved
+	selectionOrder.update(order => [...newIds, ...order]);
+	selectedIds.update(current => {
+		const updated = new Set(current);
+		newIds.forEach(id => updated.add(id));
+		return updated;
+	});
+	persistSlashQueue();
+	return newIds.length;
+}
+
 export function deselectAll(): void {
 	selectedIds.set(new Set());
 	selectionOrder.set([]);
@@ -287,6 +355,7 @@ export function deselectAll(): void {
 
 export function removeComments(ids: string[]): void {
 	comments.update(current => current.filter(c => !ids.includes(c.id)));
+	trash.update(entries => entries.filter(entry => !ids.includes(entry.commentId)));
 	selectionOrder.update(order => order.filter(id => !ids.includes(id)));
 	selectedIds.update(current => {
 		const newIds = new Set(current);
@@ -405,6 +474,7 @@ export function resetFilters(): void {
 		maxLikes: 1000000,
 		labels: undefined,
 		showOnlyWithErrors: false,
+		onlyWithReplies: false,
 		channelFilter: undefined,
 		dateRange: undefined
 	});
@@ -448,6 +518,9 @@ export function logout(): void {
 	comments.set([]);
 	selectedIds.set(new Set());
 	selectionOrder.set([]);
+	deletionRun.set(null);
+	trash.set([]);
+	protectionList.set([]);
 	error.set(null);
 	resetFilters();
 }
@@ -0,0 +1,39 @@
+import { writable } from 'svelte/store';
+import type { DeletionRecord } from '$lib/types/deletion';
+import { saveDeletionRecords, loadDeletionHistory, clearDeletionHistory } from '$lib/services/storage';
+
+function createDeletionHistoryStore() {
+	const { subscribe, set, update } = writable<DeletionRecord[]>([]);
+	let loaded = false;
+
+	return {
+		subscribe,
+
+		// Load receipts from IndexedDB (only once per page load)
+		async load(): Promise<void> {
+			if (loaded) return;
+			set(await loadDeletionHistory());
+			loaded = true;
+		},
+
+		// Record the results of a deletion run
+		async add(records: DeletionRecord[]): Promise<void> {
+			if (records.length === 0) return;
+			await saveDeletionRecords(records);
+			const newest = [...records].sort((a, b) => b.attemptedAt - a.attemptedAt);
+			update(existing => [...newest, ...existing]);
+		},
+
+		async clear(): Promise<void> {
+			await clearDeletionHistory();
+			set([]);
+		},
+
+		// Forget in-memory receipts after all data was cleared
+		reset(): void {
+			set([]);
+		}
+	};
+}
+
+export const deletionHistory = createDeletionHistoryStore();
@@ -0,0 +1,95 @@
+import { writable, derived } from 'svelte/store';
+import type { DeletionJobProgress, DeletionJobSummary } from '$lib/types/deletion';
+
+// Server-side deletion jobs of the signed-in user (developer OAuth mode, opt-in)
+// Live updates arrive as "job" (full job) and "job-progress" (counters and new results) events on the quota SSE stream
+function createDeletionJobsStore() {
+	const { subscribe, set, update } = writable<DeletionJobSummary[]>([]);
+
+	// Fetch the current jobs from the server
+	const load = async (): Promise<void> => {
+		try {
+			const response = await fetch('/api/jobs');
+			if (!response.ok) return;
+			const data = await response.json();
+			set(data.jobs || []);
+		} catch (e) {
+			console.debug('Server deletion jobs not available:', e);
+		}
+	};
+
+	return {
+		subscribe,
+		load,
+
+		// Queue comments for deletion on the server
+		async create(commentIds: string[]): Promise<{ success: boolean; message?: string }> {
+			try {
+				const response = await fetch('/api/jobs', {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({ commentIds })
+				});
+				const data = await response.json();
+				if (!response.ok || !data.success) {
+					return { success: false, message: data.message || 'Failed to queue deletion job' };
+				}
+				update(jobs => [data.job, ...jobs.filter(j => j.id !== data.job.id)]);
+				return { success: true };
+			} catch (e) {
+				return { success: false, message: e instanceof Error ? e.message : 'Failed to queue deletion job' };
+			}
+		},
+
+		async cancel(jobId: string): Promise<boolean> {
+			try {
+				const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' });
+				// Refresh in case the SSE stream isn't connected
+				if (response.ok) await load();
+				return response.ok;
+			} catch {
+				return false;
+			}
+		},
+
+		// Apply a full job from the SSE stream
+		applyUpdate(job: DeletionJobSummary): void {
+			update(jobs => {
+				const index = jobs.findIndex(j => j.id === job.id);
+				if (index === -1) return [job, ...jobs];
+				const next = [...jobs];
+				next[index] = job;
+				return next;
+			});
+		},
+
+		// Merge a progress event from the SSE stream into the known job
+		applyProgress(progress: DeletionJobProgress): void {
+			const { deletedCount: _deletedCount, failedCount: _failedCount, newlyDeletedIds, newlyFailed, ...summary } = progress;
+			update(jobs => {
+				const index = jobs.findIndex(j => j.id === progress.id);
+				const previous = index === -1 ? { deletedIds: [], failed: [] } : jobs[index];
+				// A stream that just connected may get results again that its full job already had
+				const deletedIds = [...new Set([...previous.deletedIds, ...newlyDeletedIds])];
+				const knownFailed = new Set(previous.failed.map(f => f.id));
+				const failed = [...previous.failed, ...newlyFailed.filter(f => !knownFailed.has(f.id))];
+				const job: DeletionJobSummary = { ...summary, deletedIds, failed };
+				if (index === -1) return [job, ...jobs];
+				const next = [...jobs];
+				next[index] = job;
+				return next;
+			});
+		},
+
+		reset(): void {
+			set([]);
+		}
+	};
+}
+
+export const deletionJobs = createDeletionJobsStore();
+
+// Jobs that still have work to do
+export const activeDeletionJobs = derived(deletionJobs, $jobs =>
+	$jobs.filter(job => job.status === 'queued' || job.status === 'running' || job.status === 'waiting')
+);
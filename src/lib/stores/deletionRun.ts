@@ -0,0 +1,120 @@
+/**
+ * Resumable deletion runs.
+ * A run covers the whole slash queue and may span several deletion sessions:
+ * when the daily quota is exhausted it waits for the Pacific midnight reset and
+ * continues. Every attempt is persisted with the slash queue right away, so a
+ * reload never loses track of comments that were already deleted.
+ */
+
+import { get } from 'svelte/store';
+import { deletionRun, persistSlashQueueNow } from './comments';
+import { getTimeUntilPacificMidnight } from '$lib/utils/timezone';
+import type { DeletionRunState } from '$lib/types/deletion';
+
+// Resume a little after midnight so the server has reset the quota
+const RESET_BUFFER_MS = 2 * 60 * 1000;
+// If the quota is still exhausted right after a reset, check again soon instead of waiting a day
+const RESET_RETRY_MS = 15 * 60 * 1000;
+const JUST_RESET_WINDOW_MS = 60 * 60 * 1000;
+
+// Without comment IDs the run covers the whole slash queue
+export async function startDeletionRun(autoResume: boolean, commentIds?: string[]): Promise<void> {
+	deletionRun.set({
+		autoResume,
+		status: 'running',
+		startedAt: Date.now(),
+		attempted: {},
+		failedIds: [],
+		deleted: 0,
+		failed: 0,
+		commentIds
+	});
+	await persistSlashQueueNow();
+}
+
+// Queued comments the run still has to delete (skips the ones that already failed during the run)
+export function getDeletionRunComments<T extends { id: string }>(queue: T[], run: DeletionRunState | null): T[] {
+	const skippedIds = new Set(run?.failedIds ?? []);
+	const scope = run?.commentIds ? new Set(run.commentIds) : null;
+	return queue.filter(c => !skippedIds.has(c.id) && (!scope || scope.has(c.id)));
+}
+
+export async function beginDeletionSession(sessionId: string): Promise<void> {
+	if (!get(deletionRun)) return;
+	deletionRun.update(run => run && { ...run, status: 'running', resumeAt: undefined, inLine: undefined, sessionId });
+	await persistSlashQueueNow();
+}
+
+// Record a single attempt (error null = deleted) before anything else happens to the comment
+export async function recordDeletionAttempt(commentId: string, error: string | null): Promise<void> {
+	if (!get(deletionRun)) return;
+	deletionRun.update(run => run && {
+		...run,
+		attempted: { ...run.attempted, [commentId]: error },
+		deleted: run.deleted + (error === null ? 1 : 0),
+		failed: run.failed + (error === null ? 0 : 1)
+	});
+	await persistSlashQueueNow();
+}
+
+// Attempts have been applied to the queue and storage - failures are remembered so the run skips them.
+// Quota errors are not the comment's fault, those are retried after the reset.
+export async function settleDeletionAttempts(commentIds: string[]): Promise<void> {
+	const run = get(deletionRun);
+	if (!run || commentIds.length === 0) return;
+	const attempted = { ...run.attempted };
+	const failedIds = new Set(run.failedIds);
+	for (const id of commentIds) {
+		const error = attempted[id];
+		if (error && !error.toLowerCase().includes('quota')) failedIds.add(id);
+		delete attempted[id];
+	}
+	deletionRun.set({ ...run, attempted, failedIds: Array.from(failedIds) });
+	await persistSlashQueueNow();
+}
+
+/**
+ * Pause the run until the next daily quota reset.
+ * Returns the time until the run resumes in milliseconds.
+ */
+export async function waitForQuotaReset(): Promise<number> {
+	const untilMidnight = getTimeUntilPacificMidnight().totalMs;
+	const msPerDay = 24 * 60 * 60 * 1000;
+	const delay = msPerDay - untilMidnight < JUST_RESET_WINDOW_MS
+		? RESET_RETRY_MS
+		: untilMidnight + RESET_BUFFER_MS;
+	await pauseDeletionRun(delay);
+	return delay;
+}
+
+/**
+ * Pause the run after an unexpected error and try again a little later.
+ * Returns the time until the run resumes in milliseconds.
+ */
+export async function retryDeletionRunLater(): Promise<number> {
+	await pauseDeletionRun(RESET_RETRY_MS);
+	return RESET_RETRY_MS;
+}
+
+/**
+ * Wait in line for a fair share of the shared quota (developer OAuth mode).
+ * The run asks again after the given delay, whether or not it resumes after quota resets.
+ */
+export async function waitInLineForQuota(retryAfterMs: number): Promise<void> {
+	if (!get(deletionRun)) return;
+	deletionRun.update(run => run && { ...run, status: 'waiting', resumeAt: Date.now() + retryAfterMs, inLine: true });
+	await persistSlashQueueNow();
+}
+
+// Pause the run and continue after the given delay
+export async function pauseDeletionRun(delayMs: number): Promise<void> {
+	if (!get(deletionRun)) return;
+	deletionRun.update(run => run && { ...run, status: 'waiting', resumeAt: Date.now() + delayMs });
+	await persistSlashQueueNow();
+}
+
+export async function endDeletionRun(): Promise<void> {
+	if (!get(deletionRun)) return;
+	deletionRun.set(null);
+	await persistSlashQueueNow();
+}
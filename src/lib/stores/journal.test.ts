@@ -0,0 +1,81 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { get } from 'svelte/store';
+import { journal, undoStack } from './journal';
+import { comments } from './comments';
+import { saveComments, deleteComments, loadComments, loadJournal, clearAllData } from '$lib/services/storage';
+import type { YouTubeComment } from '$lib/types/comment';
+
+function comment(id: string, overrides: Partial<YouTubeComment> = {}): YouTubeComment {
+	return {
+		id,
+		textDisplay: '',
+		textOriginal: '',
+		authorDisplayName: 'Me',
+		authorProfileImageUrl: '',
+		authorChannelUrl: '',
+		likeCount: 0,
+		publishedAt: '2020-06-15T12:00:00Z',
+		updatedAt: '2020-06-15T12:00:00Z',
+		videoId: 'video-1',
+		canRate: true,
+		viewerRating: 'none',
+		...overrides
+	};
+}
+
+const ids = (list: YouTubeComment[]) => list.map(c => c.id).sort();
+
+beforeEach(async () => {
+	await clearAllData();
+	journal.reset();
+	comments.set([]);
+});
+
+describe('journal', () => {
+	it('brings removed comments back, keeping ones re-imported since', async () => {
+		const [a, b, c] = [comment('a'), comment('b'), comment('c')];
+		await saveComments([a, b, c]);
+		comments.set([a, b, c]);
+
+		await journal.record('remove', 'Removed 2 comment(s)', [a, b]);
+		await deleteComments(['a', 'b']);
+		comments.set([c]);
+
+		// b comes back with a takeout import before the undo
+		const reimported = { ...b, textOriginal: 'edited since' };
+		await saveComments([reimported]);
+		comments.set([c, reimported]);
+
+		expect(await journal.undo(get(journal)[0].id)).toBe(1);
+		expect(ids(get(comments))).toEqual(['a', 'b', 'c']);
+		expect(get(comments).find(x => x.id === 'b')?.textOriginal).toBe('edited since');
+		expect(ids(await loadComments())).toEqual(['a', 'b', 'c']);
+	});
+
+	it('reverts labels only, keeping later updates', async () => {
+		const before = comment('a', { likeCount: 1 });
+		await journal.record('label', 'Marked 1 comment(s) as unenrichable', [before]);
+		comments.set([{ ...before, likeCount: 7, labels: ['unenrichable'], isUnenrichable: true }]);
+
+		expect(await journal.undo(get(journal)[0].id)).toBe(1);
+		expect(get(comments)[0]).toMatchObject({ likeCount: 7, labels: undefined, isUnenrichable: undefined });
+	});
+
+	it('undoes an operation once and keeps it in the stored history', async () => {
+		comments.set([comment('a')]);
+		await journal.record('wipe', 'Wiped 1 comment(s)', get(comments));
+		await journal.record('remove', 'Nothing removed', []);
+		comments.set([]);
+		const [entry] = get(journal);
+
+		expect(get(undoStack)).toHaveLength(1);
+		expect(await journal.undo(entry.id)).toBe(1);
+		expect(await journal.undo(entry.id)).toBe(0);
+		expect(get(undoStack)).toEqual([]);
+
+		const stored = await loadJournal();
+		expect(stored).toHaveLength(1);
+		expect(stored[0]).toMatchObject({ id: entry.id, action: 'wipe', undoneAt: expect.any(Number) });
+	});
+});
@@ -0,0 +1,94 @@
+import { writable, derived, get } from 'svelte/store';
+import type { YouTubeComment } from '$lib/types/comment';
+import type { JournalAction, JournalEntry } from '$lib/types/journal';
+import { saveJournalEntry, loadJournal, saveComments } from '$lib/services/storage';
+import { comments, isAuthenticated } from './comments';
+import { forceReloadSlidingWindow } from './slidingWindow';
+
+// Undoing these brings the removed comments back
+const REMOVAL_ACTIONS: JournalAction[] = ['remove', 'wipe'];
+
+// Undoing a label change only reverts the label state, so later updates (e.g. enrichment) are kept
+function revertLabels(current: YouTubeComment, before: YouTubeComment): YouTubeComment {
+	return {
+		...current,
+		labels: before.labels,
+		isUnenrichable: before.isUnenrichable,
+		isExternallyDeleted: before.isExternallyDeleted
+	};
+}
+
+function createJournalStore() {
+	const { subscribe, set, update } = writable<JournalEntry[]>([]);
+	let loaded = false;
+
+	return {
+		subscribe,
+
+		// Load journal entries from IndexedDB (only once per page load)
+		async load(): Promise<void> {
+			if (loaded) return;
+			set(await loadJournal());
+			loaded = true;
+		},
+
+		// Record an operation with the affected comments as they were before it
+		async record(action: JournalAction, description: string, affected: YouTubeComment[]): Promise<void> {
+			if (affected.length === 0) return;
+			const entry: JournalEntry = {
+				id: crypto.randomUUID(),
+				action,
+				description,
+				timestamp: Date.now(),
+				comments: affected
+			};
+			update(entries => [entry, ...entries]);
+			await saveJournalEntry(entry);
+		},
+
+		// Undo an operation, returns the number of comments restored or reverted
+		async undo(id: string): Promise<number> {
+			const entry = get({ subscribe }).find(e => e.id === id);
+			if (!entry || entry.undoneAt) return 0;
+
+			const current = get(comments);
+			const before = new Map(entry.comments.map(c => [c.id, c]));
+			let changed: YouTubeComment[];
+
+			if (REMOVAL_ACTIONS.includes(entry.action)) {
+				// Comments re-imported since the removal are left as they are
+				const currentIds = new Set(current.map(c => c.id));
+				changed = entry.comments.filter(c => !currentIds.has(c.id));
+				comments.set([...current, ...changed]);
+			} else {
+				// Comments removed since the label change stay removed
+				changed = current.filter(c => before.has(c.id)).map(c => revertLabels(c, before.get(c.id)!));
+				const reverted = new Map(changed.map(c => [c.id, c]));
+				comments.set(current.map(c => reverted.get(c.id) ?? c));
+			}
+
+			if (changed.length > 0) {
+				await saveComments(changed);
+				await forceReloadSlidingWindow();
+				// Show the dashboard again after undoing a wipe
+				if (entry.action === 'wipe') isAuthenticated.set(true);
+			}
+
+			const undone: JournalEntry = { ...entry, undoneAt: Date.now() };
+			update(entries => entries.map(e => e.id === id ? undone : e));
+			await saveJournalEntry(undone);
+
+			return changed.length;
+		},
+
+		// Forget in-memory entries (the journal store itself is cleared with all other data)
+		reset(): void {
+			set([]);
+		}
+	};
+}
+
+export const journal = createJournalStore();
+
+// Operations that can still be undone, most recent first
+export const undoStack = derived(journal, $journal => $journal.filter(entry => !entry.undoneAt));
@@ -0,0 +1,84 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { get } from 'svelte/store';
+import { protect, unprotect, togglePin, mergeProtection, isPinned } from './protection';
+import { moveToTrash } from './trash';
+import { comments, trash, selectedIds, protectionList, selectComments, deselectAll } from './comments';
+import { loadProtectionList, clearCommentsOnly } from '$lib/services/storage';
+import type { YouTubeComment } from '$lib/types/comment';
+
+// Trashing comments reads the browser session from sessionStorage
+vi.stubGlobal('sessionStorage', { getItem: () => 'session-1', setItem: () => {} });
+
+function comment(id: string, overrides: Partial<YouTubeComment> = {}): YouTubeComment {
+	return {
+		id,
+		textDisplay: '',
+		textOriginal: '',
+		authorDisplayName: 'Me',
+		authorProfileImageUrl: '',
+		authorChannelUrl: '',
+		likeCount: 0,
+		publishedAt: '2020-06-15T12:00:00Z',
+		updatedAt: '2020-06-15T12:00:00Z',
+		videoId: 'video-1',
+		canRate: true,
+		viewerRating: 'none',
+		...overrides
+	};
+}
+
+const queuedIds = () => [...get(selectedIds)].sort();
+
+beforeEach(() => {
+	comments.set([
+		comment('a', { videoId: 'video-1', videoChannelId: 'channel-1' }),
+		comment('b', { videoId: 'video-2', videoChannelId: 'channel-1' }),
+		comment('c', { videoId: 'video-3', videoChannelId: 'channel-2' })
+	]);
+	protectionList.set([]);
+	trash.set([]);
+	deselectAll();
+});
+
+describe('protection', () => {
+	it('takes protected comments out of the queue and the trash and keeps them out', async () => {
+		selectComments(['a', 'c']);
+		await moveToTrash(['c'], 10, { autoResume: false, runOnServer: false });
+		selectComments(['a', 'b']);
+
+		// channel-1 covers a and b (queued), video-3 covers c (trashed)
+		expect(await protect('channel', 'channel-1', 'My channel')).toBe(2);
+		expect(await protect('video', 'video-3')).toBe(1);
+		expect(queuedIds()).toEqual([]);
+		expect(get(trash)).toEqual([]);
+
+		expect(selectComments(['a', 'b', 'c'])).toBe(0);
+	});
+
+	it('lets unpinned comments be queued again', async () => {
+		expect(await togglePin('comment', 'a')).toEqual({ pinned: true, removed: 0 });
+		expect(isPinned('comment', 'a')).toBe(true);
+		expect(selectComments(['a', 'b'])).toBe(1);
+
+		expect(await togglePin('comment', 'a')).toEqual({ pinned: false, removed: 0 });
+		expect(selectComments(['a'])).toBe(1);
+		expect(queuedIds()).toEqual(['a', 'b']);
+	});
+
+	it('merges imported entries and keeps the list through a comment wipe', async () => {
+		await protect('video', 'video-1');
+		const added = await mergeProtection([
+			{ kind: 'video', id: 'video-1', createdAt: '2020-01-01T00:00:00Z' },
+			{ kind: 'comment', id: 'b', createdAt: '2020-01-01T00:00:00Z' },
+			{ kind: 'playlist' as never, id: 'list-1', createdAt: '2020-01-01T00:00:00Z' }
+		]);
+		expect(added).toBe(1);
+
+		await clearCommentsOnly();
+		expect((await loadProtectionList()).map(entry => `${entry.kind}:${entry.id}`)).toEqual(['video:video-1', 'comment:b']);
+
+		await unprotect('video', 'video-1');
+		expect((await loadProtectionList()).map(entry => `${entry.kind}:${entry.id}`)).toEqual(['comment:b']);
+	});
+});
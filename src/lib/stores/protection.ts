@@ -0,0 +1,93 @@
+/**
+ * Protected comments ("keep" list).
+ * Comments, whole videos or whole channels can be pinned so they never enter the
+ * slash queue: selection, select-all, rules and bulk actions skip them (see
+ * withoutProtected in stores/comments) and deletion runs refuse them as a last check.
+ * The list is stored in IndexedDB metadata and survives wipes and takeout re-imports.
+ */
+
+import { get } from 'svelte/store';
+import { protectionList, isProtected, comments, selectedIds, trash, deselectComments, persistSlashQueueNow } from './comments';
+import { saveProtectionList, loadProtectionList } from '$lib/services/storage';
+import type { ProtectionEntry, ProtectionKind } from '$lib/types/protection';
+
+let loaded = false;
+
+// Load the protection list from IndexedDB (only once per page load)
+export async function loadProtection(): Promise<void> {
+	if (loaded) return;
+	protectionList.set(await loadProtectionList());
+	loaded = true;
+}
+
+export function isPinned(kind: ProtectionKind, id: string): boolean {
+	return get(protectionList).some(entry => entry.kind === kind && entry.id === id);
+}
+
+// Take queued and trashed comments out that are protected now, returns how many
+async function dropProtectedFromQueue(): Promise<number> {
+	const check = get(isProtected);
+	const queued = get(selectedIds);
+	const trashed = new Set(get(trash).map(entry => entry.commentId));
+	const affected = get(comments)
+		.filter(c => (queued.has(c.id) || trashed.has(c.id)) && check(c))
+		.map(c => c.id);
+	if (affected.length === 0) return 0;
+
+	const affectedIds = new Set(affected);
+	trash.update(entries => entries.filter(entry => !affectedIds.has(entry.commentId)));
+	deselectComments(affected);
+	await persistSlashQueueNow();
+	return affected.length;
+}
+
+/**
+ * Pin a comment, video or channel as "keep"
+ * Already queued or trashed comments it covers leave the queue and the trash.
+ * Returns the number of comments taken out of them.
+ */
+export async function protect(kind: ProtectionKind, id: string, label?: string): Promise<number> {
+	if (!isPinned(kind, id)) {
+		const entry: ProtectionEntry = { kind, id, label, createdAt: new Date().toISOString() };
+		protectionList.update(entries => [...entries, entry]);
+		await saveProtectionList(get(protectionList));
+	}
+	return dropProtectedFromQueue();
+}
+
+export async function unprotect(kind: ProtectionKind, id: string): Promise<void> {
+	protectionList.update(entries => entries.filter(entry => !(entry.kind === kind && entry.id === id)));
+	await saveProtectionList(get(protectionList));
+}
+
+/**
+ * Pin or unpin a comment, video or channel
+ * Returns whether it is pinned now and how many comments left the queue or trash
+ */
+export async function togglePin(kind: ProtectionKind, id: string, label?: string): Promise<{ pinned: boolean; removed: number }> {
+	if (isPinned(kind, id)) {
+		await unprotect(kind, id);
+		return { pinned: false, removed: 0 };
+	}
+	return { pinned: true, removed: await protect(kind, id, label) };
+}
+
+/**
+ * Add entries from a CommentSlash export, keeping the ones already pinned
+ * Returns the number of new entries
+ */
+export async function mergeProtection(entries: ProtectionEntry[]): Promise<number> {
+	const added = new Map<string, ProtectionEntry>();
+	for (const entry of entries) {
+		const validKind = entry.kind === 'comment' || entry.kind === 'video' || entry.kind === 'channel';
+		if (validKind && typeof entry.id === 'string' && !isPinned(entry.kind, entry.id)) {
+			added.set(`${entry.kind}:${entry.id}`, entry);
+		}
+	}
+	if (added.size === 0) return 0;
+
+	protectionList.update(current => [...current, ...added.values()]);
+	await saveProtectionList(get(protectionList));
+	await dropProtectedFromQueue();
+	return added.size;
+}
@@ -1,5 +1,7 @@
 import { writable, derived, get } from 'svelte/store';
 import { saveMetadata, loadMetadata } from '$lib/services/storage';
+import { deletionJobs } from './deletionJobs';
+import type { QuotaHistoryDay } from '$lib/types/quota';
 import { 
 	getPacificDateKey, 
 	getTimeUntilPacificMidnight,
@@ -18,6 +20,7 @@ export const QUOTA_COSTS = {
 	
 	// Write operations
 	commentsDelete: 50,         // Delete a comment
+	commentsUpdate: 50,         // Edit a comment
 } as const;
 
 // Default daily quota limit for YouTube Data API
@@ -49,8 +52,12 @@ export interface ServerQuotaConfig {
 // Deletion session response from server
 export interface DeletionSessionResponse {
 	success: boolean;
+	sessionId: string; // Client-side ID for this deletion run (used in deletion receipts)
 	batchSize?: number;
 	maxParallelDeletions?: number;
+	queued?: boolean;      // Waiting in line for a fair share of the shared quota
+	queuePosition?: number;
+	retryAfterMs?: number; // When to try starting again
 	message?: string;
 }
 
@@ -61,6 +68,7 @@ export interface BatchCompleteResponse {
 	nextBatchSize: number;
 	maxParallelDeletions: number;
 	shouldContinue: boolean;
+	retryAfterMs?: number; // Server paused the session for other users - start a new one after this
 	message?: string;
 }
 
@@ -203,6 +211,22 @@ const createQuotaStore = () => {
 				}
 			};
 			
+			// Server-side deletion jobs (only sent when jobs are enabled): full jobs on connect, then progress
+			eventSource.addEventListener('job', (event) => {
+				try {
+					deletionJobs.applyUpdate(JSON.parse((event as MessageEvent).data));
+				} catch (e) {
+					console.error('Failed to parse SSE job update:', e);
+				}
+			});
+			eventSource.addEventListener('job-progress', (event) => {
+				try {
+					deletionJobs.applyProgress(JSON.parse((event as MessageEvent).data));
+				} catch (e) {
+					console.error('Failed to parse SSE job progress:', e);
+				}
+			});
+			
 			eventSource.onerror = () => {
 				// Reconnect after a delay
 				eventSource?.close();
@@ -236,6 +260,16 @@ const createQuotaStore = () => {
 	// Add quota usage (local + server) - for small read operations
 	// This tracks pending usage to prevent UI flashing when SSE updates arrive
 	const addUsage = async (units: number) => {
+		await trackUsage(units, { action: 'usage', cost: units });
+	};
+	
+	// Add quota usage for comment edits (comments.update costs as much as a delete)
+	const addEditUsage = async (count: number) => {
+		await trackUsage(count * QUOTA_COSTS.commentsUpdate, { action: 'edit', count });
+	};
+	
+	// Apply usage locally and report it to the server (if server-managed)
+	const trackUsage = async (units: number, serverBody: Record<string, unknown>) => {
 		const state = get({ subscribe });
 		
 		// Track this as pending local usage (will be confirmed when server updates)
@@ -271,7 +305,7 @@ const createQuotaStore = () => {
 				const response = await fetch('/api/quota', {
 					method: 'POST',
 					headers: { 'Content-Type': 'application/json' },
-					body: JSON.stringify({ action: 'usage', cost: units })
+					body: JSON.stringify(serverBody)
 				});
 				
 				// If successful, the SSE will update with new server state
@@ -427,6 +461,8 @@ const createQuotaStore = () => {
 	 */
 	const startDeletionSession = async (totalPlanned: number): Promise<DeletionSessionResponse> => {
 		const state = get({ subscribe });
+		// Generated locally so receipts never contain the server session cookie
+		const sessionId = crypto.randomUUID();
 		
 		if (!state.isServerManaged) {
 			// Local mode - allow full deletion without server coordination
@@ -435,6 +471,7 @@ const createQuotaStore = () => {
 			const batchSize = Math.min(totalPlanned, maxDeletable * QUOTA_COSTS.commentsDelete);
 			return {
 				success: batchSize > 0,
+				sessionId,
 				batchSize,
 				maxParallelDeletions: state.maxParallelDeletions,
 				message: batchSize > 0 ? undefined : 'Quota exhausted'
@@ -461,14 +498,19 @@ const createQuotaStore = () => {
 			
 			return {
 				success: data.success,
+				sessionId,
 				batchSize: data.batchSize || 0,
 				maxParallelDeletions: data.maxParallelDeletions || state.maxParallelDeletions,
+				queued: data.queued,
+				queuePosition: data.queuePosition,
+				retryAfterMs: data.retryAfterMs,
 				message: data.message
 			};
 		} catch (e) {
 			console.error('Failed to start deletion session:', e);
 			return {
 				success: false,
+				sessionId,
 				batchSize: 0,
 				maxParallelDeletions: state.maxParallelDeletions,
 				message: 'Network error'
@@ -530,6 +572,7 @@ const createQuotaStore = () => {
 				nextBatchSize: data.nextBatchSize || 0,
 				maxParallelDeletions: data.maxParallelDeletions || state.maxParallelDeletions,
 				shouldContinue: data.shouldContinue || false,
+				retryAfterMs: data.retryAfterMs,
 				message: data.message
 			};
 		} catch (e) {
@@ -564,10 +607,26 @@ const createQuotaStore = () => {
 		}
 	};
 	
+	// Fetch the daily quota history of the last days (server-managed quota only)
+	const loadHistory = async (days: number = 30): Promise<QuotaHistoryDay[]> => {
+		if (!get({ subscribe }).isServerManaged) return [];
+		
+		try {
+			const response = await fetch(`/api/quota/history?days=${days}`);
+			if (!response.ok) return [];
+			const data = await response.json();
+			return data.days || [];
+		} catch (e) {
+			console.debug('Quota history not available:', e);
+			return [];
+		}
+	};
+	
 	return {
 		subscribe,
 		load,
 		addUsage,
+		addEditUsage,
 		reserve,
 		confirmUsage,
 		releaseReservation,
@@ -576,6 +635,7 @@ const createQuotaStore = () => {
 		syncWithServer,
 		disconnectSSE,
 		getServerConfig,
+		loadHistory,
 		// New batch-based workflow
 		startDeletionSession,
 		reportBatchComplete,
@@ -0,0 +1,89 @@
+import { writable, get } from 'svelte/store';
+import type { SelectionRule, RuleDryRunResult, RuleNode } from '$lib/types/rule';
+import { saveSelectionRules, loadSelectionRules } from '$lib/services/storage';
+import { findRuleMatches } from '$lib/utils/rules';
+import { comments, selectedIds, selectComments, withoutProtected } from './comments';
+
+function createRulesStore() {
+	const { subscribe, set, update } = writable<SelectionRule[]>([]);
+	let loaded = false;
+
+	async function persist(): Promise<void> {
+		await saveSelectionRules(get({ subscribe }));
+	}
+
+	return {
+		subscribe,
+
+		// Load saved rules from IndexedDB (only once per page load)
+		async load(): Promise<void> {
+			if (loaded) return;
+			set(await loadSelectionRules());
+			loaded = true;
+		},
+
+		// Create or update a rule
+		async save(rule: SelectionRule): Promise<void> {
+			const saved = { ...rule, updatedAt: new Date().toISOString() };
+			update(rules => {
+				const index = rules.findIndex(r => r.id === rule.id);
+				if (index === -1) return [...rules, saved];
+				const next = [...rules];
+				next[index] = saved;
+				return next;
+			});
+			await persist();
+		},
+
+		async remove(id: string): Promise<void> {
+			update(rules => rules.filter(r => r.id !== id));
+			await persist();
+		},
+
+		// Evaluate a rule against the stored comments without touching the selection
+		dryRun(root: RuleNode): RuleDryRunResult {
+			const matchingIds = findRuleMatches(root, get(comments));
+			const queued = get(selectedIds);
+			const alreadyQueued = matchingIds.filter(id => queued.has(id)).length;
+			const allowed = withoutProtected(matchingIds);
+			return {
+				matched: matchingIds.length,
+				alreadyQueued,
+				protected: matchingIds.length - allowed.length,
+				toAdd: allowed.filter(id => !queued.has(id)).length,
+				matchingIds
+			};
+		},
+
+		// Run a saved rule and push every match into the slash queue
+		async apply(rule: SelectionRule): Promise<number> {
+			const matchingIds = findRuleMatches(rule.root, get(comments));
+			const added = selectComments(matchingIds);
+
+			update(rules => rules.map(r =>
+				r.id === rule.id
+					? { ...r, lastRunAt: new Date().toISOString(), lastRunMatched: matchingIds.length }
+					: r
+			));
+			await persist();
+
+			return added;
+		}
+	};
+}
+
+export const selectionRules = createRulesStore();
+
+/**
+ * Create an empty rule with a single AND group
+ */
+export function createEmptyRule(name = ''): SelectionRule {
+	const now = new Date().toISOString();
+	return {
+		id: crypto.randomUUID(),
+		name,
+		root: { type: 'and', children: [] },
+		createdAt: now,
+		updatedAt: now
+	};
+}
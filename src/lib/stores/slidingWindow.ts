@@ -5,7 +5,7 @@
 
 import { writable, derived, get } from 'svelte/store';
 import type { YouTubeComment, CommentFilters, SortField, SortOrder } from '$lib/types/comment';
-import { queryComments, type CommentQueryOptions, getCommentCount } from '$lib/services/storage';
+import { queryComments, getCommentCursor, type CommentQueryOptions, getCommentCount } from '$lib/services/storage';
 import { searchMode, type SearchMode } from './comments';
 
 // Sliding window configuration - increased for more reliable scrolling
@@ -63,6 +63,7 @@ export async function initializeSlidingWindow(
 			searchQuery: searchQuery || undefined,
 			searchMode: currentSearchMode,
 			showOnlyWithErrors: filters.showOnlyWithErrors,
+			onlyWithReplies: filters.onlyWithReplies,
 			channelId: filters.channelFilter?.channelId,
 			dateRange: filters.dateRange,
 			sortBy: sortField,
@@ -104,9 +105,16 @@ async function loadForward(): Promise<void> {
 	try {
 		if (!currentFilters) return;
 		
+		// Continue after the last loaded comment (keyset pagination, no offset scan).
+		// Relevance scores are not stored in an index, so that sort pages by offset.
+		const current = get(windowedComments);
+		const last = current[current.length - 1];
+		const keysetSort = currentSortField === 'relevance' ? null : currentSortField;
+		
 		const options: CommentQueryOptions = {
 			limit: BATCH_SIZE,
-			offset: end,
+			offset: last && keysetSort ? undefined : end,
+			after: last && keysetSort ? getCommentCursor(last, keysetSort) : undefined,
 			labels: currentFilters.labels,
 			minCharacters: currentFilters.minCharacters > 0 ? currentFilters.minCharacters : undefined,
 			maxCharacters: currentFilters.maxCharacters < 10000 ? currentFilters.maxCharacters : undefined,
@@ -117,6 +125,7 @@ async function loadForward(): Promise<void> {
 			searchQuery: currentSearchQuery || undefined,
 			searchMode: currentSearchMode,
 			showOnlyWithErrors: currentFilters.showOnlyWithErrors,
+			onlyWithReplies: currentFilters.onlyWithReplies,
 			channelId: currentFilters.channelFilter?.channelId,
 			dateRange: currentFilters.dateRange,
 			sortBy: currentSortField,
@@ -167,9 +176,14 @@ async function loadBackward(): Promise<void> {
 		const newStart = Math.max(0, start - BATCH_SIZE);
 		const actualBatchSize = start - newStart;
 		
+		// Load the page ending just before the first loaded comment
+		const first = get(windowedComments)[0];
+		const keysetSort = currentSortField === 'relevance' ? null : currentSortField;
+		
 		const options: CommentQueryOptions = {
 			limit: actualBatchSize,
-			offset: newStart,
+			offset: first && keysetSort ? undefined : newStart,
+			before: first && keysetSort ? getCommentCursor(first, keysetSort) : undefined,
 			labels: currentFilters.labels,
 			minCharacters: currentFilters.minCharacters > 0 ? currentFilters.minCharacters : undefined,
 			maxCharacters: currentFilters.maxCharacters < 10000 ? currentFilters.maxCharacters : undefined,
@@ -180,6 +194,7 @@ async function loadBackward(): Promise<void> {
 			searchQuery: currentSearchQuery || undefined,
 			searchMode: currentSearchMode,
 			showOnlyWithErrors: currentFilters.showOnlyWithErrors,
+			onlyWithReplies: currentFilters.onlyWithReplies,
 			channelId: currentFilters.channelFilter?.channelId,
 			dateRange: currentFilters.dateRange,
 			sortBy: currentSortField,
@@ -202,7 +217,7 @@ async function loadBackward(): Promise<void> {
 				return newComments;
 			});
 			
-			windowStart.set(newStart);
+			windowStart.set(start - result.comments.length);
 		}
 	} catch (error) {
 		console.error('Failed to load backward:', error);
@@ -0,0 +1,69 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { get } from 'svelte/store';
+import { moveToTrash, restoreFromTrash, releaseTrashNow, releaseDueTrash, getTrashReleaseTime } from './trash';
+import { trash, selectedIds, selectComments, deselectAll } from './comments';
+import { loadSlashQueue } from '$lib/services/storage';
+
+// The browser session of the trash lives in sessionStorage
+const session = new Map<string, string>();
+vi.stubGlobal('sessionStorage', {
+	getItem: (key: string) => session.get(key) ?? null,
+	setItem: (key: string, value: string) => void session.set(key, value)
+});
+
+const browserRun = { autoResume: false, runOnServer: false };
+const serverRun = { autoResume: false, runOnServer: true };
+
+const trashedIds = () => get(trash).map(entry => entry.commentId).sort();
+const queuedIds = () => [...get(selectedIds)].sort();
+
+beforeEach(() => {
+	trash.set([]);
+	deselectAll();
+	session.clear();
+});
+
+describe('trash', () => {
+	it('takes trashed comments out of the queue and puts restored ones back', async () => {
+		selectComments(['a', 'b', 'c']);
+		await moveToTrash(['a', 'b'], 10, browserRun);
+
+		expect(queuedIds()).toEqual(['c']);
+		expect(trashedIds()).toEqual(['a', 'b']);
+		expect((await loadSlashQueue())?.trash?.map(entry => entry.commentId)).toEqual(['a', 'b']);
+
+		expect(await restoreFromTrash(['a', 'missing'])).toBe(1);
+		expect(queuedIds()).toEqual(['a', 'c']);
+		expect(trashedIds()).toEqual(['b']);
+	});
+
+	it('releases only entries whose grace period is over', async () => {
+		await moveToTrash(['now'], 0, browserRun);
+		await moveToTrash(['later'], 10, browserRun);
+		await moveToTrash(['server'], 0, serverRun);
+
+		const due = await releaseDueTrash();
+		expect(due.map(entry => entry.commentId).sort()).toEqual(['now', 'server']);
+		// Server entries are handed to a server job, not the browser's deletion run
+		expect(queuedIds()).toEqual(['now']);
+		expect(trashedIds()).toEqual(['later']);
+
+		await releaseTrashNow();
+		expect((await releaseDueTrash()).map(entry => entry.commentId)).toEqual(['later']);
+		expect(get(trash)).toEqual([]);
+	});
+
+	it('holds entries for the next session until the tab is reopened', async () => {
+		await moveToTrash(['next-time'], 'session', browserRun);
+		const [entry] = get(trash);
+
+		expect(getTrashReleaseTime(entry)).toBeNull();
+		expect(await releaseDueTrash()).toEqual([]);
+
+		// A new tab starts a new browser session
+		session.clear();
+		expect(getTrashReleaseTime(entry)).toBe(entry.trashedAt);
+		expect((await releaseDueTrash()).map(e => e.commentId)).toEqual(['next-time']);
+	});
+});
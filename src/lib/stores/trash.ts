@@ -0,0 +1,117 @@
+/**
+ * Local trash for staged deletions.
+ * With a grace period, confirmed comments leave the slash queue and wait in the trash
+ * before anything is sent to the YouTube API. Until then they can be restored to the
+ * queue. The page releases due entries into a deletion run (or a server job).
+ */
+
+import { get } from 'svelte/store';
+import { trash, selectComments, deselectComments, persistSlashQueueNow } from './comments';
+import type { TrashEntry, TrashGracePeriod } from '$lib/types/deletion';
+
+const GRACE_PERIOD_KEY = 'commentslash_trash_grace';
+const SESSION_KEY = 'commentslash_trash_session';
+
+export const TRASH_GRACE_OPTIONS: Array<{ value: TrashGracePeriod; label: string }> = [
+	{ value: 0, label: 'Right away' },
+	{ value: 10, label: 'After 10 minutes in the trash' },
+	{ value: 60, label: 'After 1 hour in the trash' },
+	{ value: 'session', label: 'Next time I open CommentSlash' }
+];
+
+// Grace period last chosen in the confirm dialog (staged deletion is off by default)
+export function getTrashGracePeriod(): TrashGracePeriod {
+	const stored = localStorage.getItem(GRACE_PERIOD_KEY);
+	if (stored === 'session') return 'session';
+	const minutes = parseInt(stored || '0', 10);
+	return isNaN(minutes) || minutes < 0 ? 0 : minutes;
+}
+
+export function setTrashGracePeriod(gracePeriod: TrashGracePeriod): void {
+	localStorage.setItem(GRACE_PERIOD_KEY, String(gracePeriod));
+}
+
+// The browser session lasts as long as the tab (survives reloads, not closing it)
+function getBrowserSession(): string {
+	let session = sessionStorage.getItem(SESSION_KEY);
+	if (!session) {
+		session = crypto.randomUUID();
+		sessionStorage.setItem(SESSION_KEY, session);
+	}
+	return session;
+}
+
+/**
+ * When an entry is due, or null if it waits for the next session
+ */
+export function getTrashReleaseTime(entry: TrashEntry): number | null {
+	if (entry.releaseAt !== undefined) return entry.releaseAt;
+	return entry.session !== getBrowserSession() ? entry.trashedAt : null;
+}
+
+/**
+ * Move queued comments to the trash instead of deleting them right away
+ */
+export async function moveToTrash(
+	commentIds: string[],
+	gracePeriod: TrashGracePeriod,
+	options: { autoResume: boolean; runOnServer: boolean }
+): Promise<void> {
+	if (commentIds.length === 0) return;
+	const now = Date.now();
+	const ids = new Set(commentIds);
+	const entries: TrashEntry[] = commentIds.map(commentId => ({
+		commentId,
+		trashedAt: now,
+		releaseAt: gracePeriod === 'session' ? undefined : now + gracePeriod * 60 * 1000,
+		session: getBrowserSession(),
+		...options
+	}));
+
+	trash.update(current => [...current.filter(entry => !ids.has(entry.commentId)), ...entries]);
+	deselectComments(commentIds);
+	await persistSlashQueueNow();
+}
+
+/**
+ * Put trashed comments back into the slash queue
+ */
+export async function restoreFromTrash(commentIds: string[]): Promise<number> {
+	const ids = new Set(commentIds);
+	const restored = get(trash).filter(entry => ids.has(entry.commentId)).map(entry => entry.commentId);
+	if (restored.length === 0) return 0;
+
+	trash.update(current => current.filter(entry => !ids.has(entry.commentId)));
+	selectComments(restored);
+	await persistSlashQueueNow();
+	return restored.length;
+}
+
+/**
+ * Skip the rest of the grace period for all trashed comments
+ */
+export async function releaseTrashNow(): Promise<void> {
+	const now = Date.now();
+	trash.update(current => current.map(entry => ({ ...entry, releaseAt: Math.min(entry.releaseAt ?? now, now) })));
+	await persistSlashQueueNow();
+}
+
+/**
+ * Take the entries whose grace period is over out of the trash
+ * Browser entries go back into the slash queue for the deletion run that the caller starts,
+ * server entries are left to the caller to hand to a server job
+ */
+export async function releaseDueTrash(): Promise<TrashEntry[]> {
+	const now = Date.now();
+	const due = get(trash).filter(entry => {
+		const releaseTime = getTrashReleaseTime(entry);
+		return releaseTime !== null && releaseTime <= now;
+	});
+	if (due.length === 0) return [];
+
+	const dueIds = new Set(due.map(entry => entry.commentId));
+	trash.update(current => current.filter(entry => !dueIds.has(entry.commentId)));
+	selectComments(due.filter(entry => !entry.runOnServer).map(entry => entry.commentId));
+	await persistSlashQueueNow();
+	return due;
+}
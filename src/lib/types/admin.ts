@@ -0,0 +1,83 @@
+// Operator dashboard data (/admin), returned by GET /api/admin
+
+import type { QuotaHistoryDay } from './quota';
+
+// Quota status at one point in time, sampled every minute
+export interface QuotaSample {
+	timestamp: number;
+	used: number;
+	reserved: number;
+	dailyLimit: number;
+	perMinuteUsed: number;
+	connectedUsers: number;
+	deletingUsers: number;
+	waitingUsers: number;
+}
+
+// API responses within one minute
+export interface ApiMinuteStats {
+	minute: number;              // Start of the minute (ms timestamp)
+	requests: number;
+	clientErrors: number;        // 4xx
+	serverErrors: number;        // 5xx
+}
+
+export interface RiscEventRecord {
+	type: string;                // Last segment of the event type URI, e.g. 'sessions-revoked'
+	receivedAt: number;
+}
+
+// Deletion session as listed for admins - the session ID itself is a cookie value and never shown
+export interface AdminDeletionSession {
+	id: string;
+	userKey: string;
+	totalPlanned: number;
+	totalConfirmed: number;
+	currentBatchSize: number;
+	currentBatchUsed: number;
+	maxParallelDeletions: number;
+	isWaitingForBatch: boolean;
+	createdAt: number;
+	lastActivity: number;
+}
+
+export interface QuotaDetails {
+	configuredDailyLimit: number;    // YOUTUBE_DAILY_QUOTA_LIMIT
+	dailyLimitOverride: number | null;
+	deletionSessions: AdminDeletionSession[];
+	connectedUsers: Array<{ isDeleting: boolean; lastActivity: number }>;
+	reservations: { count: number; outstanding: number }; // Legacy chunk reservations
+	sessionReserved: number;         // Open batches of deletion sessions
+	waitingList: Array<{ userKey: string; queuedAt: number }>;
+	perUser: Record<string, number>; // Quota used today per user key
+}
+
+export interface MonitorSnapshot {
+	startedAt: number;
+	samples: QuotaSample[];
+	dailyUsage: QuotaHistoryDay[];
+	api: {
+		minutes: ApiMinuteStats[];
+		lastHour: { requests: number; clientErrors: number; serverErrors: number; errorRate: number };
+	};
+	risc: { counts: Record<string, number>; recent: RiscEventRecord[] };
+}
+
+export interface AdminDashboardData {
+	quota: {
+		used: number;
+		reserved: number;
+		remaining: number;
+		dailyLimit: number;
+		perMinuteUsed: number;
+		perMinuteLimit: number;
+		connectedUsers: number;
+		deletingUsers: number;
+		waitingUsers: number;
+		percentUsed: number;
+		availableForDeletion: number;
+		date: string;
+	};
+	details: QuotaDetails;
+	history: MonitorSnapshot;
+}
@@ -1,5 +1,18 @@
 // Comment label types for categorization
-export type CommentLabel = 'api_error' | 'unenrichable' | 'externally_deleted' | 'update_error';
+export type CommentLabel = 'api_error' | 'unenrichable' | 'externally_deleted' | 'update_error' | 'edit_error';
+
+// A reply in the thread under one of the user's top-level comments
+export interface CommentReply {
+	id: string;
+	textOriginal: string;
+	authorDisplayName: string;
+	authorProfileImageUrl: string;
+	authorChannelUrl: string;
+	likeCount: number;
+	publishedAt: string;
+	// Written by the same channel as the top-level comment
+	isOwnReply: boolean;
+}
 
 export interface YouTubeComment {
 	id: string;
@@ -24,6 +37,10 @@ export interface YouTubeComment {
 	// API-enriched data
 	isEnriched?: boolean;
 	totalReplyCount?: number;
+	// Reply thread (only for top-level comments, loaded via comments.list?parentId=)
+	replies?: CommentReply[];
+	otherReplyCount?: number;    // Replies written by other people
+	repliesFetchedAt?: string;
 	// Externally deleted flag (detected when merging new takeout)
 	isExternallyDeleted?: boolean;
 	// Flag for comments that couldn't be enriched (not found in YouTube API)
@@ -38,6 +55,10 @@ export interface YouTubeComment {
 	lastEnrichmentError?: string;
 	// Timestamp of last enrichment attempt
 	lastEnrichmentAttempt?: string;
+	// Last error that occurred when trying to edit this comment (comments.update)
+	lastEditError?: string;
+	// Timestamp of last edit attempt
+	lastEditAttempt?: string;
 }
 
 export interface CommentFilters {
@@ -50,13 +71,16 @@ export interface CommentFilters {
 	// Label-based filters
 	labels?: CommentLabel[];
 	showOnlyWithErrors?: boolean;
+	// Only top-level comments that got replies from other people
+	onlyWithReplies?: boolean;
 	// Channel filter - filter by channel ID (channelId, channelTitle for display)
 	channelFilter?: { channelId: string; channelTitle: string };
 	// Date range filter - filter comments by publish date
 	dateRange?: { startDate: string; endDate: string }; // ISO date strings (YYYY-MM-DD)
 }
 
-export type SortField = 'likeCount' | 'publishedAt' | 'textLength';
+// 'relevance' ranks search matches by term frequency (date order without a search)
+export type SortField = 'likeCount' | 'publishedAt' | 'textLength' | 'relevance';
 export type SortOrder = 'asc' | 'desc';
 
 export interface CommentStore {
@@ -0,0 +1,72 @@
+// One deletion attempt of a comment via the YouTube API, kept as a receipt
+export interface DeletionRecord {
+	id: string;              // `${sessionId}:${commentId}`
+	commentId: string;
+	sessionId: string;       // Deletion run from quotaStore.startDeletionSession
+	batch: number;           // Batch number within the session (1-based)
+	attemptedAt: number;     // When the API call finished
+	result: 'deleted' | 'failed';
+	error?: string;          // API error message for failed attempts
+	// Snapshot of the comment at deletion time
+	text: string;
+	publishedAt: string;
+	videoId: string;
+	videoTitle?: string;
+	channelId?: string;
+	channelTitle?: string;
+}
+
+// Progress of a deletion run, persisted with the slash queue so it survives reloads
+// and can continue automatically after the daily quota reset
+export interface DeletionRunState {
+	autoResume: boolean;         // Continue after the daily quota reset while the tab is open
+	status: 'running' | 'waiting';
+	resumeAt?: number;           // When a waiting run continues
+	inLine?: boolean;            // Waiting for a fair share of the shared quota, continues even without autoResume
+	startedAt: number;
+	sessionId?: string;          // Current deletion session from quotaStore.startDeletionSession
+	// Attempts not yet applied to the queue: comment ID -> error message (null = deleted)
+	attempted: Record<string, string | null>;
+	failedIds: string[];         // Settled failures, not retried by this run
+	deleted: number;             // Totals across all sessions of the run
+	failed: number;
+	commentIds?: string[];       // Queued comments this run deletes (released from the trash), the whole queue if not set
+}
+
+// How long confirmed comments stay in the trash: minutes (0 = delete right away) or until the next session
+export type TrashGracePeriod = number | 'session';
+
+// Comment confirmed for deletion but held in the local trash until its grace period is over,
+// persisted with the slash queue
+export interface TrashEntry {
+	commentId: string;
+	trashedAt: number;
+	releaseAt?: number;          // When it is deleted, not set = at the start of the next session
+	session: string;             // Browser session that trashed it
+	autoResume: boolean;         // Options chosen in the confirm dialog
+	runOnServer: boolean;
+}
+
+// Server-side deletion job (developer OAuth mode), runs even after the browser is closed
+export type DeletionJobStatus = 'queued' | 'running' | 'waiting' | 'completed' | 'cancelled' | 'failed';
+
+export interface DeletionJobSummary {
+	id: string;
+	status: DeletionJobStatus;
+	createdAt: number;
+	updatedAt: number;
+	resumeAt?: number;           // When a waiting job continues (after the daily quota reset)
+	message?: string;            // Reason for waiting/failed status
+	total: number;
+	pendingCount: number;
+	deletedIds: string[];
+	failed: Array<{ id: string; error: string }>;
+}
+
+// Progress of a job on the SSE stream: counters plus only the results since the previous update
+export interface DeletionJobProgress extends Omit<DeletionJobSummary, 'deletedIds' | 'failed'> {
+	deletedCount: number;
+	failedCount: number;
+	newlyDeletedIds: string[];
+	newlyFailed: Array<{ id: string; error: string }>;
+}
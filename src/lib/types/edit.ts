@@ -0,0 +1,24 @@
+// Bulk comment edits (comments.update) - redact comments instead of deleting them
+
+export type EditMode = 'template' | 'strip' | 'regex';
+
+export type EditOptions =
+	// Replace the whole text; {date} and {video} are filled in per comment
+	| { mode: 'template'; template: string }
+	// Remove links and/or email addresses
+	| { mode: 'strip'; urls: boolean; emails: boolean }
+	// Find/replace with a regular expression ($1 etc. refer to groups)
+	| { mode: 'regex'; pattern: string; flags: string; replacement: string };
+
+// Planned edit for a single comment
+export interface CommentEdit {
+	id: string;
+	before: string;
+	after: string;
+}
+
+// Word-level diff segment for the preview
+export interface DiffSegment {
+	type: 'same' | 'added' | 'removed';
+	text: string;
+}
@@ -0,0 +1,17 @@
+import type { YouTubeComment } from './comment';
+
+// Local mutations that can be undone
+// - remove: comments removed from the local database (not deleted on YouTube)
+// - wipe: all comment data wiped for a re-import
+// - label: labels changed on existing comments (e.g. marked unenrichable)
+// - externally_deleted: comments missing from a merged takeout marked as externally deleted
+export type JournalAction = 'remove' | 'wipe' | 'label' | 'externally_deleted';
+
+export interface JournalEntry {
+	id: string;
+	action: JournalAction;
+	description: string;         // Human readable summary shown in the history panel
+	timestamp: number;           // When the operation happened (entries expire with the data lifetime)
+	comments: YouTubeComment[];  // Affected comments as they were before the operation
+	undoneAt?: number;           // Set once the operation has been undone
+}
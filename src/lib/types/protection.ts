@@ -0,0 +1,11 @@
+// Protected comments - pinned as "keep" and never queued for deletion
+
+// A single comment, every comment on a video, or every comment on a channel's videos
+export type ProtectionKind = 'comment' | 'video' | 'channel';
+
+export interface ProtectionEntry {
+	kind: ProtectionKind;
+	id: string;              // Comment ID, video ID or the video's channel ID
+	label?: string;          // Comment excerpt, video title or channel title for the protection list
+	createdAt: string;
+}
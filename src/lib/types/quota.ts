@@ -0,0 +1,10 @@
+// Quota usage of one day, kept by the server for the quota history (QUOTA_HISTORY_DAYS)
+export interface QuotaHistoryDay {
+	date: string;                // YYYY-MM-DD (Pacific Time, when the YouTube quota resets)
+	totalUsed: number;
+	dailyLimit: number;          // Limit in effect when the day's usage was last updated
+	peakMinuteUsed: number;      // Highest quota use within a single minute
+	deletionsSucceeded: number;
+	deletionsFailed: number;
+	enrichmentCalls: number;     // comments, commentThreads and videos lookups
+}
@@ -0,0 +1,68 @@
+// Saved selection rules - named, reusable cleanup policies that push matches into the slash queue
+
+// Comment fields a rule condition can test
+export type RuleField =
+	| 'likeCount'
+	| 'textLength'
+	| 'ageDays'
+	| 'replyCount'
+	| 'videoPrivacy'
+	| 'moderationStatus'
+	| 'label'
+	| 'channelId'
+	| 'text';
+
+export type RuleOperator =
+	// Numeric comparisons
+	| 'lt'
+	| 'lte'
+	| 'gt'
+	| 'gte'
+	| 'eq'
+	// Set membership (videoPrivacy, moderationStatus)
+	| 'in'
+	// Label presence
+	| 'has'
+	| 'lacks'
+	// Text search
+	| 'contains';
+
+export interface RuleConditionNode {
+	type: 'condition';
+	field: RuleField;
+	operator: RuleOperator;
+	value: number | string | string[];
+}
+
+export interface RuleGroupNode {
+	type: 'and' | 'or';
+	children: RuleNode[];
+}
+
+export interface RuleNotNode {
+	type: 'not';
+	child: RuleNode;
+}
+
+export type RuleNode = RuleConditionNode | RuleGroupNode | RuleNotNode;
+
+export interface SelectionRule {
+	id: string;
+	name: string;
+	description?: string;
+	root: RuleNode;
+	createdAt: string;
+	updatedAt: string;
+	// Result of the last time the rule was applied to the queue
+	lastRunAt?: string;
+	lastRunMatched?: number;
+}
+
+// Result of evaluating a rule without touching the selection
+export interface RuleDryRunResult {
+	matched: number;      // Comments matching the rule
+	alreadyQueued: number; // Matches already in the slash queue
+	protected: number;    // Matches skipped because they are pinned as keep
+	toAdd: number;        // Matches that would be added
+	matchingIds: string[];
+}
@@ -0,0 +1,25 @@
+import type { CommentLabel } from './comment';
+
+// Which fields bare search terms match against
+export type SearchMode = 'all' | 'comments' | 'videos' | 'channels';
+
+// Field a term is restricted to ('any' follows the current SearchMode)
+export type SearchField = 'any' | 'text' | 'video' | 'channel';
+
+export type SearchComparison = '<' | '<=' | '>' | '>=' | '=';
+
+// Parsed search query AST, shared by the in-memory and IndexedDB search paths
+export type SearchNode =
+	| { type: 'and'; children: SearchNode[] }
+	| { type: 'or'; children: SearchNode[] }
+	| { type: 'not'; child: SearchNode }
+	| { type: 'term'; field: SearchField; value: string; tokens: string[] } // Word or quoted phrase
+	| { type: 'regex'; field: SearchField; regex: RegExp }       // /pattern/flags
+	| { type: 'likes'; operator: SearchComparison; value: number } // likes:>10
+	| { type: 'date'; operator: 'before' | 'after'; date: string } // before:2020-01-01
+	| { type: 'label'; label: CommentLabel };                     // label:api_error
+
+export interface ParsedSearchQuery {
+	root: SearchNode | null; // null when the query has no usable terms
+	errors: string[];        // Terms that were ignored, with the reason
+}
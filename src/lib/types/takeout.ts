@@ -0,0 +1,92 @@
+// Messages between the page and the takeout import worker (workers/takeoutImport.ts)
+
+export interface TakeoutImportProgress {
+	loadedBytes: number;  // Bytes of comment files read so far (compressed bytes for ZIP entries)
+	totalBytes: number;   // Bytes of all comment files that will be read
+	comments: number;     // Unique comments parsed so far
+}
+
+// HTML exports need DOMParser, which workers don't have - they are parsed on the page
+export interface TakeoutHTMLFile {
+	name: string;
+	content: string;
+}
+
+// Takeout CSV columns the importer reads
+export type TakeoutColumn = 'commentId' | 'channelId' | 'timestamp' | 'videoId' | 'commentText' | 'parentCommentId';
+
+// Column index per field, fields without a column are left out
+export type TakeoutColumnMapping = Partial<Record<TakeoutColumn, number>>;
+
+// Sent when the headers are in an unknown language and the columns can't be told apart by content
+export interface TakeoutColumnMappingRequest {
+	file: string;
+	headers: string[];
+	sampleRows: string[][];      // The first data rows, to show what each column holds
+	guess: TakeoutColumnMapping; // Headers and content inference combined
+	ambiguous: TakeoutColumn[];  // Required fields without exactly one matching column
+}
+
+// A row the parser had to skip or repair. line is the line in the file for CSV exports
+// and the entry number for HTML/JSON exports (see TakeoutDiagnostics.rowUnit)
+export interface TakeoutDiagnosticIssue {
+	line: number;
+	detail: string;
+}
+
+// Only the first issues are kept with their details, count has all of them
+export interface TakeoutDiagnosticList {
+	count: number;
+	items: TakeoutDiagnosticIssue[];
+}
+
+// What a parser did with one export file, for the import report
+export interface TakeoutDiagnostics {
+	file: string;
+	format: 'csv' | 'json' | 'html';
+	rowUnit: 'line' | 'entry';
+	rowsRead: number;                  // Data rows / entries, not counting the header and blank lines
+	skippedRows: TakeoutDiagnosticList;
+	repairedFields: TakeoutDiagnosticList; // Comment texts that needed a fallback to be read
+	dateFailures: TakeoutDiagnosticList;   // Missing or unreadable timestamps
+	unknownHeaders: string[];          // CSV columns that aren't in the header mappings
+	language: string | null;           // Language of the CSV headers
+	// Columns recognized by their content (or chosen in the mapping wizard) instead of by header
+	inferredColumns: { field: TakeoutColumn; header: string }[];
+	manualMapping: boolean;            // The columns were chosen in the mapping wizard
+	error: string | null;              // The file couldn't be read at all
+}
+
+// Comments found in one comment file (not counting duplicates of earlier files)
+export interface TakeoutFileSummary {
+	name: string;
+	comments: number;
+	diagnostics: TakeoutDiagnostics;
+}
+
+export type TakeoutImportRequest =
+	| { type: 'start'; files: File[]; paths: string[] } // paths: display names, e.g. relative paths in a folder
+	| { type: 'mapping'; columns: TakeoutColumnMapping } // Answer to a mapping message
+	| { type: 'cancel' };
+
+export type TakeoutImportMessage =
+	| ({ type: 'progress' } & TakeoutImportProgress)
+	| { type: 'mapping'; request: TakeoutColumnMappingRequest } // The worker waits for the columns
+	| { type: 'done'; commentIds: string[]; added: number; files: TakeoutFileSummary[]; htmlFiles: TakeoutHTMLFile[] }
+	| { type: 'cancelled' }
+	| { type: 'error'; message: string };
+
+export interface TakeoutImportResult {
+	commentIds: string[]; // Every comment in the takeout, including ones that were already stored
+	added: number;        // Comments that were not stored before
+	files: TakeoutFileSummary[];
+}
+
+// Shown after importing an unzipped takeout folder, or after an import the parsers had trouble with
+export interface TakeoutImportSummary {
+	source: string;       // Name of the imported folder or file(s)
+	files: TakeoutFileSummary[];
+	skipped: string[];    // Files that are not comment files
+	added: number;
+	total: number;
+}
@@ -0,0 +1,139 @@
+/**
+ * Bulk comment edits.
+ * Builds the new text for each comment from the chosen edit mode and a
+ * word-level diff for the preview before anything is sent to YouTube.
+ */
+
+import type { YouTubeComment } from '$lib/types/comment';
+import type { EditOptions, CommentEdit, DiffSegment } from '$lib/types/edit';
+
+// YouTube rejects comments longer than this
+export const MAX_COMMENT_LENGTH = 10000;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+const EMAIL_PATTERN = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
+
+// Above this many tokens the preview falls back to a plain before/after diff
+const MAX_DIFF_TOKENS = 2000;
+
+/**
+ * Validate edit options, returns an error message or null.
+ */
+export function validateEditOptions(options: EditOptions): string | null {
+	switch (options.mode) {
+		case 'template':
+			return options.template.trim() ? null : 'Template must not be empty';
+		case 'strip':
+			return options.urls || options.emails ? null : 'Choose what to remove';
+		case 'regex':
+			if (!options.pattern) return 'Pattern must not be empty';
+			try {
+				new RegExp(options.pattern, options.flags);
+				return null;
+			} catch (e) {
+				return e instanceof Error ? e.message : 'Invalid regular expression';
+			}
+	}
+}
+
+/**
+ * Apply the edit to a single comment and return the new text.
+ */
+export function applyEdit(comment: YouTubeComment, options: EditOptions): string {
+	const text = comment.textOriginal;
+	switch (options.mode) {
+		case 'template':
+			return options.template
+				.replace(/\{date\}/g, comment.publishedAt.split('T')[0])
+				.replace(/\{video\}/g, comment.videoTitle || comment.videoId);
+		case 'strip': {
+			let result = text;
+			if (options.urls) result = result.replace(URL_PATTERN, '');
+			if (options.emails) result = result.replace(EMAIL_PATTERN, '');
+			// Clean up whitespace left behind by removed parts
+			return result.replace(/[ \t]{2,}/g, ' ').replace(/ +\n/g, '\n').trim();
+		}
+		case 'regex':
+			return text.replace(new RegExp(options.pattern, options.flags), options.replacement);
+	}
+}
+
+/**
+ * Plan edits for the selection.
+ * Comments whose text doesn't change are skipped, invalid results are reported separately.
+ */
+export function planEdits(comments: YouTubeComment[], options: EditOptions): {
+	edits: CommentEdit[];
+	unchanged: number;
+	invalid: Array<{ id: string; reason: string }>;
+} {
+	const edits: CommentEdit[] = [];
+	const invalid: Array<{ id: string; reason: string }> = [];
+	let unchanged = 0;
+
+	for (const comment of comments) {
+		const after = applyEdit(comment, options);
+		if (after === comment.textOriginal) {
+			unchanged++;
+		} else if (!after.trim()) {
+			invalid.push({ id: comment.id, reason: 'Text would be empty' });
+		} else if (after.length > MAX_COMMENT_LENGTH) {
+			invalid.push({ id: comment.id, reason: `Text would exceed ${MAX_COMMENT_LENGTH} characters` });
+		} else {
+			edits.push({ id: comment.id, before: comment.textOriginal, after });
+		}
+	}
+
+	return { edits, unchanged, invalid };
+}
+
+/**
+ * Word-level diff (longest common subsequence over words and whitespace).
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+	const a = before.split(/(\s+)/).filter(Boolean);
+	const b = after.split(/(\s+)/).filter(Boolean);
+
+	if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+		return [
+			{ type: 'removed', text: before },
+			{ type: 'added', text: after }
+		];
+	}
+
+	// lengths[i][j] = LCS length of a[i..] and b[j..], stored row-major
+	const width = b.length + 1;
+	const lengths = new Uint16Array((a.length + 1) * width);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i * width + j] = a[i] === b[j]
+				? lengths[(i + 1) * width + j + 1] + 1
+				: Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+		}
+	}
+
+	const segments: DiffSegment[] = [];
+	const push = (type: DiffSegment['type'], text: string) => {
+		const last = segments[segments.length - 1];
+		if (last && last.type === type) last.text += text;
+		else segments.push({ type, text });
+	};
+
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			push('same', a[i]);
+			i++;
+			j++;
+		} else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+			push('removed', a[i++]);
+		} else {
+			push('added', b[j++]);
+		}
+	}
+	while (i < a.length) push('removed', a[i++]);
+	while (j < b.length) push('added', b[j++]);
+
+	return segments;
+}
@@ -48,3 +48,32 @@ export function truncateText(text: string, maxLength: number): string {
 	if (text.length <= maxLength) return text;
 	return text.slice(0, maxLength) + '...';
 }
+
+/**
+ * Format a duration in milliseconds as a short string.
+ * @param ms - Duration in milliseconds
+ * @returns Formatted duration like "3h 12m", "14m" or "less than a minute"
+ */
+export function formatDuration(ms: number): string {
+	const totalMinutes = Math.floor(ms / 60000);
+	if (totalMinutes < 1) return 'less than a minute';
+	const hours = Math.floor(totalMinutes / 60);
+	const minutes = totalMinutes % 60;
+	return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+/**
+ * Format a byte count with a binary unit.
+ * @param bytes - Number of bytes
+ * @returns Formatted size like "512 B", "14.2 MB" or "2.1 GB"
+ */
+export function formatBytes(bytes: number): string {
+	const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return unit === 0 ? `${value} ${units[0]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
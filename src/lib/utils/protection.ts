@@ -0,0 +1,22 @@
+import type { YouTubeComment } from '$lib/types/comment';
+import type { ProtectionEntry } from '$lib/types/protection';
+
+/**
+ * Build a check for the protection list
+ * Comments are protected by their own ID, their video or the channel of their video
+ */
+export function createProtectionMatcher(entries: ProtectionEntry[]): (comment: YouTubeComment) => boolean {
+	const commentIds = new Set<string>();
+	const videoIds = new Set<string>();
+	const channelIds = new Set<string>();
+	for (const entry of entries) {
+		if (entry.kind === 'comment') commentIds.add(entry.id);
+		else if (entry.kind === 'video') videoIds.add(entry.id);
+		else channelIds.add(entry.id);
+	}
+
+	return comment =>
+		commentIds.has(comment.id) ||
+		videoIds.has(comment.videoId) ||
+		(!!comment.videoChannelId && channelIds.has(comment.videoChannelId));
+}
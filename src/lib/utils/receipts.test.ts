@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { deletionRecordsToCSV } from './receipts';
+import type { DeletionRecord } from '$lib/types/deletion';
+
+function record(overrides: Partial<DeletionRecord>): DeletionRecord {
+	return {
+		id: 'run-1:comment-1',
+		commentId: 'comment-1',
+		sessionId: 'run-1',
+		batch: 1,
+		attemptedAt: Date.UTC(2026, 0, 2, 3, 4, 5),
+		result: 'deleted',
+		text: 'Nice video',
+		publishedAt: '2020-01-01T00:00:00Z',
+		videoId: 'video-1',
+		...overrides
+	};
+}
+
+function dataRow(csv: string): string {
+	return csv.split('\r\n')[1];
+}
+
+describe('deletionRecordsToCSV', () => {
+	it('quotes fields with separators, quotes and line breaks', () => {
+		const csv = deletionRecordsToCSV([record({ text: 'Hello, "world"\nbye' })]);
+		expect(csv.endsWith(',"Hello, ""world""\nbye"')).toBe(true);
+	});
+
+	it.each([
+		['=HYPERLINK("http://example.com")', `"'=HYPERLINK(""http://example.com"")"`],
+		['+1+2', "'+1+2"],
+		['-2+3', "'-2+3"],
+		['@SUM(A1:A2)', "'@SUM(A1:A2)"],
+		['\t=1', "'\t=1"]
+	])('neutralizes formula text %j', (title, expected) => {
+		const row = dataRow(deletionRecordsToCSV([record({ videoTitle: title })]));
+		expect(row.split(',video-1,')[1].startsWith(`${expected},`)).toBe(true);
+	});
+
+	it('leaves numbers and plain text alone', () => {
+		const row = dataRow(deletionRecordsToCSV([record({ batch: 12, text: 'a = b' })]));
+		expect(row).toBe('2026-01-02T03:04:05.000Z,deleted,,comment-1,run-1,12,2020-01-01T00:00:00Z,video-1,,,,a = b');
+	});
+});
@@ -0,0 +1,88 @@
+/**
+ * Deletion receipt exports (CSV and JSON) built from the deletion history.
+ */
+
+import type { YouTubeComment } from '$lib/types/comment';
+import type { DeletionRecord } from '$lib/types/deletion';
+
+const CSV_COLUMNS: (keyof DeletionRecord)[] = [
+	'attemptedAt',
+	'result',
+	'error',
+	'commentId',
+	'sessionId',
+	'batch',
+	'publishedAt',
+	'videoId',
+	'videoTitle',
+	'channelId',
+	'channelTitle',
+	'text'
+];
+
+/**
+ * Create a deletion record for an attempted comment deletion.
+ */
+export function createDeletionRecord(
+	comment: YouTubeComment,
+	sessionId: string,
+	batch: number,
+	error?: string
+): DeletionRecord {
+	return {
+		id: `${sessionId}:${comment.id}`,
+		commentId: comment.id,
+		sessionId,
+		batch,
+		attemptedAt: Date.now(),
+		result: error ? 'failed' : 'deleted',
+		error,
+		text: comment.textOriginal,
+		publishedAt: comment.publishedAt,
+		videoId: comment.videoId,
+		videoTitle: comment.videoTitle,
+		channelId: comment.videoChannelId,
+		channelTitle: comment.videoChannelTitle
+	};
+}
+
+// Quote a CSV field when it contains separators, quotes or line breaks (RFC 4180).
+// Text that a spreadsheet would run as a formula (video titles are written by anyone) gets a
+// leading apostrophe, so opening the receipt can't execute it.
+function escapeCsvField(value: unknown): string {
+	if (value === undefined || value === null) return '';
+	let text = String(value);
+	if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+		text = `'${text}`;
+	}
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export deletion records as CSV (one row per attempt, timestamps in ISO format).
+ */
+export function deletionRecordsToCSV(records: DeletionRecord[]): string {
+	const rows = records.map(record =>
+		CSV_COLUMNS.map(column =>
+			escapeCsvField(column === 'attemptedAt' ? new Date(record.attemptedAt).toISOString() : record[column])
+		).join(',')
+	);
+	return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+/**
+ * Export deletion records as a JSON receipt document.
+ */
+export function deletionRecordsToJSON(records: DeletionRecord[]): string {
+	return JSON.stringify(
+		{
+			version: 1,
+			exportedAt: new Date().toISOString(),
+			deleted: records.filter(r => r.result === 'deleted').length,
+			failed: records.filter(r => r.result === 'failed').length,
+			records: records.map(record => ({ ...record, attemptedAt: new Date(record.attemptedAt).toISOString() }))
+		},
+		null,
+		2
+	);
+}
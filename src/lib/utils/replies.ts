@@ -0,0 +1,14 @@
+/**
+ * Reply thread helpers
+ */
+
+import type { YouTubeComment } from '$lib/types/comment';
+
+/**
+ * Number of replies from other people under a top-level comment.
+ * Until the thread is loaded only the total reply count is known, so that is used instead.
+ */
+export function getRepliesFromOthers(comment: YouTubeComment): number {
+	if (comment.parentId) return 0;
+	return comment.otherReplyCount ?? comment.totalReplyCount ?? 0;
+}
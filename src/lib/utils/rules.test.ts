@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { createCondition, evaluateRule, findRuleMatches, isRuleComplete } from './rules';
+import type { RuleNode } from '$lib/types/rule';
+import type { YouTubeComment } from '$lib/types/comment';
+
+function comment(id: string, overrides: Partial<YouTubeComment> = {}): YouTubeComment {
+	return {
+		id,
+		textDisplay: '',
+		textOriginal: '',
+		authorDisplayName: 'Me',
+		authorProfileImageUrl: '',
+		authorChannelUrl: '',
+		likeCount: 0,
+		publishedAt: '2020-06-15T12:00:00Z',
+		updatedAt: '2020-06-15T12:00:00Z',
+		videoId: 'video-1',
+		canRate: true,
+		viewerRating: 'none',
+		...overrides
+	};
+}
+
+const comments = [
+	comment('quiet', { likeCount: 0, textOriginal: 'first!' }),
+	comment('liked', { likeCount: 25, textOriginal: 'great video', labels: ['api_error'] })
+];
+
+describe('evaluateRule', () => {
+	it('matches nothing with an empty group', () => {
+		expect(findRuleMatches({ type: 'and', children: [] }, comments)).toEqual([]);
+		expect(findRuleMatches({ type: 'or', children: [] }, comments)).toEqual([]);
+	});
+
+	it('matches nothing with a NOT around an empty group', () => {
+		const rule: RuleNode = { type: 'and', children: [{ type: 'not', child: { type: 'or', children: [] } }] };
+		expect(findRuleMatches(rule, comments)).toEqual([]);
+	});
+
+	it('matches nothing with a freshly added NOT', () => {
+		// What "+ NOT" adds to a group in the rule editor
+		for (const field of ['likeCount', 'videoPrivacy', 'text'] as const) {
+			const rule: RuleNode = { type: 'and', children: [{ type: 'not', child: createCondition(field) }] };
+			expect(findRuleMatches(rule, comments), field).toEqual([]);
+		}
+	});
+
+	it('matches nothing with a NOT around a group with an unfinished condition', () => {
+		const rule: RuleNode = {
+			type: 'not',
+			child: { type: 'or', children: [{ ...createCondition('likeCount'), operator: 'gt', value: 10 }, createCondition('text')] }
+		};
+		expect(findRuleMatches(rule, comments)).toEqual([]);
+	});
+
+	it('negates filled-in conditions', () => {
+		const rule: RuleNode = { type: 'not', child: { ...createCondition('likeCount'), operator: 'gt', value: 10 } };
+		expect(findRuleMatches(rule, comments)).toEqual(['quiet']);
+		expect(evaluateRule({ type: 'not', child: { ...createCondition('label'), value: 'api_error' } }, comments[1])).toBe(false);
+	});
+
+	it('treats 0 as a value but a cleared number field as unfinished', () => {
+		expect(findRuleMatches({ ...createCondition('likeCount'), operator: 'eq', value: 0 }, comments)).toEqual(['quiet']);
+		expect(findRuleMatches({ ...createCondition('likeCount'), operator: 'lte', value: '' }, comments)).toEqual([]);
+	});
+});
+
+describe('isRuleComplete', () => {
+	it('requires groups with children and conditions with values', () => {
+		expect(isRuleComplete(createCondition('likeCount'))).toBe(false);
+		expect(isRuleComplete(createCondition('label'))).toBe(true);
+		expect(isRuleComplete({ type: 'and', children: [] })).toBe(false);
+		expect(isRuleComplete({ type: 'and', children: [createCondition('label'), createCondition('moderationStatus')] })).toBe(false);
+		expect(isRuleComplete({ type: 'not', child: { ...createCondition('text'), value: 'spam' } })).toBe(true);
+	});
+});
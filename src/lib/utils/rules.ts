@@ -0,0 +1,224 @@
+/**
+ * Selection rule evaluation.
+ * Rules are trees of AND/OR/NOT groups over simple field conditions,
+ * evaluated against the stored comments to build the slash queue.
+ */
+
+import type { YouTubeComment, CommentLabel } from '$lib/types/comment';
+import type { RuleNode, RuleConditionNode, RuleField, RuleOperator } from '$lib/types/rule';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RuleFieldInfo {
+	label: string;
+	kind: 'number' | 'set' | 'label' | 'text';
+	operators: RuleOperator[];
+	// Allowed values for 'set' fields
+	options?: string[];
+}
+
+// Field metadata used by the rule editor and for validation
+export const RULE_FIELDS: Record<RuleField, RuleFieldInfo> = {
+	likeCount: { label: 'Likes', kind: 'number', operators: ['lt', 'lte', 'gt', 'gte', 'eq'] },
+	textLength: { label: 'Characters', kind: 'number', operators: ['lt', 'lte', 'gt', 'gte', 'eq'] },
+	ageDays: { label: 'Age (days)', kind: 'number', operators: ['lt', 'lte', 'gt', 'gte', 'eq'] },
+	replyCount: { label: 'Replies', kind: 'number', operators: ['lt', 'lte', 'gt', 'gte', 'eq'] },
+	videoPrivacy: {
+		label: 'Video privacy',
+		kind: 'set',
+		operators: ['in'],
+		options: ['public', 'private', 'unlisted', 'unknown']
+	},
+	moderationStatus: {
+		label: 'Moderation status',
+		kind: 'set',
+		operators: ['in'],
+		options: ['published', 'heldForReview', 'likelySpam', 'rejected', 'unknown']
+	},
+	label: {
+		label: 'Label',
+		kind: 'label',
+		operators: ['has', 'lacks'],
+		options: ['api_error', 'unenrichable', 'externally_deleted', 'update_error', 'edit_error']
+	},
+	channelId: { label: 'Channel ID', kind: 'text', operators: ['eq'] },
+	text: { label: 'Text', kind: 'text', operators: ['contains'] }
+};
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+	lt: '<',
+	lte: '≤',
+	gt: '>',
+	gte: '≥',
+	eq: '=',
+	in: 'is one of',
+	has: 'has',
+	lacks: 'does not have',
+	contains: 'contains'
+};
+
+/**
+ * Create a condition node with sensible defaults for the given field.
+ * Values the user has to choose start out empty, so the condition isn't complete yet.
+ */
+export function createCondition(field: RuleField = 'likeCount'): RuleConditionNode {
+	const info = RULE_FIELDS[field];
+	let value: RuleConditionNode['value'];
+	switch (info.kind) {
+		case 'number':
+			value = '';
+			break;
+		case 'set':
+			value = [];
+			break;
+		case 'label':
+			value = info.options?.[0] ?? '';
+			break;
+		default:
+			value = '';
+	}
+	return { type: 'condition', field, operator: info.operators[0], value };
+}
+
+/**
+ * Check if a condition has a value to test against.
+ */
+export function isConditionComplete(node: RuleConditionNode): boolean {
+	switch (RULE_FIELDS[node.field].kind) {
+		case 'number':
+			return node.value !== '' && !Array.isArray(node.value) && isFinite(Number(node.value));
+		case 'set':
+			return Array.isArray(node.value) && node.value.length > 0;
+		default:
+			return typeof node.value === 'string' && node.value.trim() !== '';
+	}
+}
+
+/**
+ * Check if every group of a rule tree has children and every condition is filled in.
+ */
+export function isRuleComplete(node: RuleNode): boolean {
+	switch (node.type) {
+		case 'and':
+		case 'or':
+			return node.children.length > 0 && node.children.every(isRuleComplete);
+		case 'not':
+			return isRuleComplete(node.child);
+		case 'condition':
+			return isConditionComplete(node);
+	}
+}
+
+function getNumericValue(comment: YouTubeComment, field: RuleField, now: number): number {
+	switch (field) {
+		case 'likeCount':
+			return comment.likeCount;
+		case 'textLength':
+			return comment.textOriginal.length;
+		case 'replyCount':
+			return comment.totalReplyCount ?? 0;
+		case 'ageDays': {
+			const published = new Date(comment.publishedAt).getTime();
+			// Unknown dates never match age comparisons
+			return isNaN(published) ? NaN : (now - published) / DAY_MS;
+		}
+		default:
+			return NaN;
+	}
+}
+
+function compareNumber(actual: number, operator: RuleOperator, expected: number): boolean {
+	if (isNaN(actual) || isNaN(expected)) return false;
+	switch (operator) {
+		case 'lt': return actual < expected;
+		case 'lte': return actual <= expected;
+		case 'gt': return actual > expected;
+		case 'gte': return actual >= expected;
+		case 'eq': return actual === expected;
+		default: return false;
+	}
+}
+
+function evaluateCondition(node: RuleConditionNode, comment: YouTubeComment, now: number): boolean {
+	if (!isConditionComplete(node)) return false;
+	switch (node.field) {
+		case 'likeCount':
+		case 'textLength':
+		case 'replyCount':
+		case 'ageDays':
+			return compareNumber(getNumericValue(comment, node.field, now), node.operator, Number(node.value));
+		case 'videoPrivacy': {
+			const values = Array.isArray(node.value) ? node.value : [];
+			return values.includes(comment.videoPrivacyStatus || 'unknown');
+		}
+		case 'moderationStatus': {
+			const values = Array.isArray(node.value) ? node.value : [];
+			return values.includes(comment.moderationStatus || 'unknown');
+		}
+		case 'label': {
+			const hasLabel = comment.labels?.includes(node.value as CommentLabel) ?? false;
+			return node.operator === 'lacks' ? !hasLabel : hasLabel;
+		}
+		case 'channelId':
+			return comment.videoChannelId === String(node.value);
+		case 'text': {
+			const needle = String(node.value).toLowerCase();
+			if (!needle) return false;
+			return comment.textOriginal.toLowerCase().includes(needle);
+		}
+		default:
+			return false;
+	}
+}
+
+/**
+ * Evaluate a rule tree against a single comment.
+ * Empty groups and conditions without a value match nothing, and neither does a NOT
+ * around them, so an unfinished rule can never queue every comment.
+ */
+export function evaluateRule(node: RuleNode, comment: YouTubeComment, now: number = Date.now()): boolean {
+	switch (node.type) {
+		case 'and':
+			return node.children.length > 0 && node.children.every(child => evaluateRule(child, comment, now));
+		case 'or':
+			return node.children.some(child => evaluateRule(child, comment, now));
+		case 'not':
+			return isRuleComplete(node.child) && !evaluateRule(node.child, comment, now);
+		case 'condition':
+			return evaluateCondition(node, comment, now);
+	}
+}
+
+/**
+ * Return the IDs of all comments matching a rule, in input order.
+ */
+export function findRuleMatches(node: RuleNode, comments: YouTubeComment[]): string[] {
+	const now = Date.now();
+	return comments.filter(c => evaluateRule(node, c, now)).map(c => c.id);
+}
+
+/**
+ * Render a rule tree as a short human-readable summary.
+ */
+export function describeRule(node: RuleNode): string {
+	switch (node.type) {
+		case 'and':
+		case 'or': {
+			if (node.children.length === 0) return 'nothing';
+			const parts = node.children.map(child => {
+				const text = describeRule(child);
+				return child.type === 'and' || child.type === 'or' ? `(${text})` : text;
+			});
+			return parts.join(node.type === 'and' ? ' AND ' : ' OR ');
+		}
+		case 'not': {
+			const text = describeRule(node.child);
+			return node.child.type === 'condition' ? `NOT ${text}` : `NOT (${text})`;
+		}
+		case 'condition': {
+			const info = RULE_FIELDS[node.field];
+			const value = Array.isArray(node.value) ? node.value.join(', ') : String(node.value);
+			return `${info.label} ${RULE_OPERATOR_LABELS[node.operator]} ${value}`;
+		}
+	}
+}
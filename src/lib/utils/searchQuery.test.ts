@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchQuery, matchesSearchQuery, scoreSearchMatch } from './searchQuery';
+import type { YouTubeComment } from '$lib/types/comment';
+
+function comment(overrides: Partial<YouTubeComment>): YouTubeComment {
+	return {
+		id: 'comment-1',
+		textDisplay: '',
+		textOriginal: '',
+		authorDisplayName: 'Me',
+		authorProfileImageUrl: '',
+		authorChannelUrl: '',
+		likeCount: 0,
+		publishedAt: '2020-06-15T12:00:00Z',
+		updatedAt: '2020-06-15T12:00:00Z',
+		videoId: 'video-1',
+		canRate: true,
+		viewerRating: 'none',
+		...overrides
+	};
+}
+
+function matches(query: string, target: YouTubeComment, mode: Parameters<typeof matchesSearchQuery>[2] = 'all'): boolean {
+	const { root } = parseSearchQuery(query);
+	if (!root) throw new Error(`"${query}" has no usable terms`);
+	return matchesSearchQuery(root, target, mode);
+}
+
+describe('parseSearchQuery', () => {
+	it('combines words with an implicit AND', () => {
+		expect(parseSearchQuery('cats dogs').root).toEqual({
+			type: 'and',
+			children: [
+				{ type: 'term', field: 'any', value: 'cats', tokens: ['cats'] },
+				{ type: 'term', field: 'any', value: 'dogs', tokens: ['dogs'] }
+			]
+		});
+	});
+
+	it('binds OR tighter than AND', () => {
+		const { root } = parseSearchQuery('a b OR c');
+		expect(root).toMatchObject({
+			type: 'and',
+			children: [{ type: 'term', value: 'a' }, { type: 'or', children: [{ value: 'b' }, { value: 'c' }] }]
+		});
+	});
+
+	it('parses negation, groups, phrases and field prefixes', () => {
+		const { root, errors } = parseSearchQuery('-(spam OR "buy now") video:Café');
+		expect(errors).toEqual([]);
+		expect(root).toEqual({
+			type: 'and',
+			children: [
+				{
+					type: 'not',
+					child: {
+						type: 'or',
+						children: [
+							{ type: 'term', field: 'any', value: 'spam', tokens: ['spam'] },
+							{ type: 'term', field: 'any', value: 'buy now', tokens: ['buy', 'now'] }
+						]
+					}
+				},
+				{ type: 'term', field: 'video', value: 'café', tokens: ['cafe'] }
+			]
+		});
+	});
+
+	it('parses filters', () => {
+		expect(parseSearchQuery('likes:>=10').root).toEqual({ type: 'likes', operator: '>=', value: 10 });
+		expect(parseSearchQuery('likes:3').root).toEqual({ type: 'likes', operator: '=', value: 3 });
+		expect(parseSearchQuery('before:2021-01-01').root).toEqual({ type: 'date', operator: 'before', date: '2021-01-01' });
+		expect(parseSearchQuery('label:API_ERROR').root).toEqual({ type: 'label', label: 'api_error' });
+	});
+
+	it('parses regex literals with escaped slashes and strips stateful flags', () => {
+		const { root } = parseSearchQuery('/a\\/b/gm');
+		expect(root).toMatchObject({ type: 'regex', field: 'any' });
+		const regex = (root as Extract<typeof root, { type: 'regex' }>).regex;
+		expect(regex.source).toBe('a\\/b');
+		expect(regex.flags).toBe('m');
+		expect(parseSearchQuery('/abc/').root).toMatchObject({ regex: /abc/i });
+	});
+
+	it('reports unusable terms and keeps the rest', () => {
+		const { root, errors } = parseSearchQuery('likes:many before:2020-13-45 label:nope cats');
+		expect(root).toEqual({ type: 'term', field: 'any', value: 'cats', tokens: ['cats'] });
+		expect(errors).toHaveLength(3);
+	});
+
+	it('recovers from unbalanced parentheses, quotes and dangling OR', () => {
+		expect(parseSearchQuery('(cats').errors).toEqual(['Missing closing parenthesis']);
+		expect(parseSearchQuery('cats)').errors).toEqual(['Unmatched closing parenthesis']);
+		expect(parseSearchQuery('"open phrase').root).toMatchObject({ type: 'term', value: 'open phrase' });
+		expect(parseSearchQuery('cats OR').errors).toEqual(['"OR" needs a term on both sides']);
+		expect(parseSearchQuery('OR cats').root).toMatchObject({ type: 'term', value: 'cats' });
+	});
+
+	it('falls back to plain text for invalid regular expressions', () => {
+		const { root, errors } = parseSearchQuery('/(unclosed/');
+		expect(root).toMatchObject({ type: 'term', value: '/(unclosed/' });
+		expect(errors).toHaveLength(1);
+	});
+
+	it('returns no root for empty queries', () => {
+		expect(parseSearchQuery('   ').root).toBeNull();
+		expect(parseSearchQuery('-').root).toMatchObject({ type: 'term', value: '-' });
+	});
+});
+
+describe('matchesSearchQuery', () => {
+	const target = comment({
+		textOriginal: 'Crème brûlée is the BEST dessert',
+		videoTitle: 'Baking with friends',
+		videoChannelTitle: 'Kitchen Channel',
+		likeCount: 12,
+		labels: ['api_error']
+	});
+
+	it('matches word prefixes ignoring case and diacritics', () => {
+		expect(matches('creme brul', target)).toBe(true);
+		expect(matches('reme', target)).toBe(false);
+	});
+
+	it('matches phrases only in order', () => {
+		expect(matches('"the best"', target)).toBe(true);
+		expect(matches('"best the"', target)).toBe(false);
+	});
+
+	it('restricts terms to fields and follows the search mode', () => {
+		expect(matches('video:baking', target)).toBe(true);
+		expect(matches('text:baking', target)).toBe(false);
+		expect(matches('baking', target, 'comments')).toBe(false);
+		expect(matches('kitchen', target, 'channels')).toBe(true);
+	});
+
+	it('evaluates negation, OR and filters', () => {
+		expect(matches('-dessert', target)).toBe(false);
+		expect(matches('cake OR dessert', target)).toBe(true);
+		expect(matches('likes:>10 after:2020-01-01 label:api_error', target)).toBe(true);
+		expect(matches('likes:<10', target)).toBe(false);
+		expect(matches('before:2020-06-15', target)).toBe(false);
+	});
+
+	it('evaluates regular expressions', () => {
+		expect(matches('/brûlée\\s+is/', target)).toBe(true);
+		expect(matches('/BEST/', target)).toBe(true);
+		expect(matches('/best/g', target)).toBe(false);
+	});
+});
+
+describe('scoreSearchMatch', () => {
+	it('counts term occurrences and ignores excluded terms', () => {
+		const target = comment({ textOriginal: 'spam spam eggs', videoTitle: 'Spam recipes' });
+		const { root } = parseSearchQuery('spam -eggs');
+		expect(scoreSearchMatch(root!, target)).toBe(3);
+	});
+});
@@ -0,0 +1,350 @@
+/**
+ * Search query language used by the search bar.
+ *
+ * Syntax:
+ *   word "exact phrase"        all terms must match (implicit AND)
+ *                              words match word prefixes, ignoring case and diacritics
+ *   cats OR dogs               either term matches (OR binds tighter than AND)
+ *   -spam  -(a OR b)           exclude matches
+ *   ( ... )                    grouping
+ *   text: video: channel:      restrict a term to one field
+ *   /regex/flags               regular expression (case-insensitive unless flags are given)
+ *   likes:>10  likes:<=2       like count comparison
+ *   before:2020-01-01 after:   publish date
+ *   label:api_error            comment label
+ *
+ * The query is parsed once into a SearchNode tree, which both the in-memory
+ * store (filteredComments) and IndexedDB queries (queryComments) evaluate.
+ */
+
+import type { YouTubeComment, CommentLabel } from '$lib/types/comment';
+import type { SearchMode, SearchField, SearchNode, SearchComparison, ParsedSearchQuery } from '$lib/types/search';
+import { tokenizeForSearch, getTokenString, getFieldText, countTokenMatches, type IndexedField } from './textIndex';
+
+const KNOWN_LABELS: CommentLabel[] = ['api_error', 'unenrichable', 'externally_deleted', 'update_error', 'edit_error'];
+const PREFIX_PATTERN = /^(text|video|channel|likes|before|after|label):/i;
+const LIKES_PATTERN = /^(>=|<=|>|<|=)?(\d+)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type Token =
+	| { kind: 'lparen' }
+	| { kind: 'rparen' }
+	| { kind: 'or' }
+	| { kind: 'minus' }
+	| { kind: 'atom'; prefix?: string; value: string; quoted: boolean; regex?: { source: string; flags: string } };
+
+function tokenize(query: string, errors: string[]): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < query.length) {
+		const char = query[i];
+
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+		if (char === '(') {
+			tokens.push({ kind: 'lparen' });
+			i++;
+			continue;
+		}
+		if (char === ')') {
+			tokens.push({ kind: 'rparen' });
+			i++;
+			continue;
+		}
+		// A leading minus negates the following term or group
+		if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+			tokens.push({ kind: 'minus' });
+			i++;
+			continue;
+		}
+
+		// Optional field prefix
+		let prefix: string | undefined;
+		const prefixMatch = query.slice(i).match(PREFIX_PATTERN);
+		if (prefixMatch) {
+			prefix = prefixMatch[1].toLowerCase();
+			i += prefixMatch[0].length;
+		}
+
+		// Quoted phrase
+		if (query[i] === '"') {
+			const end = query.indexOf('"', i + 1);
+			if (end === -1) {
+				errors.push('Unclosed quote - treated as a phrase up to the end of the query');
+				tokens.push({ kind: 'atom', prefix, value: query.slice(i + 1), quoted: true });
+				break;
+			}
+			tokens.push({ kind: 'atom', prefix, value: query.slice(i + 1, end), quoted: true });
+			i = end + 1;
+			continue;
+		}
+
+		// Regex literal: /pattern/flags (escaped slashes allowed inside)
+		if (query[i] === '/') {
+			let j = i + 1;
+			while (j < query.length && query[j] !== '/') {
+				j += query[j] === '\\' ? 2 : 1;
+			}
+			if (j < query.length) {
+				const flagsMatch = query.slice(j + 1).match(/^[a-z]*/);
+				const flags = flagsMatch ? flagsMatch[0] : '';
+				tokens.push({
+					kind: 'atom',
+					prefix,
+					value: query.slice(i, j + 1 + flags.length),
+					quoted: false,
+					regex: { source: query.slice(i + 1, j), flags }
+				});
+				i = j + 1 + flags.length;
+				continue;
+			}
+			// No closing slash - fall through and read as a plain word
+		}
+
+		// Plain word
+		let end = i;
+		while (end < query.length && !/[\s()]/.test(query[end])) end++;
+		const value = query.slice(i, end);
+		i = end;
+
+		if (!prefix && value === 'OR') {
+			tokens.push({ kind: 'or' });
+		} else {
+			tokens.push({ kind: 'atom', prefix, value, quoted: false });
+		}
+	}
+
+	return tokens;
+}
+
+// Convert a single atom into a node, or null if it cannot be used
+function atomToNode(token: Extract<Token, { kind: 'atom' }>, errors: string[]): SearchNode | null {
+	const prefix = token.prefix;
+	const display = prefix ? `${prefix}:${token.value}` : token.value;
+
+	switch (prefix) {
+		case 'likes': {
+			const match = token.value.match(LIKES_PATTERN);
+			if (!match) {
+				errors.push(`"${display}" - likes needs a number, e.g. likes:>10`);
+				return null;
+			}
+			return { type: 'likes', operator: (match[1] || '=') as SearchComparison, value: parseInt(match[2], 10) };
+		}
+		case 'before':
+		case 'after': {
+			if (!DATE_PATTERN.test(token.value) || isNaN(new Date(token.value).getTime())) {
+				errors.push(`"${display}" - dates use the YYYY-MM-DD format`);
+				return null;
+			}
+			return { type: 'date', operator: prefix, date: token.value };
+		}
+		case 'label': {
+			const label = token.value.toLowerCase() as CommentLabel;
+			if (!KNOWN_LABELS.includes(label)) {
+				errors.push(`"${display}" - unknown label (use ${KNOWN_LABELS.join(', ')})`);
+				return null;
+			}
+			return { type: 'label', label };
+		}
+	}
+
+	const field: SearchField = (prefix as SearchField | undefined) ?? 'any';
+
+	if (token.regex) {
+		// Stateful flags would make repeated test() calls unreliable
+		const flags = token.regex.flags ? token.regex.flags.replace(/[gy]/g, '') : 'i';
+		try {
+			return { type: 'regex', field, regex: new RegExp(token.regex.source, flags) };
+		} catch {
+			errors.push(`"${display}" - invalid regular expression, searched as plain text`);
+			return createTermNode(field, token.value);
+		}
+	}
+
+	if (!token.value) {
+		if (prefix) errors.push(`"${display}" - missing search term`);
+		return null;
+	}
+
+	return createTermNode(field, token.value);
+}
+
+function createTermNode(field: SearchField, value: string): SearchNode {
+	return { type: 'term', field, value: value.toLowerCase(), tokens: tokenizeForSearch(value) };
+}
+
+function combine(type: 'and' | 'or', children: SearchNode[]): SearchNode | null {
+	if (children.length === 0) return null;
+	if (children.length === 1) return children[0];
+	return { type, children };
+}
+
+/**
+ * Parse a search query into a SearchNode tree.
+ * The parser is forgiving: unusable terms are dropped and reported in `errors`.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+	const errors: string[] = [];
+	const tokens = tokenize(query, errors);
+	let pos = 0;
+
+	// and := or+
+	function parseAnd(): SearchNode | null {
+		const children: SearchNode[] = [];
+		while (pos < tokens.length && tokens[pos].kind !== 'rparen') {
+			if (tokens[pos].kind === 'or') {
+				// OR without a left-hand term
+				errors.push('"OR" needs a term on both sides');
+				pos++;
+				continue;
+			}
+			const node = parseOr();
+			if (node) children.push(node);
+		}
+		return combine('and', children);
+	}
+
+	// or := unary ('OR' unary)*
+	function parseOr(): SearchNode | null {
+		const children: SearchNode[] = [];
+		const first = parseUnary();
+		if (first) children.push(first);
+		while (pos < tokens.length && tokens[pos].kind === 'or') {
+			pos++;
+			if (pos >= tokens.length || tokens[pos].kind === 'rparen') {
+				errors.push('"OR" needs a term on both sides');
+				break;
+			}
+			const next = parseUnary();
+			if (next) children.push(next);
+		}
+		return combine('or', children);
+	}
+
+	// unary := '-' unary | '(' and ')' | atom
+	function parseUnary(): SearchNode | null {
+		const token = tokens[pos++];
+		switch (token.kind) {
+			case 'minus': {
+				if (pos >= tokens.length || tokens[pos].kind === 'rparen') return null;
+				const child = parseUnary();
+				return child ? { type: 'not', child } : null;
+			}
+			case 'lparen': {
+				const inner = parseAnd();
+				if (tokens[pos]?.kind === 'rparen') {
+					pos++;
+				} else {
+					errors.push('Missing closing parenthesis');
+				}
+				return inner;
+			}
+			case 'atom':
+				return atomToNode(token, errors);
+			default:
+				return null;
+		}
+	}
+
+	const children: SearchNode[] = [];
+	while (pos < tokens.length) {
+		const node = parseAnd();
+		if (node) children.push(node);
+		// parseAnd stops at a stray ')' - skip it and keep going
+		if (tokens[pos]?.kind === 'rparen') {
+			errors.push('Unmatched closing parenthesis');
+			pos++;
+		}
+	}
+
+	return { root: combine('and', children), errors };
+}
+
+/**
+ * Get the fields a term searches, resolving 'any' through the search mode.
+ */
+export function getSearchFields(field: SearchField, mode: SearchMode): IndexedField[] {
+	if (field !== 'any') return [field];
+	switch (mode) {
+		case 'comments':
+			return ['text'];
+		case 'videos':
+			return ['video'];
+		case 'channels':
+			return ['channel'];
+		case 'all':
+		default:
+			return ['text', 'video', 'channel'];
+	}
+}
+
+// Word-prefix match on normalized tokens; terms without word characters fall back to substring match
+function matchesTerm(node: Extract<SearchNode, { type: 'term' }>, comment: YouTubeComment, mode: SearchMode): boolean {
+	const fields = getSearchFields(node.field, mode);
+	if (node.tokens.length === 0) {
+		return fields.some(field => getFieldText(comment, field).toLowerCase().includes(node.value));
+	}
+	const needle = ' ' + node.tokens.join(' ');
+	return fields.some(field => getTokenString(comment, field).includes(needle));
+}
+
+function compare(actual: number, operator: SearchComparison, expected: number): boolean {
+	switch (operator) {
+		case '<': return actual < expected;
+		case '<=': return actual <= expected;
+		case '>': return actual > expected;
+		case '>=': return actual >= expected;
+		case '=': return actual === expected;
+	}
+}
+
+/**
+ * Evaluate a parsed search query against a comment.
+ * Bare terms search the fields selected by the search mode.
+ */
+export function matchesSearchQuery(node: SearchNode, comment: YouTubeComment, mode: SearchMode = 'all'): boolean {
+	switch (node.type) {
+		case 'and':
+			return node.children.every(child => matchesSearchQuery(child, comment, mode));
+		case 'or':
+			return node.children.some(child => matchesSearchQuery(child, comment, mode));
+		case 'not':
+			return !matchesSearchQuery(node.child, comment, mode);
+		case 'term':
+			return matchesTerm(node, comment, mode);
+		case 'regex':
+			return getSearchFields(node.field, mode).some(field => node.regex.test(getFieldText(comment, field)));
+		case 'likes':
+			return compare(comment.likeCount, node.operator, node.value);
+		case 'date': {
+			const published = new Date(comment.publishedAt);
+			if (isNaN(published.getTime())) return false;
+			const commentDate = published.toISOString().split('T')[0];
+			return node.operator === 'before' ? commentDate < node.date : commentDate > node.date;
+		}
+		case 'label':
+			return comment.labels?.includes(node.label) ?? false;
+	}
+}
+
+/**
+ * Relevance score of a comment for a query: how often the (non-excluded) terms occur.
+ */
+export function scoreSearchMatch(node: SearchNode, comment: YouTubeComment, mode: SearchMode = 'all'): number {
+	switch (node.type) {
+		case 'and':
+		case 'or':
+			return node.children.reduce((sum, child) => sum + scoreSearchMatch(child, comment, mode), 0);
+		case 'term':
+			return getSearchFields(node.field, mode).reduce(
+				(sum, field) => sum + countTokenMatches(getTokenString(comment, field), node.tokens),
+				0
+			);
+		default:
+			return 0;
+	}
+}
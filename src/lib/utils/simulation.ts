@@ -2,6 +2,8 @@
 // This module provides utilities to detect and handle simulation mode in the browser
 // NOTE: This code is tree-shaken in production builds when ENABLE_SIMULATION_MODE is not set
 
+import type { CommentReply } from '$lib/types/comment';
+
 // Compile-time check - allows dead code elimination in production
 // When this is false at build time, the bundler will remove all simulation code
 const SIMULATION_ENABLED = import.meta.env.ENABLE_SIMULATION;
@@ -115,6 +117,33 @@ export function getSimulatedLikeCount(commentId: string): number {
 	return data.likes[commentId] || Math.floor(Math.random() * 100);
 }
 
+/**
+ * Get simulated replies under a comment (about every fourth comment has some)
+ * Returns an empty list in production builds
+ */
+export function getSimulatedReplies(commentId: string, ownChannelId: string): CommentReply[] {
+	if (!SIMULATION_ENABLED) return [];
+	
+	// Deterministic per comment so repeated loads look the same
+	const seed = [...commentId].reduce((sum, char) => sum + char.charCodeAt(0), 0);
+	if (seed % 4 !== 0) return [];
+	
+	const count = 1 + (seed % 3);
+	return Array.from({ length: count }, (_, i) => {
+		const isOwnReply = i === 1 && seed % 2 === 0;
+		return {
+			id: `${commentId}.sim${i}`,
+			textOriginal: isOwnReply ? 'Thanks, glad it helped!' : `Simulated reply #${i + 1} from another viewer`,
+			authorDisplayName: isOwnReply ? SIMULATED_USER.channelTitle : `Viewer ${(seed + i) % 97}`,
+			authorProfileImageUrl: '',
+			authorChannelUrl: `https://www.youtube.com/channel/${isOwnReply ? ownChannelId : `UCsimviewer${(seed + i) % 97}`}`,
+			likeCount: (seed + i) % 7,
+			publishedAt: new Date(Date.UTC(2024, 0, 1 + i, 12)).toISOString(),
+			isOwnReply
+		};
+	});
+}
+
 /**
  * Simulate network delay
  * No-op in production builds
@@ -0,0 +1,195 @@
+/**
+ * Streaming tar reader.
+ * Walks the entries of a tar archive in a single pass (pipe a .tgz through
+ * DecompressionStream('gzip') first). Tar has no index, so every entry is read in
+ * order and the content of entries that aren't opened is skipped.
+ * Understands ustar path prefixes, GNU long names and PAX path/size records.
+ */
+
+export interface TarEntry {
+	path: string;
+	size: number;
+	// Content stream, only readable until the next entry is requested
+	open(): ReadableStream<Uint8Array<ArrayBuffer>>;
+}
+
+const BLOCK_SIZE = 512;
+
+// Regular files ('\0' is used by old tar versions, '7' is a contiguous file)
+const FILE_TYPES = new Set(['0', '\0', '7']);
+
+const decoder = new TextDecoder();
+
+// Hands out exact byte counts from a stream of arbitrarily sized chunks
+function createByteReader(stream: ReadableStream<Uint8Array<ArrayBuffer>>) {
+	const reader = stream.getReader();
+	let buffer = new Uint8Array(0);
+
+	async function fill(): Promise<boolean> {
+		const { done, value } = await reader.read();
+		if (done) return false;
+		if (buffer.length === 0) {
+			buffer = value;
+		} else {
+			const joined = new Uint8Array(buffer.length + value.length);
+			joined.set(buffer);
+			joined.set(value, buffer.length);
+			buffer = joined;
+		}
+		return true;
+	}
+
+	// Up to max bytes without copying, null at the end of the stream
+	async function readSome(max: number): Promise<Uint8Array<ArrayBuffer> | null> {
+		if (buffer.length === 0 && !(await fill())) return null;
+		const chunk = buffer.subarray(0, max);
+		buffer = buffer.subarray(chunk.length);
+		return chunk;
+	}
+
+	// Exactly n bytes, null if the stream ends first
+	async function readExact(n: number): Promise<Uint8Array<ArrayBuffer> | null> {
+		while (buffer.length < n) {
+			if (!(await fill())) return null;
+		}
+		const chunk = buffer.slice(0, n);
+		buffer = buffer.subarray(n);
+		return chunk;
+	}
+
+	async function skip(n: number): Promise<void> {
+		while (n > 0) {
+			const chunk = await readSome(n);
+			if (!chunk) throw new Error('Truncated tar archive.');
+			n -= chunk.length;
+		}
+	}
+
+	return { readSome, readExact, skip, cancel: () => reader.cancel().catch(() => {}) };
+}
+
+// Bytes of padding after content of the given size, up to the next block
+function padTo(size: number): number {
+	return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+}
+
+// Zero-terminated string field
+function readString(bytes: Uint8Array): string {
+	const end = bytes.indexOf(0);
+	return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end));
+}
+
+// Size field: octal text, or base-256 for files over 8 GB (GNU extension)
+function readSize(field: Uint8Array): number {
+	if (field[0] & 0x80) {
+		let size = field[0] & 0x7f;
+		for (let i = 1; i < field.length; i++) {
+			size = size * 256 + field[i];
+		}
+		return size;
+	}
+	return parseInt(readString(field).trim(), 8) || 0;
+}
+
+// PAX extended header records: "<length> <key>=<value>\n", the length counts bytes
+function readPaxRecords(data: Uint8Array): Map<string, string> {
+	const records = new Map<string, string>();
+	let pos = 0;
+	while (pos < data.length) {
+		const space = data.indexOf(0x20, pos);
+		if (space === -1) break;
+		const length = parseInt(decoder.decode(data.subarray(pos, space)), 10);
+		if (!length) break;
+		const record = decoder.decode(data.subarray(space + 1, pos + length)).replace(/\n$/, '');
+		const equals = record.indexOf('=');
+		if (equals > 0) {
+			records.set(record.slice(0, equals), record.slice(equals + 1));
+		}
+		pos += length;
+	}
+	return records;
+}
+
+/**
+ * Iterate over the files in a tar stream
+ * Each entry's content has to be read (or left alone) before asking for the next one.
+ */
+export async function* readTarEntries(stream: ReadableStream<Uint8Array<ArrayBuffer>>): AsyncGenerator<TarEntry> {
+	const bytes = createByteReader(stream);
+	// Name and size from a GNU long name or PAX header, for the entry that follows
+	let nextPath: string | null = null;
+	let nextSize: number | null = null;
+
+	try {
+		while (true) {
+			const header = await bytes.readExact(BLOCK_SIZE);
+			// Two zero blocks end the archive
+			if (!header || header.every(byte => byte === 0)) return;
+
+			const type = String.fromCharCode(header[156]);
+			const headerSize = readSize(header.subarray(124, 136));
+
+			if (type === 'L' || type === 'x') {
+				const data = await bytes.readExact(headerSize + padTo(headerSize));
+				if (!data) throw new Error('Truncated tar archive.');
+				if (type === 'L') {
+					nextPath = readString(data.subarray(0, headerSize));
+				} else {
+					const records = readPaxRecords(data.subarray(0, headerSize));
+					nextPath = records.get('path') ?? nextPath;
+					const paxSize = records.get('size');
+					nextSize = paxSize !== undefined ? parseInt(paxSize, 10) : null;
+				}
+				continue;
+			}
+
+			const size = nextSize ?? headerSize;
+			const padding = padTo(size);
+			let path = nextPath;
+			if (path === null) {
+				path = readString(header.subarray(0, 100));
+				// POSIX ustar archives split long paths into a prefix and a name
+				// (old GNU archives, with "ustar  " as magic, use that field for other data)
+				const prefix = readString(header.subarray(257, 263)) === 'ustar' ? readString(header.subarray(345, 500)) : '';
+				if (prefix) path = `${prefix}/${path}`;
+			}
+			nextPath = null;
+			nextSize = null;
+
+			if (!FILE_TYPES.has(type)) {
+				await bytes.skip(size + padding);
+				continue;
+			}
+
+			let remaining = size;
+			let pulling: Promise<void> = Promise.resolve();
+			const pull = async (controller: ReadableStreamDefaultController<Uint8Array<ArrayBuffer>>) => {
+				if (remaining === 0) {
+					controller.close();
+					return;
+				}
+				const chunk = await bytes.readSome(remaining);
+				if (!chunk) {
+					controller.error(new Error('Truncated tar archive.'));
+					return;
+				}
+				remaining -= chunk.length;
+				controller.enqueue(chunk);
+			};
+
+			yield {
+				path,
+				size,
+				open: () => new ReadableStream<Uint8Array<ArrayBuffer>>({
+					pull: (controller) => (pulling = pull(controller))
+				})
+			};
+
+			// Skip whatever the consumer didn't read, then the padding to the next block
+			await pulling;
+			await bytes.skip(remaining + padding);
+		}
+	} finally {
+		await bytes.cancel();
+	}
+}
@@ -0,0 +1,96 @@
+/**
+ * Text normalization and tokenization for search.
+ * Shared by the IndexedDB inverted index and in-memory query evaluation,
+ * so both paths match exactly the same words.
+ */
+
+import type { YouTubeComment } from '$lib/types/comment';
+
+// Index terms are stored as "<field>:<token>" so one store covers all searchable fields
+export const INDEX_FIELDS = {
+	text: 't',
+	video: 'v',
+	channel: 'c'
+} as const;
+
+export type IndexedField = keyof typeof INDEX_FIELDS;
+
+// Very long tokens (URLs, base64 junk) would only bloat the index
+const MAX_TOKEN_LENGTH = 40;
+
+/**
+ * Lowercase and strip diacritics so "Café" matches "cafe" and "Über" matches "uber".
+ */
+export function normalizeForSearch(text: string): string {
+	return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Split text into normalized word tokens.
+ */
+export function tokenizeForSearch(text: string): string[] {
+	return normalizeForSearch(text)
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(token => token.length > 0)
+		.map(token => token.slice(0, MAX_TOKEN_LENGTH));
+}
+
+export function getFieldText(comment: YouTubeComment, field: IndexedField): string {
+	switch (field) {
+		case 'text':
+			return comment.textOriginal ?? '';
+		case 'video':
+			return comment.videoTitle ?? '';
+		case 'channel':
+			return comment.videoChannelTitle ?? '';
+	}
+}
+
+// Normalized token strings per comment, reused across searches until the comment object is replaced
+const tokenCache = new WeakMap<YouTubeComment, Record<IndexedField, string>>();
+
+/**
+ * Get a field's tokens joined by single spaces, with a leading space
+ * so " " + prefix matches only at word starts.
+ */
+export function getTokenString(comment: YouTubeComment, field: IndexedField): string {
+	let cached = tokenCache.get(comment);
+	if (!cached) {
+		cached = {
+			text: ' ' + tokenizeForSearch(getFieldText(comment, 'text')).join(' '),
+			video: ' ' + tokenizeForSearch(getFieldText(comment, 'video')).join(' '),
+			channel: ' ' + tokenizeForSearch(getFieldText(comment, 'channel')).join(' ')
+		};
+		tokenCache.set(comment, cached);
+	}
+	return cached[field];
+}
+
+/**
+ * Get the index terms of a comment with their term frequencies.
+ */
+export function getIndexTerms(comment: YouTubeComment): Map<string, number> {
+	const terms = new Map<string, number>();
+	for (const field of Object.keys(INDEX_FIELDS) as IndexedField[]) {
+		for (const token of tokenizeForSearch(getFieldText(comment, field))) {
+			const term = `${INDEX_FIELDS[field]}:${token}`;
+			terms.set(term, (terms.get(term) ?? 0) + 1);
+		}
+	}
+	return terms;
+}
+
+/**
+ * Count how often a token sequence occurs at word starts in a token string.
+ */
+export function countTokenMatches(tokenString: string, tokens: string[]): number {
+	if (tokens.length === 0) return 0;
+	const needle = ' ' + tokens.join(' ');
+	let count = 0;
+	let index = tokenString.indexOf(needle);
+	while (index !== -1) {
+		count++;
+		index = tokenString.indexOf(needle, index + needle.length);
+	}
+	return count;
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { listZipEntries, openZipEntry } from './zipStream';
+
+interface TestFile {
+	path: string;
+	content: string;
+	deflate?: boolean;
+}
+
+/**
+ * Build a ZIP archive in memory. With zip64, the sizes, offsets and entry count
+ * in the regular records are set to their "see ZIP64" markers
+ */
+function buildZip(files: TestFile[], { zip64 = false, comment = '' } = {}): Blob {
+	const parts: Buffer[] = [];
+	const directory: Buffer[] = [];
+	let offset = 0;
+
+	for (const file of files) {
+		const name = Buffer.from(file.path);
+		const raw = Buffer.from(file.content);
+		const data = file.deflate ? deflateRawSync(raw) : raw;
+		const method = file.deflate ? 8 : 0;
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(method, 8);
+		local.writeUInt32LE(data.length, 18);
+		local.writeUInt32LE(raw.length, 22);
+		local.writeUInt16LE(name.length, 26);
+		parts.push(local, name, data);
+
+		const extra = Buffer.alloc(zip64 ? 28 : 0);
+		if (zip64) {
+			extra.writeUInt16LE(0x0001, 0);
+			extra.writeUInt16LE(24, 2);
+			extra.writeBigUInt64LE(BigInt(raw.length), 4);
+			extra.writeBigUInt64LE(BigInt(data.length), 12);
+			extra.writeBigUInt64LE(BigInt(offset), 20);
+		}
+
+		const header = Buffer.alloc(46);
+		header.writeUInt32LE(0x02014b50, 0);
+		header.writeUInt16LE(method, 10);
+		header.writeUInt32LE(zip64 ? 0xffffffff : data.length, 20);
+		header.writeUInt32LE(zip64 ? 0xffffffff : raw.length, 24);
+		header.writeUInt16LE(name.length, 28);
+		header.writeUInt16LE(extra.length, 30);
+		header.writeUInt32LE(zip64 ? 0xffffffff : offset, 42);
+		directory.push(header, name, extra);
+
+		offset += local.length + name.length + data.length;
+	}
+
+	const directoryOffset = offset;
+	const directorySize = directory.reduce((size, part) => size + part.length, 0);
+	parts.push(...directory);
+
+	if (zip64) {
+		const record = Buffer.alloc(56);
+		record.writeUInt32LE(0x06064b50, 0);
+		record.writeBigUInt64LE(44n, 4);
+		record.writeBigUInt64LE(BigInt(files.length), 24);
+		record.writeBigUInt64LE(BigInt(files.length), 32);
+		record.writeBigUInt64LE(BigInt(directorySize), 40);
+		record.writeBigUInt64LE(BigInt(directoryOffset), 48);
+
+		const locator = Buffer.alloc(20);
+		locator.writeUInt32LE(0x07064b50, 0);
+		locator.writeBigUInt64LE(BigInt(directoryOffset + directorySize), 8);
+		locator.writeUInt32LE(1, 16);
+		parts.push(record, locator);
+	}
+
+	const commentBytes = Buffer.from(comment);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(zip64 ? 0xffff : files.length, 8);
+	end.writeUInt16LE(zip64 ? 0xffff : files.length, 10);
+	end.writeUInt32LE(zip64 ? 0xffffffff : directorySize, 12);
+	end.writeUInt32LE(zip64 ? 0xffffffff : directoryOffset, 16);
+	end.writeUInt16LE(commentBytes.length, 20);
+	parts.push(end, commentBytes);
+
+	return new Blob([new Uint8Array(Buffer.concat(parts))]);
+}
+
+async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+	return new Response(stream).text();
+}
+
+const FILES: TestFile[] = [
+	{ path: 'Takeout/', content: '' },
+	{ path: 'Takeout/YouTube and YouTube Music/comments/comments.csv', content: 'Comment ID,Comment text\r\nUgz1,"hi"\r\n', deflate: true },
+	{ path: 'Takeout/archive_browser.html', content: '<html></html>' }
+];
+
+describe('listZipEntries', () => {
+	it('reads the central directory of a regular archive and leaves out directories', async () => {
+		const entries = await listZipEntries(buildZip(FILES, { comment: 'Google Takeout' }));
+		expect(entries.map(entry => [entry.path, entry.method])).toEqual([
+			['Takeout/YouTube and YouTube Music/comments/comments.csv', 8],
+			['Takeout/archive_browser.html', 0]
+		]);
+	});
+
+	it('reads entry count, sizes and offsets from the ZIP64 records', async () => {
+		const regular = await listZipEntries(buildZip(FILES));
+		const zip64 = await listZipEntries(buildZip(FILES, { zip64: true, comment: 'Google Takeout' }));
+		expect(zip64).toEqual(regular);
+		expect(zip64[1]).toMatchObject({ compressedSize: 13, uncompressedSize: 13 });
+	});
+
+	it('rejects a ZIP64 locator that points to something else', async () => {
+		const archive = Buffer.from(await buildZip(FILES, { zip64: true }).arrayBuffer());
+		// The locator is 20 bytes before the end of central directory record
+		archive.writeBigUInt64LE(0n, archive.length - 22 - 20 + 8);
+		await expect(listZipEntries(new Blob([archive]))).rejects.toThrow('Corrupt ZIP64 archive.');
+	});
+
+	it('rejects files without an end of central directory record', async () => {
+		await expect(listZipEntries(new Blob(['not a zip file at all']))).rejects.toThrow('Not a valid ZIP archive.');
+	});
+});
+
+describe('openZipEntry', () => {
+	it('streams stored and deflated entries of a ZIP64 archive', async () => {
+		const archive = buildZip(FILES, { zip64: true });
+		const [csv, html] = await listZipEntries(archive);
+
+		let read = 0;
+		expect(await readText(await openZipEntry(archive, csv, bytes => (read += bytes)))).toBe(FILES[1].content);
+		expect(read).toBe(csv.compressedSize);
+		expect(await readText(await openZipEntry(archive, html))).toBe(FILES[2].content);
+	});
+
+	it('refuses encrypted entries', async () => {
+		const [entry] = await listZipEntries(buildZip(FILES));
+		await expect(openZipEntry(buildZip(FILES), { ...entry, encrypted: true })).rejects.toThrow('is encrypted');
+	});
+});
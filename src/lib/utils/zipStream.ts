@@ -0,0 +1,169 @@
+/**
+ * Streaming ZIP reader.
+ * Reads the central directory from the end of the archive and streams single entries
+ * through DecompressionStream, so a multi-GB takeout is never loaded into memory at once.
+ * Supports ZIP64, which Google uses for takeout archives over 4 GB.
+ */
+
+export interface ZipEntry {
+	path: string;
+	method: number; // 0 = stored, 8 = deflate
+	encrypted: boolean;
+	compressedSize: number;
+	uncompressedSize: number;
+	localHeaderOffset: number;
+}
+
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_END_OF_DIRECTORY_SIGNATURE = 0x06064b50;
+const DIRECTORY_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// The end of central directory record is 22 bytes plus a comment of up to 64 KB
+const END_OF_DIRECTORY_SIZE = 22;
+const MAX_END_OF_DIRECTORY_SEARCH = END_OF_DIRECTORY_SIZE + 0xffff;
+
+async function readBytes(file: Blob, start: number, end: number): Promise<DataView> {
+	return new DataView(await file.slice(start, end).arrayBuffer());
+}
+
+// 64-bit little endian value (sizes and offsets stay far below 2^53)
+function getUint64(view: DataView, offset: number): number {
+	return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+/**
+ * List the files in a ZIP archive (directories are left out)
+ */
+export async function listZipEntries(file: Blob): Promise<ZipEntry[]> {
+	const tailStart = Math.max(0, file.size - MAX_END_OF_DIRECTORY_SEARCH);
+	const tail = await readBytes(file, tailStart, file.size);
+
+	let end = -1;
+	for (let i = tail.byteLength - END_OF_DIRECTORY_SIZE; i >= 0; i--) {
+		if (tail.getUint32(i, true) === END_OF_DIRECTORY_SIGNATURE) {
+			end = i;
+			break;
+		}
+	}
+	if (end < 0) {
+		throw new Error('Not a valid ZIP archive.');
+	}
+
+	let entryCount = tail.getUint16(end + 10, true);
+	let directorySize = tail.getUint32(end + 12, true);
+	let directoryOffset = tail.getUint32(end + 16, true);
+
+	// ZIP64 archives keep the real values in a separate record, found through the locator
+	if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+		const locatorOffset = tailStart + end - 20;
+		const locator = locatorOffset >= 0 ? await readBytes(file, locatorOffset, locatorOffset + 20) : null;
+		if (locator && locator.getUint32(0, true) === ZIP64_LOCATOR_SIGNATURE) {
+			const recordOffset = getUint64(locator, 8);
+			const record = await readBytes(file, recordOffset, recordOffset + 56);
+			if (record.getUint32(0, true) !== ZIP64_END_OF_DIRECTORY_SIGNATURE) {
+				throw new Error('Corrupt ZIP64 archive.');
+			}
+			entryCount = getUint64(record, 32);
+			directorySize = getUint64(record, 40);
+			directoryOffset = getUint64(record, 48);
+		}
+	}
+
+	const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+	const decoder = new TextDecoder();
+	const entries: ZipEntry[] = [];
+	let pos = 0;
+
+	for (let i = 0; i < entryCount && pos + 46 <= directory.byteLength; i++) {
+		if (directory.getUint32(pos, true) !== DIRECTORY_HEADER_SIGNATURE) {
+			throw new Error('Corrupt ZIP archive (invalid central directory).');
+		}
+
+		const flags = directory.getUint16(pos + 8, true);
+		const method = directory.getUint16(pos + 10, true);
+		let compressedSize = directory.getUint32(pos + 20, true);
+		let uncompressedSize = directory.getUint32(pos + 24, true);
+		const nameLength = directory.getUint16(pos + 28, true);
+		const extraLength = directory.getUint16(pos + 30, true);
+		const commentLength = directory.getUint16(pos + 32, true);
+		let localHeaderOffset = directory.getUint32(pos + 42, true);
+		const path = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + pos + 46, nameLength));
+
+		// ZIP64 extra field: 64-bit values for the fields set to 0xffffffff, in this order
+		let extraPos = pos + 46 + nameLength;
+		const extraEnd = extraPos + extraLength;
+		while (extraPos + 4 <= extraEnd) {
+			const fieldId = directory.getUint16(extraPos, true);
+			const fieldSize = directory.getUint16(extraPos + 2, true);
+			if (fieldId === 0x0001) {
+				let valuePos = extraPos + 4;
+				if (uncompressedSize === 0xffffffff) {
+					uncompressedSize = getUint64(directory, valuePos);
+					valuePos += 8;
+				}
+				if (compressedSize === 0xffffffff) {
+					compressedSize = getUint64(directory, valuePos);
+					valuePos += 8;
+				}
+				if (localHeaderOffset === 0xffffffff) {
+					localHeaderOffset = getUint64(directory, valuePos);
+				}
+			}
+			extraPos += 4 + fieldSize;
+		}
+
+		if (!path.endsWith('/')) {
+			entries.push({
+				path,
+				method,
+				encrypted: (flags & 0x1) !== 0,
+				compressedSize,
+				uncompressedSize,
+				localHeaderOffset
+			});
+		}
+
+		pos += 46 + nameLength + extraLength + commentLength;
+	}
+
+	return entries;
+}
+
+/**
+ * Stream the decompressed content of a ZIP entry
+ * onRead is called with the number of compressed bytes as they are read
+ */
+export async function openZipEntry(
+	file: Blob,
+	entry: ZipEntry,
+	onRead?: (bytes: number) => void
+): Promise<ReadableStream<Uint8Array<ArrayBuffer>>> {
+	if (entry.encrypted) {
+		throw new Error(`${entry.path} is encrypted.`);
+	}
+	if (entry.method !== 0 && entry.method !== 8) {
+		throw new Error(`${entry.path} uses an unsupported compression method (${entry.method}).`);
+	}
+
+	const header = await readBytes(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+	if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+		throw new Error(`Corrupt ZIP archive (invalid entry header for ${entry.path}).`);
+	}
+
+	// The local header has its own name and extra field lengths
+	const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+	let stream: ReadableStream<Uint8Array<ArrayBuffer>> = file.slice(dataStart, dataStart + entry.compressedSize).stream();
+
+	if (onRead) {
+		stream = stream.pipeThrough(new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+			transform(chunk, controller) {
+				onRead(chunk.byteLength);
+				controller.enqueue(chunk);
+			}
+		}));
+	}
+
+	return entry.method === 8 ? stream.pipeThrough(new DecompressionStream('deflate-raw')) : stream;
+}
@@ -0,0 +1,318 @@
+/**
+ * Takeout import worker.
+ * Streams comment files out of takeout archives (ZIP or .tgz, also split into numbered
+ * parts) or plain CSV/JSON files, parses CSV rows as they arrive and writes them to
+ * IndexedDB in batches, so the page stays responsive with multi-GB exports.
+ * Comments that are already stored are never overwritten.
+ * On cancel or failure every comment written by this import is removed again.
+ */
+
+import { saveComments, deleteComments, getStoredCommentIds } from '$lib/services/storage';
+import {
+	createTakeoutCSVParser,
+	createTakeoutDiagnostics,
+	parseTakeoutFile,
+	isCommentsFile,
+	getTakeoutArchiveKind,
+	getTakeoutExportName,
+	type TakeoutArchiveKind
+} from '$lib/services/takeout';
+import { listZipEntries, openZipEntry, type ZipEntry } from '$lib/utils/zipStream';
+import { readTarEntries } from '$lib/utils/tarStream';
+import type { YouTubeComment } from '$lib/types/comment';
+import type {
+	TakeoutColumnMapping,
+	TakeoutColumnMappingRequest,
+	TakeoutFileSummary,
+	TakeoutHTMLFile,
+	TakeoutImportMessage,
+	TakeoutImportRequest
+} from '$lib/types/takeout';
+
+const BATCH_SIZE = 500;
+const PROGRESS_INTERVAL_MS = 100;
+
+// A picked file, with the comment entries of a ZIP listed up front
+interface PickedFile {
+	file: File;
+	name: string;
+	kind: TakeoutArchiveKind | null;
+	zipEntries: ZipEntry[];
+}
+
+// A comment file to read, from an archive or picked directly
+interface CommentFile {
+	name: string;
+	inArchive: boolean;
+	open(): Promise<ReadableStream<Uint8Array<ArrayBuffer>>>;
+}
+
+class ImportCancelledError extends Error {
+	constructor() {
+		super('Import cancelled');
+		this.name = 'ImportCancelledError';
+	}
+}
+
+let cancelRequested = false;
+// Waiting for the page to answer a mapping request
+let pendingMapping: { resolve(columns: TakeoutColumnMapping): void; reject(e: Error): void } | null = null;
+
+function post(message: TakeoutImportMessage): void {
+	self.postMessage(message);
+}
+
+// Ask the page which columns to use for a CSV with unrecognized headers
+function requestMapping(request: TakeoutColumnMappingRequest): Promise<TakeoutColumnMapping> {
+	return new Promise((resolve, reject) => {
+		pendingMapping = { resolve, reject };
+		post({ type: 'mapping', request });
+	});
+}
+
+// Count the bytes of a file as they are read
+function countBytes(stream: ReadableStream<Uint8Array<ArrayBuffer>>, onRead: (bytes: number) => void): ReadableStream<Uint8Array<ArrayBuffer>> {
+	return stream.pipeThrough(new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+		transform(chunk, controller) {
+			onRead(chunk.byteLength);
+			controller.enqueue(chunk);
+		}
+	}));
+}
+
+async function pickFiles(files: File[], paths: string[]): Promise<PickedFile[]> {
+	const picked: PickedFile[] = [];
+	for (const [i, file] of files.entries()) {
+		const kind = getTakeoutArchiveKind(file.name);
+		const zipEntries = kind === 'zip'
+			? (await listZipEntries(file)).filter(entry => isCommentsFile(entry.path) && !entry.encrypted)
+			: [];
+		picked.push({ file, name: paths[i] ?? file.name, kind, zipEntries });
+	}
+	return picked;
+}
+
+// Bytes that will be read: the comment entries of a ZIP, a .tgz has to be read completely
+function getReadSize(picked: PickedFile): number {
+	if (picked.kind === 'zip') {
+		return picked.zipEntries.reduce((sum, entry) => sum + entry.compressedSize, 0);
+	}
+	return picked.file.size;
+}
+
+/**
+ * The comment files in a picked file, in the order they can be read
+ * Entries of a .tgz are only readable until the next one is requested.
+ */
+async function* getCommentFiles(picked: PickedFile, onRead: (bytes: number) => void): AsyncGenerator<CommentFile> {
+	const { file, name, kind } = picked;
+
+	if (kind === 'zip') {
+		for (const entry of picked.zipEntries) {
+			yield { name: entry.path, inArchive: true, open: () => openZipEntry(file, entry, onRead) };
+		}
+	} else if (kind === 'tgz') {
+		const tar = countBytes(file.stream(), onRead).pipeThrough(new DecompressionStream('gzip'));
+		for await (const entry of readTarEntries(tar)) {
+			if (isCommentsFile(entry.path)) {
+				yield { name: entry.path, inArchive: true, open: async () => entry.open() };
+			}
+		}
+	} else {
+		yield { name, inArchive: false, open: async () => countBytes(file.stream(), onRead) };
+	}
+}
+
+function getNoCommentsMessage(exportName: string, parts: string[]): string {
+	if (parts.length === 1 && parts[0] === exportName) {
+		return 'No comment files found in the archive. Make sure you are uploading a Google Takeout export that includes YouTube comments.';
+	}
+	return `No comment files found in ${parts.join(', ')}. Takeout splits large exports into numbered parts - make sure you add the part that contains your YouTube comments.`;
+}
+
+async function runImport(files: File[], paths: string[]): Promise<void> {
+	const seenIds = new Set<string>();
+	const createdIds: string[] = [];
+	const fileSummaries: TakeoutFileSummary[] = [];
+	const htmlFiles: TakeoutHTMLFile[] = [];
+	let pending: YouTubeComment[] = [];
+	let loadedBytes = 0;
+	let lastProgress = 0;
+
+	const pickedFiles = await pickFiles(files, paths);
+	const totalBytes = pickedFiles.reduce((sum, picked) => sum + getReadSize(picked), 0);
+	// Comment files found per export, counting all numbered parts of a split export together
+	const exports = new Map<string, { parts: string[]; commentFiles: number }>();
+
+	const reportProgress = (force = false) => {
+		const now = Date.now();
+		if (!force && now - lastProgress < PROGRESS_INTERVAL_MS) return;
+		lastProgress = now;
+		post({ type: 'progress', loadedBytes, totalBytes, comments: seenIds.size });
+	};
+
+	// Called for every chunk read from disk - also while skipping the rest of a .tgz
+	const onRead = (bytes: number) => {
+		if (cancelRequested) throw new ImportCancelledError();
+		loadedBytes += bytes;
+		reportProgress();
+	};
+
+	// Write the pending batch, leaving comments that are already stored untouched
+	const flush = async () => {
+		if (pending.length === 0) return;
+		const batch = pending;
+		pending = [];
+		const stored = await getStoredCommentIds(batch.map(c => c.id));
+		const fresh = batch.filter(c => !stored.has(c.id));
+		if (fresh.length > 0) {
+			await saveComments(fresh);
+			createdIds.push(...fresh.map(c => c.id));
+		}
+	};
+
+	// Add unique comments (deduplicate by ID), counting them for the file they came from
+	const addComments = async (comments: YouTubeComment[], summary: TakeoutFileSummary) => {
+		for (const comment of comments) {
+			if (seenIds.has(comment.id)) continue;
+			seenIds.add(comment.id);
+			pending.push(comment);
+			summary.comments++;
+		}
+		if (pending.length >= BATCH_SIZE) {
+			await flush();
+		}
+	};
+
+	// Decoded text chunks of a comment file, checking for cancellation between chunks
+	async function* readText(commentFile: CommentFile): AsyncGenerator<string> {
+		const stream = (await commentFile.open()).pipeThrough(new TextDecoderStream());
+		const reader = stream.getReader();
+		try {
+			while (true) {
+				if (cancelRequested) throw new ImportCancelledError();
+				const { done, value } = await reader.read();
+				if (done) return;
+				yield value;
+			}
+		} finally {
+			reader.cancel().catch(() => {});
+		}
+	}
+
+	const importCommentFile = async (commentFile: CommentFile) => {
+		const lowerName = commentFile.name.toLowerCase();
+		if (lowerName.endsWith('.csv')) {
+			const parser = createTakeoutCSVParser(commentFile.name, { askForMapping: true });
+			const summary: TakeoutFileSummary = { name: commentFile.name, comments: 0, diagnostics: parser.diagnostics };
+			fileSummaries.push(summary);
+			// The parser holds its rows back until the page picked the columns
+			const resolveMapping = async () => {
+				if (parser.mappingRequest) {
+					await addComments(parser.setColumns(await requestMapping(parser.mappingRequest)), summary);
+				}
+			};
+			for await (const chunk of readText(commentFile)) {
+				await addComments(parser.push(chunk), summary);
+				await resolveMapping();
+			}
+			await addComments(parser.end(), summary);
+			await resolveMapping();
+			return;
+		}
+
+		// JSON and HTML exports can't be parsed incrementally
+		let content = '';
+		for await (const chunk of readText(commentFile)) {
+			content += chunk;
+		}
+		const trimmed = content.trimStart();
+		const isHTML = lowerName.endsWith('.html') || lowerName.endsWith('.htm') ||
+			(!lowerName.endsWith('.json') && trimmed.startsWith('<'));
+		if (isHTML) {
+			htmlFiles.push({ name: commentFile.name, content });
+		} else {
+			const { comments, diagnostics } = parseTakeoutFile(content, commentFile.name);
+			const summary: TakeoutFileSummary = { name: commentFile.name, comments: 0, diagnostics };
+			fileSummaries.push(summary);
+			await addComments(comments, summary);
+		}
+	};
+
+	try {
+		for (const picked of pickedFiles) {
+			const exportName = picked.kind ? getTakeoutExportName(picked.file.name) : null;
+			const exportInfo = exportName ? exports.get(exportName) ?? { parts: [], commentFiles: 0 } : null;
+			if (exportName && exportInfo) {
+				exportInfo.parts.push(picked.file.name);
+				exports.set(exportName, exportInfo);
+			}
+
+			for await (const commentFile of getCommentFiles(picked, onRead)) {
+				if (exportInfo) exportInfo.commentFiles++;
+				try {
+					await importCommentFile(commentFile);
+				} catch (e) {
+					// A broken file inside an archive is skipped, like before, and shows up in the report
+					if (e instanceof ImportCancelledError || !commentFile.inArchive) throw e;
+					console.warn(`Failed to parse ${commentFile.name}:`, e);
+					const message = e instanceof Error ? e.message : String(e);
+					// A CSV file that broke off halfway already has its summary
+					const summary = fileSummaries.find(f => f.name === commentFile.name);
+					if (summary) {
+						summary.diagnostics.error = message;
+					} else {
+						const lowerName = commentFile.name.toLowerCase();
+						const format = lowerName.endsWith('.json') ? 'json' : /\.html?$/.test(lowerName) ? 'html' : 'csv';
+						const diagnostics = createTakeoutDiagnostics(commentFile.name, format);
+						diagnostics.error = message;
+						fileSummaries.push({ name: commentFile.name, comments: 0, diagnostics });
+					}
+				}
+			}
+		}
+
+		if (cancelRequested) throw new ImportCancelledError();
+
+		// The comments of a split export only need to be in one of its parts
+		for (const [exportName, { parts, commentFiles }] of exports) {
+			if (commentFiles === 0) {
+				throw new Error(getNoCommentsMessage(exportName, parts));
+			}
+		}
+
+		await flush();
+		reportProgress(true);
+		post({ type: 'done', commentIds: [...seenIds], added: createdIds.length, files: fileSummaries, htmlFiles });
+	} catch (e) {
+		// Leave no partial import behind
+		for (let i = 0; i < createdIds.length; i += BATCH_SIZE) {
+			await deleteComments(createdIds.slice(i, i + BATCH_SIZE));
+		}
+		throw e;
+	}
+}
+
+self.onmessage = (event: MessageEvent<TakeoutImportRequest>) => {
+	const request = event.data;
+	if (request.type === 'cancel') {
+		cancelRequested = true;
+		pendingMapping?.reject(new ImportCancelledError());
+		pendingMapping = null;
+		return;
+	}
+	if (request.type === 'mapping') {
+		pendingMapping?.resolve(request.columns);
+		pendingMapping = null;
+		return;
+	}
+
+	cancelRequested = false;
+	runImport(request.files, request.paths).catch((e) => {
+		if (e instanceof ImportCancelledError) {
+			post({ type: 'cancelled' });
+		} else {
+			post({ type: 'error', message: e instanceof Error ? e.message : 'Failed to import takeout' });
+		}
+	});
+};
@@ -0,0 +1,69 @@
+// API endpoint for the admin dashboard (requires ADMIN_TOKEN)
+import { json, type Cookies } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { adminConfig, privacyLogger } from '$lib/server/config';
+import { isAdminRequest } from '$lib/server/adminAuth';
+import { getMonitorSnapshot } from '$lib/server/adminMonitor';
+import { getQuotaStatus, getQuotaDetails, setDailyLimitOverride, killDeletionSession } from '$lib/server/quota';
+
+function checkAccess(request: Request, cookies: Cookies): Response | null {
+	if (!adminConfig.enabled) {
+		return json({ success: false, message: 'Admin dashboard is not enabled' }, { status: 404 });
+	}
+	if (!isAdminRequest(request, cookies)) {
+		return json({ success: false, message: 'Not signed in' }, { status: 401 });
+	}
+	return null;
+}
+
+// GET - Current quota state and its history
+export const GET: RequestHandler = async ({ request, cookies }) => {
+	const denied = checkAccess(request, cookies);
+	if (denied) return denied;
+	
+	return json({
+		success: true,
+		quota: getQuotaStatus(),
+		details: getQuotaDetails(),
+		history: getMonitorSnapshot()
+	});
+};
+
+// POST - Admin actions
+export const POST: RequestHandler = async ({ request, cookies }) => {
+	const denied = checkAccess(request, cookies);
+	if (denied) return denied;
+	
+	try {
+		const body = await request.json();
+		
+		switch (body.action) {
+			case 'set_daily_limit': {
+				const limit = typeof body.limit === 'number' ? Math.floor(body.limit) : 0;
+				if (limit <= 0) {
+					return json({ success: false, message: 'Invalid limit' }, { status: 400 });
+				}
+				setDailyLimitOverride(limit);
+				return json({ success: true, quota: getQuotaStatus() });
+			}
+			
+			case 'reset_daily_limit': {
+				setDailyLimitOverride(null);
+				return json({ success: true, quota: getQuotaStatus() });
+			}
+			
+			case 'end_deletion_session': {
+				if (typeof body.id !== 'string' || !killDeletionSession(body.id)) {
+					return json({ success: false, message: 'Deletion session not found' }, { status: 404 });
+				}
+				return json({ success: true, quota: getQuotaStatus() });
+			}
+			
+			default:
+				return json({ success: false, message: 'Unknown action' }, { status: 400 });
+		}
+	} catch (e) {
+		privacyLogger.error(`Admin action error: ${e instanceof Error ? e.message : 'Unknown error'}`);
+		return json({ success: false, message: 'Invalid request' }, { status: 400 });
+	}
+};
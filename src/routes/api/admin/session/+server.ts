@@ -0,0 +1,43 @@
+// Admin dashboard sign-in with ADMIN_TOKEN
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { adminConfig, privacyLogger } from '$lib/server/config';
+import { createAdminSession, destroyAdminSession, isAdminRequest, verifyAdminToken } from '$lib/server/adminAuth';
+
+// Slows down guessing the token
+const FAILED_SIGN_IN_DELAY_MS = 1000;
+
+// GET - Whether the dashboard is enabled and the request is signed in
+export const GET: RequestHandler = async ({ request, cookies }) => {
+	return json({
+		enabled: adminConfig.enabled,
+		authenticated: isAdminRequest(request, cookies)
+	});
+};
+
+// POST - Sign in
+export const POST: RequestHandler = async ({ request, cookies, url }) => {
+	if (!adminConfig.enabled) {
+		return json({ success: false, message: 'Admin dashboard is not enabled' }, { status: 404 });
+	}
+	
+	try {
+		const body = await request.json();
+		if (typeof body.token !== 'string' || !verifyAdminToken(body.token)) {
+			privacyLogger.warn('Failed admin sign-in attempt');
+			await new Promise(resolve => setTimeout(resolve, FAILED_SIGN_IN_DELAY_MS));
+			return json({ success: false, message: 'Wrong admin token' }, { status: 401 });
+		}
+		
+		createAdminSession(cookies, url);
+		return json({ success: true });
+	} catch {
+		return json({ success: false, message: 'Invalid request' }, { status: 400 });
+	}
+};
+
+// DELETE - Sign out
+export const DELETE: RequestHandler = async ({ cookies }) => {
+	destroyAdminSession(cookies);
+	return json({ success: true });
+};
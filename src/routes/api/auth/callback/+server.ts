@@ -3,6 +3,9 @@ import { redirect } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { oauthConfig, privacyLogger } from '$lib/server/config';
 import { addQuotaUsage } from '$lib/server/quota';
+import { getSubjectFromIdToken, registerIssuedTokens } from '$lib/server/sessionRegistry';
+import { createSession } from '$lib/server/sessionVault';
+import { recordOAuthCallback } from '$lib/server/metrics';
 
 const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
 
@@ -31,6 +34,7 @@ export const GET: RequestHandler = async ({ url, cookies }) => {
 	if (error) {
 		const errorDesc = url.searchParams.get('error_description') || 'Unknown error';
 		privacyLogger.error(`OAuth error: ${error} - ${errorDesc}`);
+		recordOAuthCallback(false);
 		return redirect(302, `/?auth_error=${encodeURIComponent(error)}`);
 	}
 	
@@ -40,6 +44,7 @@ export const GET: RequestHandler = async ({ url, cookies }) => {
 	
 	if (!code || !state) {
 		privacyLogger.error('OAuth callback missing code or state');
+		recordOAuthCallback(false);
 		return redirect(302, '/?auth_error=missing_params');
 	}
 	
@@ -47,6 +52,7 @@ export const GET: RequestHandler = async ({ url, cookies }) => {
 	const storedState = cookies.get('oauth_state');
 	if (!storedState || storedState !== state) {
 		privacyLogger.error('OAuth state mismatch - possible CSRF attack');
+		recordOAuthCallback(false);
 		return redirect(302, '/?auth_error=invalid_state');
 	}
 	
@@ -54,6 +60,7 @@ export const GET: RequestHandler = async ({ url, cookies }) => {
 	const codeVerifier = cookies.get('oauth_code_verifier');
 	if (!codeVerifier) {
 		privacyLogger.error('OAuth callback missing code verifier - PKCE validation failed');
+		recordOAuthCallback(false);
 		return redirect(302, '/?auth_error=missing_code_verifier');
 	}
 	
@@ -81,6 +88,7 @@ export const GET: RequestHandler = async ({ url, cookies }) => {
 		if (!tokenResponse.ok) {
 			const errorData = await tokenResponse.json() as TokenError;
 			privacyLogger.error(`Token exchange failed: ${errorData.error}`);
+			recordOAuthCallback(false);
 			return redirect(302, `/?auth_error=${encodeURIComponent(errorData.error)}`);
 		}
 		
@@ -88,31 +96,28 @@ export const GET: RequestHandler = async ({ url, cookies }) => {
 		
 		privacyLogger.info('OAuth token exchange successful');
 		
-		const isSecure = url.protocol === 'https:';
+		// Remember what was issued to this Google account so RISC events can revoke it
+		const subject = getSubjectFromIdToken(tokens.id_token);
+		if (subject) {
+			registerIssuedTokens(subject, {
+				accessToken: tokens.access_token,
+				expiresIn: tokens.expires_in,
+				refreshToken: tokens.refresh_token
+			});
+		} else {
+			privacyLogger.warn('Token response without ID token - RISC events cannot be matched to this session');
+		}
 		
-		// Store the access token in an HTTP-only cookie for security
-		// The client will use this cookie when making API requests
-		// This prevents XSS attacks from accessing the token
-		cookies.set('youtube_access_token', tokens.access_token, {
-			path: '/',
-			httpOnly: true,
-			secure: isSecure,
-			sameSite: 'lax',
-			maxAge: tokens.expires_in // Expire with the token
-		});
+		const isSecure = url.protocol === 'https:';
 		
-		// Store the refresh token if provided (longer-lived, used for silent re-auth)
+		// Keep the tokens in the encrypted session vault, the browser only gets an opaque session ID
 		// Google only provides refresh_token on first authorization or when prompt=consent
+		createSession(cookies, url, {
+			accessToken: tokens.access_token,
+			expiresIn: tokens.expires_in,
+			refreshToken: tokens.refresh_token
+		});
 		if (tokens.refresh_token) {
-			// Store refresh token with a longer expiry (30 days)
-			// This allows users to stay logged in even after access token expires
-			cookies.set('youtube_refresh_token', tokens.refresh_token, {
-				path: '/',
-				httpOnly: true,
-				secure: isSecure,
-				sameSite: 'lax',
-				maxAge: 30 * 24 * 60 * 60 // 30 days
-			});
 			privacyLogger.info('Refresh token stored for automatic re-authentication');
 		}
 		
@@ -127,10 +132,12 @@ export const GET: RequestHandler = async ({ url, cookies }) => {
 			maxAge: authStatusExpiry
 		});
 		
+		recordOAuthCallback(true);
 		return redirect(302, '/?auth_success=true');
 	} catch (e) {
 		const errorMessage = e instanceof Error ? e.message : 'Unknown error';
 		privacyLogger.error(`Token exchange exception: ${errorMessage}`);
+		recordOAuthCallback(false);
 		return redirect(302, '/?auth_error=token_exchange_failed');
 	}
 };
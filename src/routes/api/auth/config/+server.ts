@@ -1,7 +1,7 @@
 // API endpoint to check if Google Login mode is configured
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { oauthConfig, legalConfig, dataRetentionConfig, impressumConfig } from '$lib/server/config';
+import { oauthConfig, legalConfig, dataRetentionConfig, impressumConfig, deletionJobConfig } from '$lib/server/config';
 
 export const GET: RequestHandler = async () => {
 	return json({
@@ -16,6 +16,8 @@ export const GET: RequestHandler = async () => {
 		enableImpressum: impressumConfig.enabled,
 		// Data retention settings (configurable via docker env)
 		localDataRetentionDays: dataRetentionConfig.retentionDays,
-		staleDataWarningDays: dataRetentionConfig.staleWarningDays
+		staleDataWarningDays: dataRetentionConfig.staleWarningDays,
+		// Opt-in server-side deletion jobs (developer OAuth mode)
+		serverDeletionJobsEnabled: deletionJobConfig.enabled
 	});
 };
@@ -3,6 +3,7 @@ import { redirect } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { oauthConfig, privacyLogger, simulationConfig } from '$lib/server/config';
 import { SIMULATED_ACCESS_TOKEN, simulateNetworkDelay } from '$lib/server/simulation';
+import { createSession } from '$lib/server/sessionVault';
 
 const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
 
@@ -48,23 +49,13 @@ export const GET: RequestHandler = async ({ url, cookies }) => {
 		// Simulate network delay
 		await simulateNetworkDelay();
 		
-		// Set the simulated token directly
+		// Store the simulated tokens directly
+		// The simulated refresh token is there for testing logout options
 		const isSecure = url.protocol === 'https:';
-		cookies.set('youtube_access_token', SIMULATED_ACCESS_TOKEN, {
-			path: '/',
-			httpOnly: true,
-			secure: isSecure,
-			sameSite: 'lax',
-			maxAge: 3600
-		});
-		
-		// Set a simulated refresh token (for testing logout options)
-		cookies.set('youtube_refresh_token', 'sim_refresh_token_for_testing', {
-			path: '/',
-			httpOnly: true,
-			secure: isSecure,
-			sameSite: 'lax',
-			maxAge: 30 * 24 * 60 * 60 // 30 days
+		createSession(cookies, url, {
+			accessToken: SIMULATED_ACCESS_TOKEN,
+			expiresIn: 3600,
+			refreshToken: 'sim_refresh_token_for_testing'
 		});
 		
 		cookies.set('youtube_auth_status', 'connected', {
@@ -2,6 +2,7 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { privacyLogger } from '$lib/server/config';
+import { clearAccessToken, destroySession } from '$lib/server/sessionVault';
 
 type LogoutMode = 'full' | 'soft';
 
@@ -28,13 +29,13 @@ export const POST: RequestHandler = async ({ cookies, request }) => {
 		// Keep refresh token so user can quickly re-login
 		privacyLogger.info('User performing soft logout (keeping refresh token)');
 		
-		// Clear only the access token cookie
-		cookies.delete('youtube_access_token', { path: '/' });
+		// Clear only the access token from the session
+		clearAccessToken(cookies);
 		
 		// Update auth status to indicate logged out but can re-login quickly
 		cookies.delete('youtube_auth_status', { path: '/' });
 		
-		// Keep the refresh token cookie
+		// Keep the session with its refresh token
 		
 		return json({ 
 			success: true,
@@ -45,11 +46,8 @@ export const POST: RequestHandler = async ({ cookies, request }) => {
 		// Full logout: Clear all auth cookies including refresh token
 		privacyLogger.info('User performing full logout (clearing all auth data)');
 		
-		// Clear the access token cookie
-		cookies.delete('youtube_access_token', { path: '/' });
-		
-		// Clear the refresh token cookie
-		cookies.delete('youtube_refresh_token', { path: '/' });
+		// Delete the session including both tokens
+		destroySession(cookies);
 		
 		// Clear the auth status cookie
 		cookies.delete('youtube_auth_status', { path: '/' });
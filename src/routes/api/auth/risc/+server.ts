@@ -20,6 +20,8 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { oauthConfig, privacyLogger } from '$lib/server/config';
+import { revokeSubject, revokeByTokenIdentifier, type RevocationReason } from '$lib/server/sessionRegistry';
+import { recordRiscEvent } from '$lib/server/adminMonitor';
 
 // Configuration constants
 const GOOGLE_ISSUER = 'https://accounts.google.com';
@@ -47,6 +49,10 @@ interface SETClaims {
 				subject_type: string;
 				sub?: string;           // Google user ID
 				email?: string;         // User email (if available)
+				// Revoked refresh token (subject_type 'oauth_token')
+				token_type?: string;
+				token_identifier_alg?: string;
+				token?: string;
 			};
 			reason?: string;
 			initiated_by?: string;
@@ -244,36 +250,41 @@ function parseJWT(token: string): { header: JWTHeader; claims: SETClaims } | nul
 }
 
 /**
- * Handle token revocation event
- * When a user revokes access to our app, we should invalidate any sessions
+ * Handle token/session revocation events
+ * Revokes the cookies, quota sessions and deletion jobs issued to the account
  */
-function handleTokenRevocation(claims: SETClaims, eventData: SETClaims['events'][string]): void {
+function handleTokenRevocation(claims: SETClaims, eventData: SETClaims['events'][string], reason: RevocationReason): void {
 	const subject = eventData.subject;
+
+	// token-revoked identifies the refresh token instead of the user
+	if (subject?.subject_type === 'oauth_token' && subject.token && subject.token_identifier_alg) {
+		const result = revokeByTokenIdentifier(subject.token_identifier_alg, subject.token, reason);
+		if (!result) {
+			privacyLogger.info('Token revocation processed - token was not issued by this server or already expired');
+		}
+		return;
+	}
+
 	const googleUserId = subject?.sub || claims.sub;
-	
-	privacyLogger.info(`Processing token revocation for user: ${googleUserId ? '[USER_ID]' : 'unknown'}`);
-	
-	// In a production app with server-side sessions, you would:
-	// 1. Look up any active sessions for this Google user ID
-	// 2. Invalidate/delete those sessions
-	// 3. Clear any cached tokens
-	
-	// For CommentSlash, tokens are stored in HTTP-only cookies client-side
-	// The user's session will naturally expire when the token expires
-	// or they can manually log out
-	
-	// Log the event for audit purposes (with PII redacted)
-	privacyLogger.info('Token revocation processed - user sessions will be invalidated on next request');
+	if (!googleUserId) {
+		privacyLogger.warn('Token revocation event without subject - nothing to revoke');
+		return;
+	}
+	revokeSubject(googleUserId, reason);
 }
 
 /**
  * Handle account disabled/purged events
  */
-function handleAccountEvent(claims: SETClaims, eventType: string): void {
-	privacyLogger.info(`Account event received: ${eventType} for subject: [REDACTED]`);
-	
-	// Similar to token revocation - invalidate any sessions for this user
-	// In production, this might also trigger data deletion workflows
+function handleAccountEvent(claims: SETClaims, eventData: SETClaims['events'][string], reason: RevocationReason): void {
+	privacyLogger.info(`Account event received: ${reason} for subject: [REDACTED]`);
+
+	const googleUserId = eventData.subject?.sub || claims.sub;
+	if (!googleUserId) {
+		privacyLogger.warn('Account event without subject - nothing to revoke');
+		return;
+	}
+	revokeSubject(googleUserId, reason);
 }
 
 /**
@@ -342,23 +353,30 @@ export const POST: RequestHandler = async ({ request }) => {
 		// Process each event in the SET
 		for (const [eventUri, eventData] of Object.entries(claims.events)) {
 			privacyLogger.info(`Processing RISC event: ${eventUri}`);
+			recordRiscEvent(eventUri);
 
 			switch (eventUri) {
 				case RISC_EVENTS.TOKEN_REVOKED:
 				case RISC_EVENTS.TOKENS_REVOKED:
-					handleTokenRevocation(claims, eventData);
+					handleTokenRevocation(claims, eventData, 'token_revoked');
 					break;
 
 				case RISC_EVENTS.ACCOUNT_DISABLED:
+					handleAccountEvent(claims, eventData, 'account_disabled');
+					break;
+
 				case RISC_EVENTS.ACCOUNT_PURGED:
-					handleAccountEvent(claims, eventUri);
+					handleAccountEvent(claims, eventData, 'account_purged');
 					break;
 
-				case RISC_EVENTS.CREDENTIAL_CHANGE:
 				case RISC_EVENTS.SESSIONS_REVOKED:
-					// These events indicate the user should re-authenticate
+					handleTokenRevocation(claims, eventData, 'sessions_revoked');
+					break;
+
+				case RISC_EVENTS.CREDENTIAL_CHANGE:
+					// The user should re-authenticate
 					privacyLogger.info(`Credential/session event: ${eventUri}`);
-					handleTokenRevocation(claims, eventData);
+					handleTokenRevocation(claims, eventData, 'credential_change');
 					break;
 
 				case RISC_EVENTS.ACCOUNT_ENABLED:
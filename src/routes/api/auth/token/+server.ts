@@ -1,10 +1,13 @@
-// API endpoint to securely retrieve the OAuth token from HTTP-only cookie
+// API endpoint to check the OAuth session in the session vault
+// Only status and expiry are returned - the tokens never leave the server, API calls go through
+// the /api/youtube proxy and expired access tokens are renewed via /api/auth/refresh
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { oauthConfig, privacyLogger, simulationConfig } from '$lib/server/config';
 import { isSimulatedToken } from '$lib/server/simulation';
+import { getSession, getValidAccessToken, clearAccessToken } from '$lib/server/sessionVault';
 
-export const GET: RequestHandler = async ({ cookies }) => {
+export const GET: RequestHandler = async ({ cookies, locals }) => {
 	if (!oauthConfig.isConfigured) {
 		return json({ 
 			success: false,
@@ -12,8 +15,18 @@ export const GET: RequestHandler = async ({ cookies }) => {
 		}, { status: 400 });
 	}
 	
-	const token = cookies.get('youtube_access_token');
-	const hasRefreshToken = !!cookies.get('youtube_refresh_token') || simulationConfig.enabled;
+	// Cookies of accounts revoked via RISC were already cleared by the server hook
+	if (locals.sessionRevoked) {
+		return json({
+			success: false,
+			message: 'Session was revoked - please sign in again',
+			canRefresh: false
+		}, { status: 401 });
+	}
+	
+	const session = getSession(cookies);
+	const token = getValidAccessToken(session);
+	const hasRefreshToken = !!session?.refreshToken || simulationConfig.enabled;
 	
 	if (!token) {
 		// No access token, but check if we have a refresh token
@@ -32,23 +45,19 @@ export const GET: RequestHandler = async ({ cookies }) => {
 		}, { status: 401 });
 	}
 	
-	// Log differently for simulation mode
-	if (simulationConfig.enabled && isSimulatedToken(token)) {
-		privacyLogger.info('[SIMULATION] Simulated token retrieved via secure endpoint');
-	} else {
-		privacyLogger.info('Token retrieved via secure endpoint');
-	}
+	const simulated = simulationConfig.enabled && isSimulatedToken(token);
 	
 	return json({
 		success: true,
-		access_token: token,
-		hasRefreshToken
+		expiresAt: session?.accessTokenExpiresAt,
+		hasRefreshToken,
+		simulated
 	});
 };
 
 // DELETE endpoint to clear the token (logout)
 export const DELETE: RequestHandler = async ({ cookies }) => {
-	cookies.delete('youtube_access_token', { path: '/' });
+	clearAccessToken(cookies);
 	cookies.delete('youtube_auth_status', { path: '/' });
 	
 	if (simulationConfig.enabled) {
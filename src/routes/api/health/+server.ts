@@ -1,11 +1,22 @@
 // Health check endpoint for container orchestration (Docker, Kubernetes, Portainer, etc.)
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
+import { privacyLogger } from '$lib/server/config';
+import { checkDataDirWritable, getAppVersion } from '$lib/server/appInfo';
 
 export const GET: RequestHandler = async () => {
+	// Quota, sessions and jobs are persisted in DATA_DIR - a read-only volume breaks them silently
+	const dataDirError = checkDataDirWritable();
+	if (dataDirError) {
+		privacyLogger.error(`Health check failed, DATA_DIR is not writable: ${dataDirError}`);
+	}
+
 	return json({
-		status: 'healthy',
+		status: dataDirError ? 'unhealthy' : 'healthy',
 		timestamp: new Date().toISOString(),
-		version: '1.0.0'
-	});
+		version: getAppVersion(),
+		checks: {
+			dataDirWritable: !dataDirError
+		}
+	}, { status: dataDirError ? 503 : 200 });
 };
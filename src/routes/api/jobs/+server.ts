@@ -0,0 +1,63 @@
+// API endpoint for server-side deletion jobs (opt-in, developer OAuth mode only)
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { deletionJobConfig, privacyLogger } from '$lib/server/config';
+import { getJobOwner, createDeletionJob, listDeletionJobs } from '$lib/server/deletionJobs';
+
+// GET - List the user's jobs
+export const GET: RequestHandler = async ({ cookies }) => {
+	if (!deletionJobConfig.enabled) {
+		return json({ enabled: false, jobs: [] });
+	}
+	
+	const owner = getJobOwner(cookies);
+	if (!owner) {
+		return json({ enabled: true, jobs: [] });
+	}
+	
+	return json({ enabled: true, jobs: listDeletionJobs(owner.ownerId) });
+};
+
+// POST - Queue a new deletion job
+export const POST: RequestHandler = async ({ request, cookies }) => {
+	if (!deletionJobConfig.enabled) {
+		return json({ 
+			success: false,
+			message: 'Server-side deletion jobs are not enabled'
+		}, { status: 400 });
+	}
+	
+	const owner = getJobOwner(cookies);
+	if (!owner) {
+		return json({ 
+			success: false,
+			message: 'Server-side deletion requires Google Sign-In with offline access - please sign in again',
+			requiresReauth: true
+		}, { status: 401 });
+	}
+	
+	try {
+		const body = await request.json();
+		const commentIds = Array.isArray(body.commentIds)
+			? body.commentIds.filter((id: unknown): id is string => typeof id === 'string' && id.length > 0)
+			: [];
+		
+		if (commentIds.length === 0) {
+			return json({ success: false, message: 'No comments to delete' }, { status: 400 });
+		}
+		if (commentIds.length > deletionJobConfig.maxCommentsPerJob) {
+			return json({ 
+				success: false, 
+				message: `A job can contain at most ${deletionJobConfig.maxCommentsPerJob} comments`
+			}, { status: 400 });
+		}
+		
+		const job = createDeletionJob(owner.ownerId, owner.refreshToken, commentIds);
+		
+		return json({ success: true, job });
+	} catch (e) {
+		const message = e instanceof Error ? e.message : 'Unknown error';
+		privacyLogger.error(`Deletion job creation error: ${message}`);
+		return json({ success: false, message }, { status: 500 });
+	}
+};
@@ -0,0 +1,19 @@
+// API endpoint to cancel a server-side deletion job
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { deletionJobConfig } from '$lib/server/config';
+import { getJobOwner, cancelDeletionJob } from '$lib/server/deletionJobs';
+
+// DELETE - Cancel the job (already deleted comments stay deleted)
+export const DELETE: RequestHandler = async ({ params, cookies }) => {
+	if (!deletionJobConfig.enabled) {
+		return json({ success: false, message: 'Server-side deletion jobs are not enabled' }, { status: 400 });
+	}
+	
+	const owner = getJobOwner(cookies);
+	if (!owner || !cancelDeletionJob(owner.ownerId, params.id)) {
+		return json({ success: false, message: 'Job not found or already finished' }, { status: 404 });
+	}
+	
+	return json({ success: true });
+};
@@ -0,0 +1,20 @@
+// Prometheus metrics endpoint (text exposition format)
+// Protected by METRICS_TOKEN as Bearer token when it is set
+import type { RequestHandler } from './$types';
+import { isMetricsRequestAllowed, renderMetrics } from '$lib/server/metrics';
+
+export const GET: RequestHandler = async ({ request }) => {
+	if (!isMetricsRequestAllowed(request)) {
+		return new Response('Unauthorized\n', {
+			status: 401,
+			headers: { 'WWW-Authenticate': 'Bearer', 'Content-Type': 'text/plain; charset=utf-8' }
+		});
+	}
+
+	return new Response(renderMetrics(), {
+		headers: {
+			'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+			'Cache-Control': 'no-store'
+		}
+	});
+};
@@ -1,6 +1,7 @@
 // API endpoint for quota tracking
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
+import { linkQuotaSession, getQuotaUserKey } from '$lib/server/sessionRegistry';
 import { 
 	getQuotaStatus, 
 	addQuotaUsage, 
@@ -16,10 +17,26 @@ import {
 	reportBatchComplete,
 	endDeletionSession,
 	getDeletionSessionStatus,
+	getUserQuotaStatus,
 	quotaConfig,
 	QUOTA_COSTS
 } from '$lib/server/quota';
 import { oauthConfig, privacyLogger } from '$lib/server/config';
+import { getSession } from '$lib/server/sessionVault';
+
+/**
+ * Refuse usage a client reports for calls the YouTube proxy already charged
+ * Sessions with vaulted tokens can only reach YouTube through /api/youtube, so their reports
+ * would only count the same calls twice (or charge made-up calls to the shared quota)
+ */
+function rejectReportedUsage(action: string): Response {
+	privacyLogger.warn(`Client-reported ${action} rejected: the session's API calls are charged by the proxy`);
+	return json({
+		success: false,
+		message: 'API calls of this session are charged by the server proxy',
+		quota: getQuotaStatus()
+	}, { status: 409 });
+}
 
 // GET - Get current quota status
 export const GET: RequestHandler = async ({ url, cookies }) => {
@@ -45,12 +62,14 @@ export const GET: RequestHandler = async ({ url, cookies }) => {
 	
 	// Register/update user activity
 	registerUser(sessionId);
+	linkQuotaSession(cookies, sessionId);
 	
 	const quotaStatus = getQuotaStatus();
 	
 	return json({
 		googleLoginEnabled: true,
 		quota: quotaStatus,
+		userBudget: getUserQuotaStatus(getQuotaUserKey(cookies) ?? sessionId),
 		config: {
 			reservationChunkSize: quotaConfig.reservationChunkSize,
 			maxParallelDeletions: calculateParallelDeletions(sessionId),
@@ -78,6 +97,10 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 		}, { status: 401 });
 	}
 	
+	// Usage is budgeted per Google account where possible, so several tabs share one budget
+	const userKey = getQuotaUserKey(cookies) ?? sessionId;
+	const usesProxy = !!getSession(cookies);
+	
 	try {
 		const body = await request.json();
 		const action = body.action || 'usage';
@@ -92,12 +115,15 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 					return json({ success: false, message: 'Invalid totalPlanned' }, { status: 400 });
 				}
 				
-				const result = startDeletionSession(sessionId, totalPlanned);
+				const result = startDeletionSession(sessionId, totalPlanned, userKey);
 				
 				if (!result.success) {
 					return json({ 
 						success: false, 
 						message: result.message || 'Cannot start deletion session',
+						queued: result.queued,
+						queuePosition: result.queuePosition,
+						retryAfterMs: result.retryAfterMs,
 						quota: getQuotaStatus()
 					}, { status: 429 });
 				}
@@ -123,6 +149,7 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 					nextBatchSize: result.nextBatchSize,
 					maxParallelDeletions: result.maxParallelDeletions,
 					shouldContinue: result.shouldContinue,
+					retryAfterMs: result.retryAfterMs,
 					message: result.message,
 					quota: getQuotaStatus()
 				});
@@ -177,6 +204,7 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 			}
 			
 			case 'confirm': {
+				if (usesProxy) return rejectReportedUsage(action);
 				// Confirm actual quota usage after operation completes
 				const actualUsed = typeof body.actualUsed === 'number' ? body.actualUsed : 0;
 				
@@ -202,8 +230,38 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 				});
 			}
 			
+			case 'edit': {
+				if (usesProxy) return rejectReportedUsage(action);
+				// Comment edits (comments.update) - reported per call, so counts stay small
+				const count = typeof body.count === 'number' ? Math.floor(body.count) : 0;
+				const MAX_EDITS_PER_REPORT = 50;
+				
+				if (count <= 0 || count > MAX_EDITS_PER_REPORT) {
+					return json({ success: false, message: 'Invalid count' }, { status: 400 });
+				}
+				
+				const cost = count * QUOTA_COSTS.commentsUpdate;
+				
+				if (!hasEnoughQuota(cost)) {
+					privacyLogger.warn(`Quota limit would be exceeded: requested ${cost} for ${count} edit(s)`);
+					return json({ 
+						success: false, 
+						message: 'Quota limit exceeded',
+						quota: getQuotaStatus()
+					}, { status: 429 });
+				}
+				
+				addQuotaUsage(cost, userKey);
+				
+				return json({
+					success: true,
+					quota: getQuotaStatus()
+				});
+			}
+			
 			case 'usage':
 			default: {
+				if (usesProxy) return rejectReportedUsage(action);
 				// Direct quota usage for read operations only (small costs like list operations)
 				// Delete operations MUST go through the deletion session flow
 				const cost = typeof body.cost === 'number' ? body.cost : 0;
@@ -233,7 +291,7 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 					}, { status: 429 });
 				}
 				
-				addQuotaUsage(cost);
+				addQuotaUsage(cost, userKey);
 				
 				return json({
 					success: true,
@@ -0,0 +1,26 @@
+// API endpoint for the quota history (daily totals of the shared quota)
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getQuotaHistory } from '$lib/server/quotaHistory';
+import { oauthConfig, quotaHistoryConfig } from '$lib/server/config';
+
+// GET - Daily quota usage, optionally limited to the last ?days=N days
+export const GET: RequestHandler = async ({ url }) => {
+	// Only tracked when the quota is managed server-side
+	if (!oauthConfig.isConfigured) {
+		return json({
+			googleLoginEnabled: false,
+			message: 'Google Login not configured - quota tracking is client-side only'
+		});
+	}
+	
+	const retentionDays = quotaHistoryConfig.retentionDays;
+	const requested = parseInt(url.searchParams.get('days') || '', 10);
+	const days = isNaN(requested) ? retentionDays : Math.min(Math.max(requested, 1), retentionDays);
+	
+	return json({
+		googleLoginEnabled: true,
+		retentionDays,
+		days: getQuotaHistory(days)
+	});
+};
@@ -0,0 +1,65 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Cookies } from '@sveltejs/kit';
+import type { RequestEvent } from './$types';
+
+// Quota tracking needs Google Login, sessions with vaulted tokens need the vault key
+const dataDir = mkdtempSync(join(tmpdir(), 'quota-api-'));
+process.env.DATA_DIR = dataDir;
+process.env.GOOGLE_CLIENT_ID = 'client-id';
+process.env.GOOGLE_CLIENT_SECRET = 'client-secret';
+process.env.GOOGLE_REDIRECT_URI = 'https://example.com/api/auth/callback';
+process.env.SESSION_ENCRYPTION_KEY = 'test-encryption-key';
+vi.mock('$env/dynamic/private', () => ({ env: process.env }));
+const { POST } = await import('./+server');
+const vault = await import('$lib/server/sessionVault');
+const quota = await import('$lib/server/quota');
+
+const origin = new URL('https://example.com/');
+
+function createCookies(): Cookies {
+	const values = new Map<string, string>([['quota_session', crypto.randomUUID()]]);
+	return {
+		get: (name: string) => values.get(name),
+		set: (name: string, value: string) => void values.set(name, value),
+		delete: (name: string) => void values.delete(name)
+	} as unknown as Cookies;
+}
+
+async function post(cookies: Cookies, body: Record<string, unknown>): Promise<Response> {
+	const url = new URL('/api/quota', origin);
+	return POST({
+		request: new Request(url, { method: 'POST', body: JSON.stringify(body) }),
+		url,
+		cookies,
+		locals: { sessionRevoked: false }
+	} as unknown as RequestEvent);
+}
+
+afterAll(() => {
+	rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('POST /api/quota', () => {
+	it('records usage reported by clients that call YouTube directly', async () => {
+		const usedBefore = quota.getQuotaStatus().used;
+		const response = await post(createCookies(), { action: 'usage', cost: 1 });
+
+		expect(response.status).toBe(200);
+		expect(quota.getQuotaStatus().used).toBe(usedBefore + 1);
+	});
+
+	it('refuses usage reported by sessions whose calls the proxy charges', async () => {
+		const cookies = createCookies();
+		vault.createSession(cookies, origin, { accessToken: 'ya29.valid', expiresIn: 3600, refreshToken: '1//refresh' });
+		const usedBefore = quota.getQuotaStatus().used;
+
+		for (const body of [{ action: 'usage', cost: 1 }, { action: 'edit', count: 1 }, { action: 'confirm', actualUsed: 50 }]) {
+			const response = await post(cookies, body);
+			expect(response.status, body.action).toBe(409);
+		}
+		expect(quota.getQuotaStatus().used).toBe(usedBefore);
+	});
+});
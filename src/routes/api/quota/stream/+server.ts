@@ -1,7 +1,10 @@
 // Server-Sent Events endpoint for real-time quota updates
 import type { RequestHandler } from './$types';
 import { subscribeToQuotaUpdates, getQuotaStatus, registerUser, type QuotaStatusUpdate } from '$lib/server/quota';
-import { oauthConfig } from '$lib/server/config';
+import { oauthConfig, deletionJobConfig } from '$lib/server/config';
+import { getJobOwner, listDeletionJobs, subscribeToJobUpdates } from '$lib/server/deletionJobs';
+import { linkQuotaSession } from '$lib/server/sessionRegistry';
+import type { DeletionJobProgress, DeletionJobSummary } from '$lib/types/deletion';
 
 export const GET: RequestHandler = async ({ cookies }) => {
 	// Only enable SSE if Google Login mode is enabled
@@ -23,9 +26,14 @@ export const GET: RequestHandler = async ({ cookies }) => {
 	
 	// Register user
 	registerUser(sessionId);
+	linkQuotaSession(cookies, sessionId);
+	
+	// Server-side deletion jobs of this user are sent as named "job" and "job-progress" events
+	const jobOwner = deletionJobConfig.enabled ? getJobOwner(cookies) : null;
 	
 	// Track cleanup resources
 	let unsubscribe: (() => void) | null = null;
+	let unsubscribeJobs: (() => void) | null = null;
 	let pingInterval: ReturnType<typeof setInterval> | null = null;
 	
 	// Create a readable stream for SSE
@@ -46,6 +54,19 @@ export const GET: RequestHandler = async ({ cookies }) => {
 				}
 			});
 			
+			if (jobOwner) {
+				const sendEvent = (event: string, payload: DeletionJobSummary | DeletionJobProgress) => {
+					try {
+						controller.enqueue(new TextEncoder().encode(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`));
+					} catch {
+						// Stream closed, cleanup handled by cancel()
+					}
+				};
+				// Full jobs once, then only counters and new results
+				listDeletionJobs(jobOwner.ownerId).forEach(job => sendEvent('job', job));
+				unsubscribeJobs = subscribeToJobUpdates(jobOwner.ownerId, progress => sendEvent('job-progress', progress));
+			}
+			
 			// Send keep-alive ping every 30 seconds
 			pingInterval = setInterval(() => {
 				try {
@@ -65,6 +86,10 @@ export const GET: RequestHandler = async ({ cookies }) => {
 				unsubscribe();
 				unsubscribe = null;
 			}
+			if (unsubscribeJobs) {
+				unsubscribeJobs();
+				unsubscribeJobs = null;
+			}
 		}
 	});
 	
@@ -0,0 +1,117 @@
+// YouTube Data API proxy (developer OAuth mode)
+// Forwards the client's API calls with the vaulted access token and charges the shared quota server-side.
+// The browser never gets the access token, so this is the only way to reach YouTube in this mode, and
+// usage reported by these sessions through /api/quota is refused
+import { json } from '@sveltejs/kit';
+import type { RequestEvent, RequestHandler } from './$types';
+import { oauthConfig, privacyLogger } from '$lib/server/config';
+import { chargeQuota, refundQuota, QUOTA_COSTS } from '$lib/server/quota';
+import { recordEnrichmentCall } from '$lib/server/quotaHistory';
+import { getQuotaUserKey } from '$lib/server/sessionRegistry';
+import { refreshSessionAccessToken } from '$lib/server/sessionRefresh';
+import { getSession, getValidAccessToken } from '$lib/server/sessionVault';
+
+const YOUTUBE_API_BASE = 'https://www.googleapis.com/youtube/v3';
+
+// Proxied API methods and their quota cost, keyed by `${HTTP method} ${resource}`
+const PROXIED_CALLS: Record<string, number> = {
+	'GET comments': QUOTA_COSTS.commentsList,
+	'GET commentThreads': QUOTA_COSTS.commentThreadsList,
+	'GET videos': QUOTA_COSTS.videosList,
+	'GET channels': QUOTA_COSTS.channelsList,
+	'DELETE comments': QUOTA_COSTS.commentsDelete,
+	'PUT comments': QUOTA_COSTS.commentsUpdate
+};
+
+// Lookups used to enrich comments, counted in the quota history
+const ENRICHMENT_CALLS = new Set(['GET comments', 'GET commentThreads', 'GET videos']);
+
+/**
+ * Error response in the YouTube API format, so the client handles it like an API error
+ */
+function apiError(code: number, reason: string, message: string): Response {
+	return json({
+		error: {
+			code,
+			message,
+			errors: [{ message, domain: 'commentslash', reason }]
+		}
+	}, { status: code });
+}
+
+async function proxy({ request, params, url, cookies, locals }: RequestEvent): Promise<Response> {
+	if (!oauthConfig.isConfigured) {
+		return apiError(400, 'badRequest', 'Google Login not configured - call the YouTube API directly');
+	}
+	
+	const cost = PROXIED_CALLS[`${request.method} ${params.path}`];
+	if (cost === undefined) {
+		return apiError(404, 'notFound', `${request.method} ${params.path} is not available through the proxy`);
+	}
+	
+	const session = locals.sessionRevoked ? null : getSession(cookies);
+	if (!session) {
+		return apiError(401, 'authError', 'Invalid Credentials - please sign in again');
+	}
+	
+	let accessToken = getValidAccessToken(session);
+	if (!accessToken) {
+		// The vaulted access token expired - renew it with the session's refresh token and carry on
+		const refreshed = await refreshSessionAccessToken(cookies, url);
+		if (!refreshed.success) {
+			return refreshed.requiresReauth
+				? apiError(401, 'authError', 'Invalid Credentials - please sign in again')
+				: apiError(502, 'backendError', 'Could not renew the access token');
+		}
+		accessToken = refreshed.accessToken;
+	}
+	
+	const userKey = getQuotaUserKey(cookies);
+	if (!userKey) {
+		return apiError(401, 'authError', 'No quota session - please refresh the page');
+	}
+	
+	// Deletes count towards the caller's deletion session, if one is running
+	const deletionSessionId = request.method === 'DELETE' ? cookies.get('quota_session') : undefined;
+	// Reads are small operations and may use the small operation reserve
+	const charge = chargeQuota(cost, userKey, deletionSessionId, request.method === 'GET');
+	if (!charge.success) {
+		privacyLogger.warn(`Proxied ${request.method} ${params.path} rejected: ${charge.message}`);
+		if (charge.exceededLimit === 'perMinute') {
+			return apiError(429, 'rateLimitExceeded', 'Too many requests - please slow down');
+		}
+		return apiError(403, 'quotaExceeded', charge.exceededLimit === 'user'
+			? 'Your daily share of the shared quota is used up'
+			: 'The shared daily quota has been exceeded');
+	}
+	
+	let upstream: Response;
+	try {
+		upstream = await fetch(`${YOUTUBE_API_BASE}/${params.path}${url.search}`, {
+			method: request.method,
+			headers: {
+				'Authorization': `Bearer ${accessToken}`,
+				...(request.method === 'PUT' && { 'Content-Type': 'application/json' })
+			},
+			body: request.method === 'PUT' ? await request.text() : undefined
+		});
+	} catch (e) {
+		// The call never reached YouTube, so it didn't cost anything
+		refundQuota(cost, userKey, deletionSessionId);
+		privacyLogger.error(`YouTube proxy request failed: ${e instanceof Error ? e.message : 'Unknown error'}`);
+		return apiError(502, 'backendError', 'Could not reach the YouTube API');
+	}
+	
+	if (ENRICHMENT_CALLS.has(`${request.method} ${params.path}`)) {
+		recordEnrichmentCall();
+	}
+	
+	return new Response(upstream.status === 204 ? null : await upstream.text(), {
+		status: upstream.status,
+		headers: { 'Content-Type': upstream.headers.get('Content-Type') || 'application/json' }
+	});
+}
+
+export const GET: RequestHandler = proxy;
+export const PUT: RequestHandler = proxy;
+export const DELETE: RequestHandler = proxy;
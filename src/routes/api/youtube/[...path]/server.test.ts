@@ -0,0 +1,164 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Cookies } from '@sveltejs/kit';
+import type { RequestEvent } from './$types';
+
+// The proxy needs Google Login and reads the session vault and quota ledger from DATA_DIR
+const dataDir = mkdtempSync(join(tmpdir(), 'youtube-proxy-'));
+process.env.DATA_DIR = dataDir;
+process.env.GOOGLE_CLIENT_ID = 'client-id';
+process.env.GOOGLE_CLIENT_SECRET = 'client-secret';
+process.env.GOOGLE_REDIRECT_URI = 'https://example.com/api/auth/callback';
+process.env.SESSION_ENCRYPTION_KEY = 'test-encryption-key';
+vi.mock('$env/dynamic/private', () => ({ env: process.env }));
+const { GET } = await import('./+server');
+const vault = await import('$lib/server/sessionVault');
+const quota = await import('$lib/server/quota');
+
+const origin = new URL('https://example.com/');
+
+let refreshResponse: () => Promise<Response>;
+let upstreamResponse: () => Promise<Response>;
+let refreshCount = 0;
+const forwarded: string[] = [];
+// Quota used when each call was forwarded
+const usedAtForward: number[] = [];
+
+vi.stubGlobal('fetch', async (input: string | URL, init?: RequestInit) => {
+	const url = new URL(input);
+	if (url.hostname === 'oauth2.googleapis.com') {
+		refreshCount++;
+		return refreshResponse();
+	}
+	forwarded.push(new Headers(init?.headers).get('Authorization') ?? '');
+	usedAtForward.push(quota.getQuotaStatus().used);
+	return upstreamResponse();
+});
+
+function createCookies(): Cookies {
+	const values = new Map<string, string>([['quota_session', crypto.randomUUID()]]);
+	return {
+		get: (name: string) => values.get(name),
+		set: (name: string, value: string) => void values.set(name, value),
+		delete: (name: string) => void values.delete(name)
+	} as unknown as Cookies;
+}
+
+// Signed-in cookies whose vaulted access token has expired
+function expiredSession(): Cookies {
+	const cookies = createCookies();
+	vault.createSession(cookies, origin, { accessToken: 'ya29.expired', expiresIn: 0, refreshToken: '1//refresh' });
+	return cookies;
+}
+
+function signedIn(): Cookies {
+	const cookies = createCookies();
+	vault.createSession(cookies, origin, { accessToken: 'ya29.valid', expiresIn: 3600, refreshToken: '1//refresh' });
+	return cookies;
+}
+
+async function listComments(cookies: Cookies, path = 'comments'): Promise<Response> {
+	const url = new URL(`/api/youtube/${path}?part=snippet&id=c1`, origin);
+	return GET({
+		request: new Request(url),
+		params: { path },
+		url,
+		cookies,
+		locals: { sessionRevoked: false }
+	} as unknown as RequestEvent);
+}
+
+beforeEach(() => {
+	refreshCount = 0;
+	forwarded.length = 0;
+	usedAtForward.length = 0;
+	upstreamResponse = async () => Response.json({ items: [] });
+	refreshResponse = async () => Response.json({ access_token: `ya29.fresh-${refreshCount}`, expires_in: 3600 });
+});
+
+afterAll(() => {
+	rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('YouTube proxy token refresh', () => {
+	it('refreshes an expired access token and forwards the call with the new one', async () => {
+		const cookies = expiredSession();
+		const response = await listComments(cookies);
+
+		expect(response.status).toBe(200);
+		expect(forwarded).toEqual(['Bearer ya29.fresh-1']);
+		expect(vault.getSession(cookies)?.accessToken).toBe('ya29.fresh-1');
+
+		// The stored token is used until it expires
+		await listComments(cookies);
+		expect(refreshCount).toBe(1);
+	});
+
+	it('refreshes once for parallel calls', async () => {
+		const cookies = expiredSession();
+		const responses = await Promise.all([listComments(cookies), listComments(cookies), listComments(cookies)]);
+
+		expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+		expect(refreshCount).toBe(1);
+	});
+
+	it('asks to sign in again when the refresh token was revoked', async () => {
+		refreshResponse = async () => Response.json({ error: 'invalid_grant' }, { status: 400 });
+		const cookies = expiredSession();
+		const response = await listComments(cookies);
+
+		expect(response.status).toBe(401);
+		expect(forwarded).toEqual([]);
+		expect(vault.getSession(cookies)).toBeNull();
+	});
+
+	it('reports other refresh failures without ending the session', async () => {
+		refreshResponse = () => Promise.reject(new TypeError('fetch failed'));
+		const cookies = expiredSession();
+		const response = await listComments(cookies);
+
+		expect(response.status).toBe(502);
+		expect(vault.getSession(cookies)?.refreshToken).toBe('1//refresh');
+	});
+});
+
+describe('YouTube proxy quota', () => {
+	it('charges the shared quota before forwarding a call', async () => {
+		const usedBefore = quota.getQuotaStatus().used;
+		const response = await listComments(signedIn());
+
+		expect(response.status).toBe(200);
+		expect(usedAtForward).toEqual([usedBefore + quota.QUOTA_COSTS.commentsList]);
+		expect(quota.getQuotaStatus().used).toBe(usedBefore + quota.QUOTA_COSTS.commentsList);
+	});
+
+	it('refunds a call that never reached YouTube', async () => {
+		upstreamResponse = () => Promise.reject(new TypeError('fetch failed'));
+		const usedBefore = quota.getQuotaStatus().used;
+		const response = await listComments(signedIn());
+
+		expect(response.status).toBe(502);
+		expect(usedAtForward).toEqual([usedBefore + quota.QUOTA_COSTS.commentsList]);
+		expect(quota.getQuotaStatus().used).toBe(usedBefore);
+	});
+
+	it('refuses calls once the shared quota is used up', async () => {
+		quota.setDailyLimitOverride(0);
+		try {
+			const response = await listComments(signedIn());
+			expect(response.status).toBe(403);
+			expect((await response.json()).error.errors[0].reason).toBe('quotaExceeded');
+			expect(forwarded).toEqual([]);
+		} finally {
+			quota.setDailyLimitOverride(null);
+		}
+	});
+
+	it('only forwards supported API methods', async () => {
+		const response = await listComments(signedIn(), 'playlists');
+		expect(response.status).toBe(404);
+		expect(forwarded).toEqual([]);
+	});
+});
@@ -1,5 +1,5 @@
 import { sveltekit } from '@sveltejs/kit/vite';
-import { defineConfig } from 'vite';
+import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
 	plugins: [sveltekit()],
@@ -7,5 +7,9 @@ export default defineConfig({
 		// Compile-time constant for simulation mode
 		// When false, dead code elimination will remove simulation code from production builds
 		'import.meta.env.ENABLE_SIMULATION': JSON.stringify(process.env.ENABLE_SIMULATION_MODE === 'true')
+	},
+	test: {
+		include: ['src/**/*.test.ts'],
+		environment: 'node'
 	}
 });